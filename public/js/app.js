@@ -79,14 +79,42 @@ class WxccAgentScheduler {
         endDateTime.addEventListener('change', () => this.validateForm());
     }
 
+    /**
+     * Call the API with the API key kept in this browser
+     * On 401 the user is asked for a key once, and the request is retried with it
+     */
+    async apiFetch(path, options = {}, retried = false) {
+        const apiKey = localStorage.getItem('wxccApiKey');
+        const response = await fetch(`${this.apiBaseUrl}${path}`, {
+            ...options,
+            headers: {
+                ...(options.headers || {}),
+                ...(apiKey ? { 'X-API-Key': apiKey } : {})
+            }
+        });
+
+        if (response.status === 401 && !retried) {
+            // A parallel request may already have asked for a key
+            const newKey = localStorage.getItem('wxccApiKey') !== apiKey
+                ? localStorage.getItem('wxccApiKey')
+                : window.prompt('Enter your API key');
+            if (newKey) {
+                localStorage.setItem('wxccApiKey', newKey.trim());
+                return this.apiFetch(path, options, true);
+            }
+        }
+
+        return response;
+    }
+
     async loadData() {
         try {
             this.showLoadingState();
             
             // Load both containers and mappings in parallel
             const [containersResponse, mappingsResponse] = await Promise.all([
-                fetch(`${this.apiBaseUrl}/overrides/containers`),
-                fetch(`${this.apiBaseUrl}/overrides/mappings`)
+                this.apiFetch('/overrides/containers'),
+                this.apiFetch('/overrides/mappings')
             ]);
 
             if (!containersResponse.ok) {
@@ -276,7 +304,7 @@ class WxccAgentScheduler {
             try {
                 console.log(`Creating mapping: ${mapping.overrideName} -> ${mapping.agentName}`);
                 
-                const response = await fetch(`${this.apiBaseUrl}/overrides/map`, {
+                const response = await this.apiFetch('/overrides/map', {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
@@ -468,7 +496,7 @@ class WxccAgentScheduler {
             }
 
             // Call backend API
-            const response = await fetch(`${this.apiBaseUrl}/overrides/working-hours`, {
+            const response = await this.apiFetch('/overrides/working-hours', {
                 method: 'PATCH',
                 headers: {
                     'Content-Type': 'application/json',
@@ -746,8 +774,8 @@ class WxccAgentScheduler {
             saveBtn.innerHTML = '<i class="fas fa-spinner fa-spin"></i> Saving...';
             saveBtn.disabled = true;
 
-            const response = await fetch(
-                `${this.apiBaseUrl}/overrides/containers/${this.currentAgent.containerId}/agents/${this.currentAgent.agentId}`,
+            const response = await this.apiFetch(
+                `/overrides/containers/${this.currentAgent.containerId}/agents/${this.currentAgent.agentId}`,
                 {
                     method: 'PUT',
                     headers: {
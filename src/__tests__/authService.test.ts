@@ -0,0 +1,143 @@
+/**
+ * Auth Service Tests
+ *
+ * API key and JWT authentication, and the role hierarchy
+ */
+
+import { createHmac } from 'crypto';
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { authenticate } from '../middleware';
+import { AuthService } from '../services/authService';
+import { AuthenticationError, RateLimitError } from '../utils/errors';
+import { runWithContext, getCurrentActor } from '../utils/requestContext';
+
+const SECRET = 'test-secret';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signJwt = (claims: object, secret = SECRET, header: object = { alg: 'HS256', typ: 'JWT' }) => {
+  const unsigned = `${encode(header)}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+describe('AuthService', () => {
+  const originalAuth = { ...config.auth };
+  const now = Math.floor(Date.now() / 1000);
+  let authService: AuthService;
+
+  beforeEach(() => {
+    authService = new AuthService();
+    Object.assign(config.auth, {
+      enabled: true,
+      apiKeys: [
+        { name: 'dashboard', role: 'viewer', key: 'view-key' },
+        { name: 'ops-bot', role: 'admin', key: 'admin:key' }
+      ],
+      jwtSecret: SECRET,
+      jwtIssuer: 'https://idp.example.com',
+      jwtAudience: 'wxcc-overrides-api'
+    });
+  });
+
+  afterAll(() => {
+    Object.assign(config.auth, originalAuth);
+  });
+
+  const bearer = (claims: object, secret?: string, header?: object) =>
+    ({ authorization: `Bearer ${signJwt(claims, secret, header)}` });
+
+  const validClaims = {
+    sub: 'alice',
+    role: 'scheduler',
+    iss: 'https://idp.example.com',
+    aud: 'wxcc-overrides-api',
+    exp: now + 300
+  };
+
+  describe('API keys', () => {
+    it('should identify the caller by the name of its key', () => {
+      expect(authService.authenticate({ apiKey: 'admin:key' })).toEqual({ subject: 'ops-bot', role: 'admin', groups: [], method: 'api_key' });
+      expect(authService.authenticate({ apiKey: 'view-key' }).role).toBe('viewer');
+    });
+
+    it('should reject unknown keys and missing credentials', () => {
+      expect(() => authService.authenticate({ apiKey: 'nope' })).toThrow('Invalid API key');
+      expect(() => authService.authenticate({})).toThrow(AuthenticationError);
+      expect(() => authService.authenticate({ authorization: 'Basic YWxpY2U6cHc=' })).toThrow('Authentication required');
+    });
+  });
+
+  describe('JWTs', () => {
+    it('should identify the caller by its sub claim and take the highest role it claims', () => {
+      expect(authService.authenticate(bearer(validClaims))).toEqual({ subject: 'alice', role: 'scheduler', groups: [], method: 'jwt' });
+      expect(authService.authenticate(bearer({ ...validClaims, groups: ['sales', 42] })).groups).toEqual(['sales']);
+      expect(authService.authenticate(bearer({ ...validClaims, role: undefined, roles: ['viewer', 'admin', 'other'] })).role)
+        .toBe('admin');
+    });
+
+    it.each([
+      ['a wrong signature', bearer(validClaims, 'other-secret'), 'bad signature'],
+      ['alg none', bearer(validClaims, SECRET, { alg: 'none' }), 'only HS256'],
+      ['an expired token', bearer({ ...validClaims, exp: now - 120 }), 'expired'],
+      ['a token that never expires', bearer({ ...validClaims, exp: undefined }), 'missing exp'],
+      ['a token not yet valid', bearer({ ...validClaims, nbf: now + 120 }), 'not yet valid'],
+      ['another issuer', bearer({ ...validClaims, iss: 'https://evil.example.com' }), 'unexpected issuer'],
+      ['another audience', bearer({ ...validClaims, aud: ['other-api'] }), 'unexpected audience'],
+      ['no sub claim', bearer({ ...validClaims, sub: undefined }), 'missing sub'],
+      ['an unknown role', bearer({ ...validClaims, role: 'owner' }), 'role must be one of'],
+      ['a malformed token', { authorization: 'Bearer not-a-jwt' }, 'malformed']
+    ])('should reject %s', (_case, credentials, message) => {
+      expect(() => authService.authenticate(credentials)).toThrow(message);
+    });
+
+    it('should reject bearer tokens when no JWT secret is configured', () => {
+      config.auth.jwtSecret = '';
+
+      expect(() => authService.authenticate(bearer(validClaims))).toThrow('JWT_SECRET is not configured');
+    });
+  });
+
+  describe('Roles', () => {
+    it('should let each role do what the roles below it may', () => {
+      expect(authService.hasRole('admin', 'scheduler')).toBe(true);
+      expect(authService.hasRole('scheduler', 'scheduler')).toBe(true);
+      expect(authService.hasRole('scheduler', 'admin')).toBe(false);
+      expect(authService.hasRole('viewer', 'scheduler')).toBe(false);
+    });
+
+    it('should make the authenticated identity the actor of the request', () => {
+      const identity = authService.authenticate({ apiKey: 'view-key' });
+      const organization = { id: 'org-1', name: 'Acme', baseUrl: 'https://api.wxcc-us1.cisco.com', timezone: 'UTC' };
+
+      expect(runWithContext({ organization, identity }, () => getCurrentActor())).toBe('dashboard');
+      expect(getCurrentActor()).toBe('anonymous');
+    });
+  });
+
+  describe('authenticate middleware', () => {
+    const request = (ip: string, apiKey: string) => ({
+      method: 'GET',
+      originalUrl: '/api/overrides/containers',
+      ip,
+      get: (name: string) => name === 'X-API-Key' ? apiKey : undefined
+    }) as unknown as Request;
+
+    it('should refuse an IP that keeps failing to authenticate, even with valid credentials', () => {
+      const next = jest.fn();
+
+      for (let attempt = 0; attempt < config.api.rateLimitAuthFailureMax; attempt++) {
+        authenticate(request('203.0.113.7', `guess-${attempt}`), {} as Response, next);
+      }
+      expect(next.mock.calls.every(([error]) => error instanceof AuthenticationError)).toBe(true);
+
+      next.mockClear();
+      authenticate(request('203.0.113.7', 'view-key'), {} as Response, next);
+      expect(next).toHaveBeenCalledWith(expect.any(RateLimitError));
+
+      next.mockClear();
+      authenticate(request('203.0.113.8', 'view-key'), {} as Response, next);
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+});
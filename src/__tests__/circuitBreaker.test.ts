@@ -0,0 +1,62 @@
+import { CircuitBreaker } from '../utils/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker(3, 10000, () => now);
+  });
+
+  it('should open after the threshold of consecutive failures', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.getStatus()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      failureThreshold: 3,
+      openedAt: '1970-01-01T00:00:00.000Z',
+      retryAt: '1970-01-01T00:00:10.000Z'
+    });
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+    expect(breaker.getStatus().consecutiveFailures).toBe(1);
+  });
+
+  it('should let a single trial through once the reset timeout has passed', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    now = 10000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+  });
+
+  it('should reopen when the trial request fails', () => {
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+
+    now = 10000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('open');
+    expect(breaker.getStatus().retryAt).toBe('1970-01-01T00:00:20.000Z');
+  });
+});
@@ -0,0 +1,47 @@
+import { mapWithConcurrency } from '../utils/concurrency';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('mapWithConcurrency', () => {
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async item => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+      return item * 10;
+    });
+
+    expect(peak).toBe(3);
+    expect(results.map(result => result.status === 'fulfilled' && result.value)).toEqual([10, 20, 30, 40, 50, 60, 70]);
+  });
+
+  it('should settle failures in item order without stopping other items', async () => {
+    const results = await mapWithConcurrency(['a', 'b', 'c'], 2, async item => {
+      await tick();
+      if (item === 'b') throw new Error('b failed');
+      return item.toUpperCase();
+    });
+
+    expect(results[0]).toEqual({ status: 'fulfilled', value: 'A' });
+    expect(results[1]).toEqual({ status: 'rejected', reason: new Error('b failed') });
+    expect(results[2]).toEqual({ status: 'fulfilled', value: 'C' });
+  });
+
+  it('should handle an empty list and treat limits below 1 as 1', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+
+    let running = 0;
+    let peak = 0;
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await tick();
+      running--;
+    });
+    expect(peak).toBe(1);
+  });
+});
@@ -0,0 +1,67 @@
+import { buildTimeline, expandWeeklyWindows } from '../utils/coverage';
+
+const at = (time: string) => new Date(`2030-01-07T${time}:00Z`); // a Monday
+
+describe('Coverage Utilities', () => {
+  describe('buildTimeline', () => {
+    it('should split the range into covered, double-booked and empty segments', () => {
+      const segments = buildTimeline([
+        { id: 'alice', start: at('09:00'), end: at('13:00') },
+        { id: 'bob', start: at('12:00'), end: at('17:00') }
+      ], at('08:00'), at('18:00'));
+
+      expect(segments.map(segment => [segment.start.toISOString().slice(11, 16), segment.end.toISOString().slice(11, 16), segment.ids]))
+        .toEqual([
+          ['08:00', '09:00', []],
+          ['09:00', '12:00', ['alice']],
+          ['12:00', '13:00', ['alice', 'bob']],
+          ['13:00', '17:00', ['bob']],
+          ['17:00', '18:00', []]
+        ]);
+    });
+
+    it('should treat back-to-back intervals as consecutive, not overlapping', () => {
+      const segments = buildTimeline([
+        { id: 'alice', start: at('09:00'), end: at('12:00') },
+        { id: 'bob', start: at('12:00'), end: at('15:00') }
+      ], at('09:00'), at('15:00'));
+
+      expect(segments.every(segment => segment.ids.length === 1)).toBe(true);
+    });
+
+    it('should merge neighbouring segments with the same intervals and clip to the range', () => {
+      const segments = buildTimeline([
+        { id: 'alice', start: at('06:00'), end: at('12:00') },
+        { id: 'alice', start: at('12:00'), end: at('20:00') }
+      ], at('09:00'), at('15:00'));
+
+      expect(segments).toEqual([{ start: at('09:00'), end: at('15:00'), ids: ['alice'] }]);
+    });
+  });
+
+  describe('expandWeeklyWindows', () => {
+    it('should expand windows on matching days in the container timezone', () => {
+      const windows = expandWeeklyWindows(
+        [{ daysOfWeek: [1], startTime: '08:00', endTime: '18:00' }],
+        new Date('2030-07-01T00:00:00Z'),
+        new Date('2030-07-09T00:00:00Z'),
+        'Europe/London'
+      );
+
+      expect(windows).toEqual([
+        { start: new Date('2030-07-01T07:00:00Z'), end: new Date('2030-07-01T17:00:00Z') },
+        { start: new Date('2030-07-08T07:00:00Z'), end: new Date('2030-07-08T17:00:00Z') }
+      ]);
+    });
+
+    it('should run windows past midnight into the next day', () => {
+      const windows = expandWeeklyWindows(
+        [{ daysOfWeek: [0], startTime: '22:00', endTime: '06:00' }],
+        at('00:00'),
+        at('12:00')
+      );
+
+      expect(windows).toEqual([{ start: new Date('2030-01-06T22:00:00Z'), end: at('06:00') }]);
+    });
+  });
+});
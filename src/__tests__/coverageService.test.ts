@@ -0,0 +1,103 @@
+/**
+ * Coverage Service Tests
+ * 
+ * Tests for coverage gap analysis over a container's working-hours schedules
+ */
+
+import { overrideService } from '../services/overrideService';
+import { CoverageService } from '../services/coverageService';
+import { Agent, AgentStatus, OverrideContainer } from '../types';
+
+jest.mock('../services/databaseService');
+jest.mock('../services/overrideService');
+
+const mockOverrideService = overrideService as jest.Mocked<typeof overrideService>;
+
+describe('CoverageService', () => {
+  let coverageService: CoverageService;
+
+  const agent = (agentId: string, startDateTime: string, endDateTime: string, workingHours = true): Agent => ({
+    agentId,
+    containerId: 'container-1',
+    containerName: 'Support Team',
+    workingHours,
+    startDateTime,
+    endDateTime,
+    timezone: 'UTC',
+    status: AgentStatus.SCHEDULED
+  });
+
+  const container = (agents: Agent[], timezone = 'UTC'): OverrideContainer => ({
+    id: 'container-1',
+    name: 'Support Team',
+    timezone,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+    agents
+  });
+
+  beforeEach(() => {
+    coverageService = new CoverageService();
+    jest.clearAllMocks();
+  });
+
+  describe('analyzeCoverage', () => {
+    it('should split the range into covered segments, gaps and double-booked segments', async () => {
+      mockOverrideService.getContainerById.mockResolvedValue(container([
+        agent('alice', '2024-01-15T09:00', '2024-01-15T13:00'),
+        agent('bob', '2024-01-15T12:00', '2024-01-15T17:00'),
+        agent('carol', '2024-01-15T17:00', '2024-01-15T18:00', false)
+      ]));
+
+      const analysis = await coverageService.analyzeCoverage('container-1', {
+        from: '2024-01-15T08:00:00Z',
+        to: '2024-01-15T18:00:00Z'
+      });
+
+      expect(analysis.gaps).toEqual([
+        { start: '2024-01-15T08:00:00.000Z', end: '2024-01-15T09:00:00.000Z', minutes: 60, agentIds: [] },
+        { start: '2024-01-15T17:00:00.000Z', end: '2024-01-15T18:00:00.000Z', minutes: 60, agentIds: [] }
+      ]);
+      expect(analysis.doubleBooked).toEqual([
+        { start: '2024-01-15T12:00:00.000Z', end: '2024-01-15T13:00:00.000Z', minutes: 60, agentIds: ['alice', 'bob'] }
+      ]);
+      expect(analysis.covered.map(segment => segment.agentIds)).toEqual([['alice'], ['alice', 'bob'], ['bob']]);
+      expect(analysis.coveredMinutes).toBe(480);
+      expect(analysis.gapMinutes).toBe(120);
+      expect(analysis.doubleBookedMinutes).toBe(60);
+    });
+
+    it('should read offset-less bounds in the container timezone', async () => {
+      mockOverrideService.getContainerById.mockResolvedValue(container([
+        { ...agent('alice', '2024-07-01T09:00', '2024-07-01T17:00'), timezone: 'Europe/London' }
+      ], 'Europe/London'));
+
+      const analysis = await coverageService.analyzeCoverage('container-1', {
+        from: '2024-07-01T09:00',
+        to: '2024-07-01T18:00'
+      });
+
+      expect(analysis.from).toBe('2024-07-01T08:00:00.000Z');
+      expect(analysis.to).toBe('2024-07-01T17:00:00.000Z');
+      expect(analysis.gaps).toEqual([
+        { start: '2024-07-01T16:00:00.000Z', end: '2024-07-01T17:00:00.000Z', minutes: 60, agentIds: [] }
+      ]);
+    });
+
+    it('should default to the next two weeks', async () => {
+      mockOverrideService.getContainerById.mockResolvedValue(container([]));
+
+      const analysis = await coverageService.analyzeCoverage('container-1');
+
+      expect(Date.parse(analysis.to) - Date.parse(analysis.from)).toBe(14 * 24 * 60 * 60 * 1000);
+      expect(analysis.gaps).toHaveLength(1);
+      expect(analysis.gapMinutes).toBe(14 * 24 * 60);
+    });
+
+    it('should propagate container lookup failures', async () => {
+      mockOverrideService.getContainerById.mockRejectedValue(new Error('Failed to fetch container: Not found'));
+
+      await expect(coverageService.analyzeCoverage('missing')).rejects.toThrow('Failed to fetch container');
+    });
+  });
+});
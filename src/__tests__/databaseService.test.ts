@@ -5,11 +5,14 @@
  */
 
 import { DatabaseService } from '../services/databaseService';
+import { config } from '../config';
 import { MappingRequest } from '../types';
 import path from 'path';
 import fs from 'fs';
+import sqlite3 from 'sqlite3';
 
 describe('DatabaseService', () => {
+  const ORG_ID = 'org-1';
   let dbService: DatabaseService;
   const testDbPath = path.join(__dirname, 'test_mapping.db');
 
@@ -36,7 +39,7 @@ describe('DatabaseService', () => {
       expect(dbService).toBeDefined();
       
       // Test that we can perform basic operations
-      const mappings = await dbService.getAllMappings();
+      const mappings = await dbService.getAllMappings(ORG_ID);
       expect(Array.isArray(mappings)).toBe(true);
       expect(mappings.length).toBe(0);
     });
@@ -49,7 +52,7 @@ describe('DatabaseService', () => {
         agentName: 'John Smith'
       };
 
-      const mapping = await dbService.upsertMapping(request);
+      const mapping = await dbService.upsertMapping(ORG_ID, request);
       
       expect(mapping.overrideName).toBe(request.overrideName);
       expect(mapping.agentName).toBe(request.agentName);
@@ -64,7 +67,7 @@ describe('DatabaseService', () => {
       };
 
       // Create initial mapping
-      const initialMapping = await dbService.upsertMapping(request);
+      const initialMapping = await dbService.upsertMapping(ORG_ID, request);
       
       // Update with new agent name
       const updateRequest: MappingRequest = {
@@ -72,7 +75,7 @@ describe('DatabaseService', () => {
         agentName: 'Jane Smith'
       };
       
-      const updatedMapping = await dbService.upsertMapping(updateRequest);
+      const updatedMapping = await dbService.upsertMapping(ORG_ID, updateRequest);
       
       expect(updatedMapping.id).toBe(initialMapping.id);
       expect(updatedMapping.agentName).toBe('Jane Smith');
@@ -85,13 +88,13 @@ describe('DatabaseService', () => {
         agentName: 'Bob Wilson'
       };
 
-      await dbService.upsertMapping(request);
+      await dbService.upsertMapping(ORG_ID, request);
       
-      const retrieved = await dbService.getMapping('Emergency Response');
+      const retrieved = await dbService.getMapping(ORG_ID, 'Emergency Response');
       expect(retrieved).not.toBeNull();
       expect(retrieved!.agentName).toBe('Bob Wilson');
       
-      const notFound = await dbService.getMapping('Non-existent');
+      const notFound = await dbService.getMapping(ORG_ID, 'Non-existent');
       expect(notFound).toBeNull();
     });
 
@@ -103,10 +106,10 @@ describe('DatabaseService', () => {
       ];
 
       for (const mapping of mappings) {
-        await dbService.upsertMapping(mapping);
+        await dbService.upsertMapping(ORG_ID, mapping);
       }
       
-      const allMappings = await dbService.getAllMappings();
+      const allMappings = await dbService.getAllMappings(ORG_ID);
       expect(allMappings.length).toBe(3);
       expect(allMappings.map(m => m.agentName).sort()).toEqual(['Alice', 'Bob', 'Charlie']);
     });
@@ -115,38 +118,38 @@ describe('DatabaseService', () => {
   describe('Working Hours Operations', () => {
     beforeEach(async () => {
       // Create a mapping for working hours tests
-      await dbService.upsertMapping({
+      await dbService.upsertMapping(ORG_ID, {
         overrideName: 'Test Agent',
         agentName: 'Test User'
       });
     });
 
     it('should update working hours status', async () => {
-      const updated = await dbService.updateWorkingHours('Test Agent', true);
+      const updated = await dbService.updateWorkingHours(ORG_ID, 'Test Agent', true);
       
       expect(updated).not.toBeNull();
       expect(updated!.workingHoursActive).toBe(true);
       
-      const disabled = await dbService.updateWorkingHours('Test Agent', false);
+      const disabled = await dbService.updateWorkingHours(ORG_ID, 'Test Agent', false);
       expect(disabled!.workingHoursActive).toBe(false);
     });
 
     it('should return null for non-existent mapping when updating working hours', async () => {
-      const result = await dbService.updateWorkingHours('Non-existent', true);
+      const result = await dbService.updateWorkingHours(ORG_ID, 'Non-existent', true);
       expect(result).toBeNull();
     });
 
     it('should get mappings with active working hours', async () => {
       // Create additional mappings
-      await dbService.upsertMapping({ overrideName: 'Agent 1', agentName: 'User 1' });
-      await dbService.upsertMapping({ overrideName: 'Agent 2', agentName: 'User 2' });
+      await dbService.upsertMapping(ORG_ID, { overrideName: 'Agent 1', agentName: 'User 1' });
+      await dbService.upsertMapping(ORG_ID, { overrideName: 'Agent 2', agentName: 'User 2' });
       
       // Activate working hours for some agents
-      await dbService.updateWorkingHours('Test Agent', true);
-      await dbService.updateWorkingHours('Agent 1', true);
+      await dbService.updateWorkingHours(ORG_ID, 'Test Agent', true);
+      await dbService.updateWorkingHours(ORG_ID, 'Agent 1', true);
       // Leave Agent 2 with working hours disabled
       
-      const activeMappings = await dbService.getActiveWorkingHoursMappings();
+      const activeMappings = await dbService.getActiveWorkingHoursMappings(ORG_ID);
       expect(activeMappings.length).toBe(2);
       expect(activeMappings.map(m => m.overrideName).sort()).toEqual(['Agent 1', 'Test Agent']);
     });
@@ -162,38 +165,38 @@ describe('DatabaseService', () => {
       ];
       
       for (const mapping of testMappings) {
-        await dbService.upsertMapping(mapping);
+        await dbService.upsertMapping(ORG_ID, mapping);
       }
     });
 
     it('should cleanup orphaned mappings', async () => {
       const activeOverrides = ['Active Agent', 'Inactive Agent'];
       
-      const deletedCount = await dbService.cleanupOrphanedMappings(activeOverrides);
+      const deletedCount = await dbService.cleanupOrphanedMappings(ORG_ID, activeOverrides);
       
       expect(deletedCount).toBe(1); // Should delete 'Obsolete Agent'
       
-      const remainingMappings = await dbService.getAllMappings();
+      const remainingMappings = await dbService.getAllMappings(ORG_ID);
       expect(remainingMappings.length).toBe(2);
       expect(remainingMappings.map(m => m.overrideName).sort()).toEqual(['Active Agent', 'Inactive Agent']);
     });
 
     it('should handle empty active overrides list', async () => {
-      const deletedCount = await dbService.cleanupOrphanedMappings([]);
+      const deletedCount = await dbService.cleanupOrphanedMappings(ORG_ID, []);
       expect(deletedCount).toBe(0); // Should not delete anything when no active overrides provided
       
-      const remainingMappings = await dbService.getAllMappings();
+      const remainingMappings = await dbService.getAllMappings(ORG_ID);
       expect(remainingMappings.length).toBe(3); // All mappings should remain
     });
 
     it('should cleanup all mappings when no active overrides match', async () => {
       const activeOverrides = ['New Agent 1', 'New Agent 2'];
       
-      const deletedCount = await dbService.cleanupOrphanedMappings(activeOverrides);
+      const deletedCount = await dbService.cleanupOrphanedMappings(ORG_ID, activeOverrides);
       
       expect(deletedCount).toBe(3); // Should delete all existing mappings
       
-      const remainingMappings = await dbService.getAllMappings();
+      const remainingMappings = await dbService.getAllMappings(ORG_ID);
       expect(remainingMappings.length).toBe(0);
     });
   });
@@ -205,7 +208,7 @@ describe('DatabaseService', () => {
         agentName: 'First Name'
       };
 
-      const first = await dbService.upsertMapping(request);
+      const first = await dbService.upsertMapping(ORG_ID, request);
       
       // Try to create again with different agent name
       const updateRequest: MappingRequest = {
@@ -213,13 +216,329 @@ describe('DatabaseService', () => {
         agentName: 'Second Name'
       };
       
-      const second = await dbService.upsertMapping(updateRequest);
+      const second = await dbService.upsertMapping(ORG_ID, updateRequest);
       
       expect(first.id).toBe(second.id); // Same record
       expect(second.agentName).toBe('Second Name'); // Updated value
       
-      const allMappings = await dbService.getAllMappings();
+      const allMappings = await dbService.getAllMappings(ORG_ID);
       expect(allMappings.length).toBe(1); // Only one record
     });
   });
-});
\ No newline at end of file
+
+  describe('Organization Partitioning', () => {
+    it('should keep mappings of different organizations apart', async () => {
+      await dbService.upsertMapping(ORG_ID, { overrideName: 'Day shift', agentName: 'Alice' });
+      await dbService.upsertMapping('org-2', { overrideName: 'Day shift', agentName: 'Bob' });
+      await dbService.updateWorkingHours('org-2', 'Day shift', true);
+
+      expect((await dbService.getMapping(ORG_ID, 'Day shift'))?.agentName).toBe('Alice');
+      expect((await dbService.getMapping(ORG_ID, 'Day shift'))?.workingHoursActive).toBe(false);
+      expect((await dbService.getMapping('org-2', 'Day shift'))?.agentName).toBe('Bob');
+      expect(await dbService.getActiveWorkingHoursMappings(ORG_ID)).toHaveLength(0);
+
+      // Cleanup only removes orphans of the given organization
+      expect(await dbService.cleanupOrphanedMappings(ORG_ID, ['Night shift'])).toBe(1);
+      expect(await dbService.getAllMappings(ORG_ID)).toHaveLength(0);
+      expect(await dbService.getAllMappings('org-2')).toEqual([
+        expect.objectContaining({ organizationId: 'org-2', overrideName: 'Day shift' })
+      ]);
+    });
+
+    it('should assign mappings of an unpartitioned database to the configured organization', async () => {
+      await dbService.close();
+      fs.unlinkSync(testDbPath);
+
+      // Mappings table as created before organizations existed
+      const legacy = new sqlite3.Database(testDbPath);
+      await new Promise<void>((resolve, reject) => legacy.exec(`
+        CREATE TABLE wxcc_agent_mappings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          override_name TEXT UNIQUE NOT NULL,
+          agent_name TEXT NOT NULL,
+          working_hours_active INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+        INSERT INTO wxcc_agent_mappings (override_name, agent_name, working_hours_active) VALUES ('Day shift', 'Alice', 1);
+      `, err => err ? reject(err) : resolve()));
+      await new Promise(resolve => legacy.close(resolve));
+
+      const originalOrgId = config.wxcc.organizationId;
+      config.wxcc.organizationId = 'legacy-org';
+      try {
+        dbService = new DatabaseService(testDbPath);
+
+        expect(await dbService.getAllMappings('legacy-org')).toEqual([
+          expect.objectContaining({ overrideName: 'Day shift', agentName: 'Alice', workingHoursActive: true })
+        ]);
+
+        // The same override name can now be mapped in another organization
+        await dbService.upsertMapping('org-2', { overrideName: 'Day shift', agentName: 'Bob' });
+        expect(await dbService.getAllMappings('org-2')).toHaveLength(1);
+      } finally {
+        config.wxcc.organizationId = originalOrgId;
+      }
+    });
+  });
+
+  describe('Organization Operations', () => {
+    it('should create, update and delete organizations', async () => {
+      const created = await dbService.createOrganization({
+        id: 'org-2',
+        name: 'Acme',
+        baseUrl: 'https://api.wxcc-us1.cisco.com',
+        timezone: 'America/New_York',
+        refreshToken: 'refresh-1',
+        clientId: 'client',
+        clientSecret: 'secret'
+      });
+
+      expect(created).toEqual(expect.objectContaining({
+        id: 'org-2',
+        timezone: 'America/New_York',
+        accessToken: undefined,
+        refreshToken: 'refresh-1'
+      }));
+      expect(created.createdAt).toBeDefined();
+
+      const updated = await dbService.updateOrganization('org-2', { name: 'Acme Corp', refreshToken: '', accessToken: 'access-1' });
+
+      expect(updated).toEqual(expect.objectContaining({ name: 'Acme Corp', accessToken: 'access-1', refreshToken: undefined }));
+      expect(await dbService.updateOrganization('org-3', { name: 'Nobody' })).toBeNull();
+      expect(await dbService.getOrganizations()).toHaveLength(1);
+
+      expect(await dbService.deleteOrganization('org-2')).toBe(true);
+      expect(await dbService.deleteOrganization('org-2')).toBe(false);
+      expect(await dbService.getOrganization('org-2')).toBeNull();
+    });
+  });
+
+  describe('Recurring Schedule Operations', () => {
+    it('should create, list and delete recurring schedules', async () => {
+      const created = await dbService.createRecurringSchedule('org-1', {
+        containerId: 'container-1',
+        overrideName: 'alice on-call',
+        daysOfWeek: [2, 4],
+        startTime: '18:00',
+        endTime: '22:00',
+        workingHours: true,
+        validFrom: '2024-01-01'
+      });
+
+      expect(created.id).toBeGreaterThan(0);
+      expect(created.daysOfWeek).toEqual([2, 4]);
+      expect(created.workingHours).toBe(true);
+      expect(created.validFrom).toBe('2024-01-01');
+      expect(created.validUntil).toBeUndefined();
+
+      await dbService.createRecurringSchedule('org-1', {
+        containerId: 'container-2',
+        overrideName: 'bob weekend',
+        daysOfWeek: [0, 6],
+        startTime: '09:00',
+        endTime: '17:00',
+        workingHours: false
+      });
+
+      expect(await dbService.getRecurringSchedules('org-1')).toHaveLength(2);
+      expect((await dbService.getRecurringSchedules('org-1', 'container-2'))[0].overrideName).toBe('bob weekend');
+
+      expect(await dbService.deleteRecurringSchedule('org-1', created.id)).toBe(true);
+      expect(await dbService.deleteRecurringSchedule('org-1', created.id)).toBe(false);
+      expect(await dbService.getRecurringSchedule('org-1', created.id)).toBeNull();
+    });
+
+    it('should keep recurring schedules to their organization', async () => {
+      const created = await dbService.createRecurringSchedule('org-1', {
+        containerId: 'container-1',
+        overrideName: 'alice on-call',
+        daysOfWeek: [2],
+        startTime: '18:00',
+        endTime: '22:00',
+        workingHours: true
+      });
+
+      expect(created.organizationId).toBe('org-1');
+      expect(await dbService.getRecurringSchedules('org-2')).toEqual([]);
+      expect(await dbService.getRecurringSchedule('org-2', created.id)).toBeNull();
+      expect(await dbService.deleteRecurringSchedule('org-2', created.id)).toBe(false);
+      expect(await dbService.getRecurringSchedule('org-1', created.id)).not.toBeNull();
+    });
+  });
+
+  describe('Coverage Rule Operations', () => {
+    it('should create, replace and delete coverage rules', async () => {
+      expect(await dbService.getCoverageRules('org-1', 'container-1')).toBeNull();
+
+      const created = await dbService.upsertCoverageRules('org-1', 'container-1', {
+        maxConcurrent: 3,
+        minCoverage: 1,
+        allowedWindows: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '18:00' }]
+      });
+
+      expect(created.maxConcurrent).toBe(3);
+      expect(created.allowedWindows).toEqual([{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '18:00' }]);
+
+      const replaced = await dbService.upsertCoverageRules('org-1', 'container-1', { maxConcurrent: 2, minCoverage: 0 });
+
+      expect(replaced.maxConcurrent).toBe(2);
+      expect(replaced.allowedWindows).toEqual([]);
+
+      expect(await dbService.deleteCoverageRules('org-1', 'container-1')).toBe(true);
+      expect(await dbService.deleteCoverageRules('org-1', 'container-1')).toBe(false);
+    });
+
+    it('should key coverage rules by organization and container', async () => {
+      await dbService.upsertCoverageRules('org-1', 'container-1', { maxConcurrent: 3, minCoverage: 1 });
+      await dbService.upsertCoverageRules('org-2', 'container-1', { maxConcurrent: 1, minCoverage: 0 });
+
+      expect((await dbService.getCoverageRules('org-1', 'container-1'))!.maxConcurrent).toBe(3);
+      expect((await dbService.getCoverageRules('org-2', 'container-1'))!.maxConcurrent).toBe(1);
+
+      expect(await dbService.deleteCoverageRules('org-2', 'container-1')).toBe(true);
+      expect(await dbService.getCoverageRules('org-1', 'container-1')).not.toBeNull();
+    });
+  });
+
+  describe('OAuth Token Operations', () => {
+    it('should store and replace the tokens of an organization', async () => {
+      expect(await dbService.getOAuthTokens('org-1')).toBeNull();
+
+      await dbService.saveOAuthTokens('org-1', {
+        accessToken: 'access-1',
+        refreshToken: 'refresh-1',
+        expiresAt: '2030-01-01T12:00:00.000Z'
+      });
+      await dbService.saveOAuthTokens('org-1', { accessToken: 'access-2', refreshToken: 'refresh-2' });
+
+      expect(await dbService.getOAuthTokens('org-1')).toEqual(expect.objectContaining({
+        accessToken: 'access-2',
+        refreshToken: 'refresh-2',
+        expiresAt: undefined
+      }));
+      expect(await dbService.getOAuthTokens('org-2')).toBeNull();
+    });
+  });
+
+  describe('Audit Log Operations', () => {
+    const entry = (timestamp: string, overrides: Record<string, unknown> = {}) => ({
+      timestamp,
+      organizationId: ORG_ID,
+      actor: 'alice',
+      action: 'update_agent_schedule' as const,
+      entityType: 'override' as const,
+      overrideName: 'john.doe',
+      containerId: 'container-1',
+      before: { workingHours: true, endDateTime: '2030-01-01T17:00' },
+      after: { workingHours: true, endDateTime: '2030-01-01T12:00' },
+      outcome: 'success' as const,
+      ...overrides
+    });
+
+    it('should store entries with their before and after state, newest first', async () => {
+      await dbService.insertAuditEntry(entry('2030-01-01T09:00:00.000Z'));
+      await dbService.insertAuditEntry(entry('2030-01-02T09:00:00.000Z', {
+        outcome: 'failure',
+        error: 'Validation failed'
+      }));
+
+      const entries = await dbService.getAuditEntries(ORG_ID, { limit: 10, offset: 0 });
+
+      expect(entries.map(e => e.timestamp)).toEqual(['2030-01-02T09:00:00.000Z', '2030-01-01T09:00:00.000Z']);
+      expect(entries[0]).toEqual(expect.objectContaining({ outcome: 'failure', error: 'Validation failed' }));
+      expect(entries[1].before).toEqual({ workingHours: true, endDateTime: '2030-01-01T17:00' });
+      expect(entries[1].error).toBeUndefined();
+    });
+
+    it('should filter by override, container, actor, date range and organization', async () => {
+      await dbService.insertAuditEntry(entry('2030-01-01T09:00:00.000Z'));
+      await dbService.insertAuditEntry(entry('2030-01-02T09:00:00.000Z', { actor: 'bob' }));
+      await dbService.insertAuditEntry(entry('2030-01-03T09:00:00.000Z', { overrideName: 'jane.smith', containerId: 'container-2' }));
+      await dbService.insertAuditEntry(entry('2030-01-04T09:00:00.000Z', { organizationId: 'org-2' }));
+
+      const query = { limit: 10, offset: 0 };
+      const count = async (filters: Record<string, string>) =>
+        (await dbService.getAuditEntries(ORG_ID, { ...query, ...filters })).length;
+
+      expect(await count({})).toBe(3);
+      expect(await count({ overrideName: 'john.doe' })).toBe(2);
+      expect(await count({ containerId: 'container-2' })).toBe(1);
+      expect(await count({ actor: 'bob' })).toBe(1);
+      expect(await count({ from: '2030-01-02T00:00:00.000Z', to: '2030-01-03T09:00:00.000Z' })).toBe(1);
+      expect(await dbService.getAuditEntries(ORG_ID, { limit: 1, offset: 1 })).toEqual([
+        expect.objectContaining({ actor: 'bob' })
+      ]);
+    });
+  });
+
+  describe('Override Version Operations', () => {
+    const version = (overrides: Record<string, unknown> = {}) => ({
+      organizationId: ORG_ID,
+      containerId: 'container-1',
+      overrideName: 'john.doe',
+      workingHours: true,
+      startDateTime: '2030-01-01T08:00',
+      endDateTime: '2030-01-01T17:00',
+      startDateTimeUtc: '2030-01-01T08:00:00.000Z',
+      endDateTimeUtc: '2030-01-01T17:00:00.000Z',
+      timezone: 'UTC',
+      changeType: 'update' as const,
+      actor: 'alice',
+      createdAt: '2030-01-01T07:00:00.000Z',
+      ...overrides
+    });
+
+    it('should number versions per override and list them newest first', async () => {
+      const first = await dbService.insertOverrideVersion(version({ changeType: 'initial' }));
+      await dbService.insertOverrideVersion(version({ overrideName: 'jane.smith' }));
+      await dbService.insertOverrideVersion(version({ organizationId: 'org-2' }));
+      const restored = await dbService.insertOverrideVersion(version({
+        changeType: 'restore',
+        restoredFrom: 1,
+        containerVersion: 4
+      }));
+
+      expect(first.version).toBe(1);
+      expect(restored).toEqual(expect.objectContaining({ version: 2, restoredFrom: 1, containerVersion: 4, workingHours: true }));
+
+      const versions = await dbService.getOverrideVersions(ORG_ID, 'container-1', 'john.doe');
+      expect(versions.map(v => [v.version, v.changeType])).toEqual([[2, 'restore'], [1, 'initial']]);
+      expect(versions[1].restoredFrom).toBeUndefined();
+
+      expect(await dbService.getOverrideVersion(ORG_ID, 'container-1', 'john.doe', 1)).toEqual(first);
+      expect(await dbService.getOverrideVersion(ORG_ID, 'container-1', 'john.doe', 3)).toBeNull();
+      expect(await dbService.getOverrideVersion('org-2', 'container-1', 'john.doe', 2)).toBeNull();
+    });
+  });
+
+  describe('Container Permission Operations', () => {
+    it('should replace the permissions of a container and leave other containers alone', async () => {
+      await dbService.replaceContainerPermissions(ORG_ID, 'container-1', [
+        { principalType: 'group', principal: 'sales', access: 'write' },
+        { principalType: 'user', principal: 'bob', access: 'read' }
+      ]);
+      await dbService.replaceContainerPermissions(ORG_ID, 'container-2', [
+        { principalType: 'group', principal: 'support', access: 'write' }
+      ]);
+
+      const replaced = await dbService.replaceContainerPermissions(ORG_ID, 'container-1', [
+        { principalType: 'user', principal: 'bob', access: 'write' }
+      ]);
+
+      expect(replaced).toEqual([expect.objectContaining({ containerId: 'container-1', principal: 'bob', access: 'write' })]);
+      expect(await dbService.getContainerPermissions(ORG_ID)).toHaveLength(2);
+      expect(await dbService.getContainerPermissions('org-2')).toEqual([]);
+    });
+
+    it('should delete the permissions of a container', async () => {
+      await dbService.replaceContainerPermissions(ORG_ID, 'container-1', [
+        { principalType: 'group', principal: 'sales', access: 'read' }
+      ]);
+
+      expect(await dbService.deleteContainerPermissions(ORG_ID, 'container-1')).toBe(true);
+      expect(await dbService.deleteContainerPermissions(ORG_ID, 'container-1')).toBe(false);
+      expect(await dbService.getContainerPermissions(ORG_ID, 'container-1')).toEqual([]);
+    });
+  });
+});
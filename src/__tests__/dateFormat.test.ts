@@ -1,4 +1,12 @@
-import { toWxccFormat, safeToWxccFormat, convertObjectDatesToWxcc, isWxccFormat } from '../utils/dateFormat';
+import {
+  toWxccFormat,
+  safeToWxccFormat,
+  convertObjectDatesToWxcc,
+  isWxccFormat,
+  isValidTimezone,
+  parseInTimezone,
+  wxccToUtcIso
+} from '../utils/dateFormat';
 
 describe('Date Formatting Utilities', () => {
   describe('toWxccFormat', () => {
@@ -40,6 +48,27 @@ describe('Date Formatting Utilities', () => {
     });
   });
 
+  describe('container timezones', () => {
+    it('should format instants as wall-clock time in the container timezone', () => {
+      expect(toWxccFormat('2024-07-15T08:30:00Z', 'Europe/London')).toBe('2024-07-15T09:30');
+      expect(toWxccFormat('2024-01-15T08:30:00Z', 'Europe/London')).toBe('2024-01-15T08:30');
+      expect(toWxccFormat('2024-01-15T14:30:00Z', 'America/New_York')).toBe('2024-01-15T09:30');
+    });
+
+    it('should read dates without an offset as wall-clock time in the container timezone', () => {
+      expect(parseInTimezone('2024-07-15T09:30', 'Europe/London').toISOString()).toBe('2024-07-15T08:30:00.000Z');
+      expect(parseInTimezone('2024-07-15T09:30:00Z', 'Europe/London').toISOString()).toBe('2024-07-15T09:30:00.000Z');
+      expect(toWxccFormat('2024-07-15T09:30', 'Europe/London')).toBe('2024-07-15T09:30');
+    });
+
+    it('should convert WxCC dates to UTC instants', () => {
+      expect(wxccToUtcIso('2024-03-31T00:30', 'Europe/London')).toBe('2024-03-31T00:30:00.000Z');
+      expect(wxccToUtcIso('2024-03-31T02:30', 'Europe/London')).toBe('2024-03-31T01:30:00.000Z');
+      expect(wxccToUtcIso('2024-01-15T09:30', 'Asia/Kolkata')).toBe('2024-01-15T04:00:00.000Z');
+      expect(() => wxccToUtcIso('invalid-date', 'UTC')).toThrow('Invalid date input');
+    });
+  });
+
   describe('safeToWxccFormat', () => {
     it('should convert valid dates safely', () => {
       const isoString = '2024-01-15T09:30:45.123Z';
@@ -126,4 +155,16 @@ describe('Date Formatting Utilities', () => {
       expect(isWxccFormat(wxccData.endDateTime)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('isValidTimezone', () => {
+    it('should accept IANA timezone names', () => {
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Europe/London')).toBe(true);
+    });
+
+    it('should reject unknown or empty timezone names', () => {
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+      expect(isValidTimezone('')).toBe(false);
+    });
+  });
+});
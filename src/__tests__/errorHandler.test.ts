@@ -0,0 +1,86 @@
+/**
+ * Error Handler Tests
+ *
+ * Domain errors reported as RFC 7807 problem responses
+ */
+
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { errorHandler } from '../middleware';
+import {
+  AuthenticationError,
+  NotFoundError,
+  ScheduleValidationFailedError,
+  UpstreamError,
+  VersionConflictError
+} from '../utils/errors';
+
+describe('errorHandler', () => {
+  const req = { method: 'PUT', originalUrl: '/api/overrides/containers/container1/agents/alice' } as Request;
+
+  const handle = (error: Error) => {
+    const res = {
+      headers: {} as Record<string, string>,
+      statusCode: 200,
+      contentType: '',
+      body: undefined as any,
+      set(name: string, value: string) { this.headers[name] = value; return this; },
+      status(code: number) { this.statusCode = code; return this; },
+      type(type: string) { this.contentType = type; return this; },
+      json(body: unknown) { this.body = body; return this; }
+    };
+    errorHandler(error, req, res as unknown as Response, jest.fn());
+    return res;
+  };
+
+  it('should report domain errors with their status, problem type and details', () => {
+    const errors = [{ field: 'startDateTime', message: 'Schedule conflicts with agent bob' }];
+    const res = handle(new ScheduleValidationFailedError(errors));
+
+    expect(res.statusCode).toBe(400);
+    expect(res.contentType).toBe('application/problem+json');
+    expect(res.body).toEqual({
+      type: 'urn:wxcc-overrides:problem:validation-error',
+      title: 'Validation error',
+      status: 400,
+      detail: 'Validation failed: Schedule conflicts with agent bob',
+      instance: '/api/overrides/containers/container1/agents/alice',
+      errors,
+      success: false,
+      error: 'Validation error',
+      message: 'Validation failed: Schedule conflicts with agent bob'
+    });
+  });
+
+  it('should choose the status by error class, not by message', () => {
+    expect(handle(new UpstreamError('Failed to fetch container container1: Agent not found upstream', 500)).statusCode).toBe(502);
+    expect(handle(new NotFoundError('Recurring schedule 9 not found')).statusCode).toBe(404);
+    expect(handle(new Error('Validation failed somewhere unexpected')).statusCode).toBe(500);
+  });
+
+  it('should send the headers a client needs to recover', () => {
+    const conflict = handle(new VersionConflictError('container1', 3, 4, []));
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.headers.ETag).toBe('"4"');
+    expect(conflict.body).toEqual(expect.objectContaining({ expectedVersion: 3, currentVersion: 4, conflicts: [] }));
+
+    expect(handle(new AuthenticationError('Invalid API key')).headers['WWW-Authenticate']).toBe('Bearer');
+  });
+
+  it('should hide the message of unexpected errors outside development', () => {
+    const res = handle(new Error('SQLITE_BUSY: database is locked'));
+
+    expect(res.body).toEqual(expect.objectContaining({ status: 500, title: 'Internal server error', detail: 'Something went wrong' }));
+  });
+
+  it('should show the message of unexpected errors in development, the default environment', () => {
+    const nodeEnv = config.nodeEnv;
+    config.nodeEnv = 'development';
+
+    try {
+      expect(handle(new Error('SQLITE_BUSY: database is locked')).body.detail).toBe('SQLITE_BUSY: database is locked');
+    } finally {
+      config.nodeEnv = nodeEnv;
+    }
+  });
+});
@@ -7,6 +7,8 @@
 import { databaseService } from '../services/databaseService';
 import { overrideService } from '../services/overrideService';
 import { mappingService } from '../services/mappingService';
+import { config } from '../config';
+import { runWithContext } from '../utils/requestContext';
 import { 
   OverrideContainer,
   Agent,
@@ -64,6 +66,7 @@ describe('MappingService', () => {
       const mockMappings = [
         {
           id: 1,
+          organizationId: config.wxcc.organizationId,
           overrideName: 'Day for me',
           agentName: 'John Smith',
           workingHoursActive: false,
@@ -72,11 +75,11 @@ describe('MappingService', () => {
         }
       ];
 
-      mockOverrideService.getAllContainersWithAgents.mockResolvedValue(mockContainers);
+      mockOverrideService.loadAllContainers.mockResolvedValue({ data: mockContainers, cache: 'miss', failures: [] });
       mockDatabaseService.getAllMappings.mockResolvedValue(mockMappings);
       mockDatabaseService.cleanupOrphanedMappings.mockResolvedValue(0);
 
-      const result = await mappingService.getAllMappings();
+      const { data: result } = await mappingService.getAllMappings();
 
       expect(result).toHaveLength(2); // Both WxCC agents should be included
       
@@ -93,17 +96,44 @@ describe('MappingService', () => {
       expect(unmappedAgent!.agentName).toBeNull();
       expect(unmappedAgent!.isMapped).toBe(false);
 
-      expect(mockDatabaseService.cleanupOrphanedMappings).toHaveBeenCalledWith(['Day for me', 'Fire Drill']);
+      expect(mockDatabaseService.cleanupOrphanedMappings).toHaveBeenCalledWith(config.wxcc.organizationId, ['Day for me', 'Fire Drill']);
     });
 
     it('should handle empty WxCC data', async () => {
-      mockOverrideService.getAllContainersWithAgents.mockResolvedValue([]);
+      mockOverrideService.loadAllContainers.mockResolvedValue({ data: [], cache: 'miss', failures: [] });
       mockDatabaseService.getAllMappings.mockResolvedValue([]);
 
-      const result = await mappingService.getAllMappings();
+      const { data: result } = await mappingService.getAllMappings();
 
       expect(result).toHaveLength(0);
     });
+
+    it('should keep the mappings of a container that failed to load and report it', async () => {
+      const loaded: OverrideContainer = {
+        id: 'container-1',
+        name: 'Loaded',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        agents: [{
+          agentId: 'Day for me',
+          containerId: 'container-1',
+          containerName: 'Loaded',
+          workingHours: false,
+          startDateTime: '2024-01-01T08:00:00Z',
+          endDateTime: '2024-01-01T17:00:00Z',
+          status: AgentStatus.SCHEDULED
+        }]
+      };
+      const failures = [{ containerId: 'container-2', error: 'Request timed out' }];
+      mockOverrideService.loadAllContainers.mockResolvedValue({ data: [loaded], cache: 'miss', failures });
+      mockDatabaseService.getAllMappings.mockResolvedValue([]);
+
+      const result = await mappingService.getAllMappings();
+
+      expect(result.data.map(mapping => mapping.overrideName)).toEqual(['Day for me']);
+      expect(result.failures).toEqual(failures);
+      expect(mockDatabaseService.cleanupOrphanedMappings).not.toHaveBeenCalled();
+    });
   });
 
   describe('createOrUpdateMapping', () => {
@@ -137,6 +167,7 @@ describe('MappingService', () => {
 
       const mockMapping = {
         id: 1,
+        organizationId: config.wxcc.organizationId,
         overrideName: 'Test Override',
         agentName: 'Test Agent',
         workingHoursActive: false,
@@ -153,7 +184,7 @@ describe('MappingService', () => {
       expect(result.agentName).toBe('Test Agent');
       expect(result.isMapped).toBe(true);
       expect(result.containerId).toBe('container-1');
-      expect(mockDatabaseService.upsertMapping).toHaveBeenCalledWith(request);
+      expect(mockDatabaseService.upsertMapping).toHaveBeenCalledWith(config.wxcc.organizationId, request);
     });
 
     it('should throw error for non-existent override', async () => {
@@ -171,6 +202,44 @@ describe('MappingService', () => {
   });
 
   describe('updateWorkingHours', () => {
+    const wxccAgent: Agent = {
+      agentId: 'Test Override',
+      containerId: 'container-1',
+      containerName: 'Test Container',
+      workingHours: true,
+      startDateTime: '2024-01-01T08:00',
+      endDateTime: '2024-01-01T17:00',
+      status: AgentStatus.ACTIVE
+    };
+
+    const wxccContainers: OverrideContainer[] = [
+      {
+        id: 'container-1',
+        name: 'Test Container',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        agents: [wxccAgent]
+      }
+    ];
+
+    const mapping = {
+      id: 1,
+      organizationId: config.wxcc.organizationId,
+      overrideName: 'Test Override',
+      agentName: 'Test Agent',
+      workingHoursActive: true,
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z'
+    };
+
+    beforeEach(() => {
+      mockOverrideService.getAllContainersWithAgents.mockResolvedValue(wxccContainers);
+      mockOverrideService.setAgentWorkingHours.mockImplementation(async (_containerId, _agentId, workingHours) => ({
+        ...wxccAgent,
+        workingHours
+      }));
+    });
+
     it('should disable working hours without validation', async () => {
       const request: WorkingHoursToggleRequest = {
         overrideName: 'Test Override',
@@ -179,6 +248,7 @@ describe('MappingService', () => {
 
       const mockMapping = {
         id: 1,
+        organizationId: config.wxcc.organizationId,
         overrideName: 'Test Override',
         agentName: 'Test Agent',
         workingHoursActive: true,
@@ -190,7 +260,6 @@ describe('MappingService', () => {
 
       mockDatabaseService.getMapping.mockResolvedValue(mockMapping);
       mockDatabaseService.updateWorkingHours.mockResolvedValue(mockUpdatedMapping);
-      mockOverrideService.getAllContainersWithAgents.mockResolvedValue([]);
 
       const result = await mappingService.updateWorkingHours(request);
 
@@ -199,6 +268,123 @@ describe('MappingService', () => {
       expect(mockOverrideService.getContainerById).not.toHaveBeenCalled();
     });
 
+    it('should audit the toggle for the actor of the request', async () => {
+      const mockMapping = {
+        id: 1,
+        organizationId: 'org-2',
+        overrideName: 'Test Override',
+        agentName: 'Test Agent',
+        workingHoursActive: true,
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z'
+      };
+      const organization = { id: 'org-2', name: 'Acme', baseUrl: 'https://api.wxcc-us1.cisco.com', timezone: 'UTC' };
+
+      mockDatabaseService.getMapping.mockResolvedValue(mockMapping);
+      mockDatabaseService.updateWorkingHours.mockResolvedValue({ ...mockMapping, workingHoursActive: false });
+      mockDatabaseService.getContainerPermissions.mockResolvedValue([]);
+
+      const identity = { subject: 'alice', role: 'scheduler' as const, groups: [], method: 'api_key' as const };
+
+      await runWithContext({ organization, identity }, () => mappingService.updateWorkingHours({
+        overrideName: 'Test Override',
+        workingHoursActive: false
+      }));
+
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        organizationId: 'org-2',
+        actor: 'alice',
+        action: 'update_working_hours',
+        entityType: 'mapping',
+        overrideName: 'Test Override',
+        before: { agentName: 'Test Agent', workingHoursActive: true },
+        after: { agentName: 'Test Agent', workingHoursActive: false },
+        outcome: 'success'
+      }));
+    });
+
+    it('should switch the override in WxCC before storing the flag', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockDatabaseService.updateWorkingHours.mockResolvedValue({ ...mapping, workingHoursActive: false });
+
+      const result = await mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false });
+
+      expect(result.workingHoursActive).toBe(false);
+      expect(mockOverrideService.setAgentWorkingHours).toHaveBeenCalledWith('container-1', 'Test Override', false);
+      expect(mockOverrideService.setAgentWorkingHours.mock.invocationCallOrder[0])
+        .toBeLessThan(mockDatabaseService.updateWorkingHours.mock.invocationCallOrder[0]);
+    });
+
+    it('should leave the flag unchanged when WxCC rejects the update', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockOverrideService.setAgentWorkingHours.mockRejectedValue(new Error('WxCC API Error'));
+
+      await expect(mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false }))
+        .rejects
+        .toThrow('WxCC API Error');
+
+      expect(mockDatabaseService.updateWorkingHours).not.toHaveBeenCalled();
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'update_working_hours',
+        containerId: 'container-1',
+        outcome: 'failure',
+        error: 'WxCC API Error'
+      }));
+    });
+
+    it('should switch WxCC back when the flag cannot be stored', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockDatabaseService.updateWorkingHours.mockRejectedValue(new Error('SQLITE_BUSY: database is locked'));
+
+      await expect(mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false }))
+        .rejects
+        .toThrow('SQLITE_BUSY: database is locked');
+
+      expect(mockOverrideService.setAgentWorkingHours.mock.calls).toEqual([['container-1', 'Test Override', false]]);
+      expect(mockOverrideService.revertAgentWorkingHours).toHaveBeenCalledWith('container-1', 'Test Override', true);
+    });
+
+    it('should switch WxCC back without the checks a reverse toggle would face', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockDatabaseService.updateWorkingHours.mockRejectedValue(new Error('SQLITE_BUSY: database is locked'));
+      // Another scheduler has since changed the container, so the coverage rules refuse switching back on
+      mockOverrideService.setAgentWorkingHours.mockImplementation(async (_containerId, _agentId, workingHours) => {
+        if (workingHours) throw new Error('Validation failed: 3 agents would be working at once (maximum 2)');
+        return { ...wxccAgent, workingHours };
+      });
+
+      await expect(mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false }))
+        .rejects
+        .toThrow('SQLITE_BUSY: database is locked');
+
+      expect(mockOverrideService.setAgentWorkingHours).toHaveBeenCalledTimes(1);
+      expect(mockOverrideService.revertAgentWorkingHours).toHaveBeenCalledWith('container-1', 'Test Override', true);
+    });
+
+    it('should report the original failure when switching WxCC back fails too', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockDatabaseService.updateWorkingHours.mockResolvedValue(null);
+      mockOverrideService.revertAgentWorkingHours.mockRejectedValueOnce(new Error('WxCC API Error'));
+
+      await expect(mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false }))
+        .rejects
+        .toThrow('Failed to update working hours status in database');
+
+      expect(mockOverrideService.revertAgentWorkingHours).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not toggle an override missing from WxCC', async () => {
+      mockDatabaseService.getMapping.mockResolvedValue(mapping);
+      mockOverrideService.getAllContainersWithAgents.mockResolvedValue([]);
+
+      await expect(mappingService.updateWorkingHours({ overrideName: 'Test Override', workingHoursActive: false }))
+        .rejects
+        .toThrow("Override name 'Test Override' not found in WxCC");
+
+      expect(mockOverrideService.setAgentWorkingHours).not.toHaveBeenCalled();
+      expect(mockDatabaseService.updateWorkingHours).not.toHaveBeenCalled();
+    });
+
     it('should throw error for non-existent mapping', async () => {
       const request: WorkingHoursToggleRequest = {
         overrideName: 'Non-existent',
@@ -215,7 +401,7 @@ describe('MappingService', () => {
 
   describe('Error Handling', () => {
     it('should handle database errors gracefully', async () => {
-      mockOverrideService.getAllContainersWithAgents.mockRejectedValue(new Error('WxCC API Error'));
+      mockOverrideService.loadAllContainers.mockRejectedValue(new Error('WxCC API Error'));
 
       await expect(mappingService.getAllMappings())
         .rejects
@@ -0,0 +1,159 @@
+/**
+ * Migrator Tests
+ *
+ * Numbered schema migrations applied and reverted in transactions
+ */
+
+import path from 'path';
+import fs from 'fs';
+import { AsyncDatabase } from '../utils/asyncDatabase';
+import { Migration, Migrator } from '../utils/migrator';
+import { migrations } from '../migrations';
+import { config } from '../config';
+
+describe('Migrator', () => {
+  const testDbPath = path.join(__dirname, 'test_migrations.db');
+  let db: AsyncDatabase;
+
+  const createTeams: Migration = {
+    version: 1,
+    name: 'create_teams',
+    up: db => db.exec('CREATE TABLE teams (id INTEGER PRIMARY KEY, name TEXT NOT NULL)'),
+    down: db => db.exec('DROP TABLE teams')
+  };
+
+  const addTeamSite: Migration = {
+    version: 2,
+    name: 'add_team_site',
+    up: db => db.exec("ALTER TABLE teams ADD COLUMN site TEXT NOT NULL DEFAULT 'HQ'"),
+    down: db => db.exec('ALTER TABLE teams DROP COLUMN site')
+  };
+
+  const columns = async (table: string) =>
+    (await db.all<{ name: string }>(`PRAGMA table_info(${table})`)).map(column => column.name);
+
+  beforeEach(async () => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+    db = await AsyncDatabase.create(testDbPath);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should apply pending migrations in version order, once', async () => {
+    const migrator = new Migrator(db, [addTeamSite, createTeams]);
+
+    expect((await migrator.up()).map(m => m.version)).toEqual([1, 2]);
+    expect(await columns('teams')).toEqual(['id', 'name', 'site']);
+    expect(await migrator.up()).toEqual([]);
+
+    expect(await migrator.status()).toEqual([
+      { version: 1, name: 'create_teams', applied: true, appliedAt: expect.any(String) },
+      { version: 2, name: 'add_team_site', applied: true, appliedAt: expect.any(String) }
+    ]);
+  });
+
+  it('should roll back a failing migration and leave earlier ones applied', async () => {
+    const broken: Migration = {
+      version: 3,
+      name: 'broken',
+      up: async db => {
+        await db.exec('CREATE TABLE sites (id INTEGER PRIMARY KEY)');
+        await db.exec('ALTER TABLE missing ADD COLUMN x TEXT');
+      },
+      down: async () => undefined
+    };
+    const migrator = new Migrator(db, [createTeams, addTeamSite, broken]);
+
+    await expect(migrator.up()).rejects.toThrow('no such table: missing');
+
+    expect((await migrator.status()).map(m => m.applied)).toEqual([true, true, false]);
+    expect(await columns('sites')).toEqual([]);
+  });
+
+  it('should migrate up to and down to a version', async () => {
+    const migrator = new Migrator(db, [createTeams, addTeamSite]);
+
+    expect((await migrator.up(1)).map(m => m.version)).toEqual([1]);
+    expect(await columns('teams')).toEqual(['id', 'name']);
+
+    await migrator.up();
+    expect((await migrator.down()).map(m => m.version)).toEqual([2]);
+    expect(await columns('teams')).toEqual(['id', 'name']);
+
+    await migrator.up();
+    expect((await migrator.down(0)).map(m => m.version)).toEqual([2, 1]);
+    expect(await columns('teams')).toEqual([]);
+    expect((await migrator.status()).every(m => !m.applied)).toBe(true);
+  });
+
+  it('should refuse a database migrated by a newer build', async () => {
+    await new Migrator(db, [createTeams, addTeamSite]).up();
+
+    await expect(new Migrator(db, [createTeams]).up())
+      .rejects.toThrow('Database has migrations this build does not know (2)');
+  });
+
+  it('should create and drop the application schema', async () => {
+    const migrator = new Migrator(db, migrations);
+    const tables = async () =>
+      (await db.all<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"))
+        .map(table => table.name);
+
+    await migrator.up();
+    expect(await tables()).toEqual(expect.arrayContaining(['wxcc_agent_mappings', 'audit_log', 'wxcc_container_permissions']));
+
+    await migrator.down(0);
+    expect(await tables()).toEqual(['schema_migrations']);
+  });
+
+  it('should only assign mappings that predate organizations to a configured organization', async () => {
+    const organizationId = config.wxcc.organizationId;
+    await db.exec(`
+      CREATE TABLE wxcc_agent_mappings (id INTEGER PRIMARY KEY, override_name TEXT UNIQUE, agent_name TEXT,
+        working_hours_active INTEGER DEFAULT 0, created_at DATETIME, updated_at DATETIME);
+      INSERT INTO wxcc_agent_mappings (override_name, agent_name) VALUES ('Day for me', 'John Smith');
+    `);
+
+    try {
+      config.wxcc.organizationId = '';
+      await expect(new Migrator(db, migrations).up())
+        .rejects.toThrow('WXCC_ORG_ID must be set to assign the 1 existing rows of wxcc_agent_mappings');
+
+      config.wxcc.organizationId = 'org-1';
+      await new Migrator(db, migrations).up();
+      expect(await db.all('SELECT organization_id as organizationId, override_name as overrideName FROM wxcc_agent_mappings'))
+        .toEqual([{ organizationId: 'org-1', overrideName: 'Day for me' }]);
+    } finally {
+      config.wxcc.organizationId = organizationId;
+    }
+  });
+
+  it('should assign recurring schedules and coverage rules to the configured organization', async () => {
+    const organizationId = config.wxcc.organizationId;
+    await new Migrator(db, migrations).up(1);
+    await db.exec(`
+      INSERT INTO wxcc_recurring_schedules (container_id, override_name, days_of_week, start_time, end_time)
+      VALUES ('container-1', 'alice on-call', '2', '18:00', '22:00');
+      INSERT INTO wxcc_coverage_rules (container_id, max_concurrent) VALUES ('container-1', 2);
+    `);
+
+    try {
+      config.wxcc.organizationId = 'org-1';
+      await new Migrator(db, migrations).up();
+
+      expect(await db.all('SELECT organization_id as organizationId, container_id as containerId FROM wxcc_recurring_schedules'))
+        .toEqual([{ organizationId: 'org-1', containerId: 'container-1' }]);
+      expect(await db.all('SELECT organization_id as organizationId, max_concurrent as maxConcurrent FROM wxcc_coverage_rules'))
+        .toEqual([{ organizationId: 'org-1', maxConcurrent: 2 }]);
+    } finally {
+      config.wxcc.organizationId = organizationId;
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Organization Service Tests
+ * 
+ * Tests for organization registration and resolution of org-scoped requests
+ */
+
+import { config } from '../config';
+import { databaseService } from '../services/databaseService';
+import { overrideService } from '../services/overrideService';
+import { tokenService } from '../services/tokenService';
+import { OrganizationService } from '../services/organizationService';
+import { Organization } from '../types';
+
+jest.mock('../services/databaseService');
+jest.mock('../services/overrideService');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+const mockOverrideService = overrideService as jest.Mocked<typeof overrideService>;
+
+describe('OrganizationService', () => {
+  const originalOrgId = config.wxcc.organizationId;
+
+  const acme: Organization = {
+    id: 'org-2',
+    name: 'Acme',
+    baseUrl: 'https://api.wxcc-us1.cisco.com',
+    timezone: 'America/New_York',
+    refreshToken: 'acme-refresh',
+    clientId: 'acme-client',
+    clientSecret: 'acme-secret',
+    createdAt: '2024-01-01 00:00:00',
+    updatedAt: '2024-01-01 00:00:00'
+  };
+
+  let organizationService: OrganizationService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.wxcc.organizationId = 'env-org';
+    mockDatabaseService.getOrganization.mockResolvedValue(null);
+    organizationService = new OrganizationService();
+  });
+
+  afterEach(() => {
+    config.wxcc.organizationId = originalOrgId;
+  });
+
+  describe('resolveOrganization', () => {
+    it('should prefer registered organizations and fall back to the environment organization', async () => {
+      mockDatabaseService.getOrganization.mockImplementation(async id => (id === 'org-2' ? acme : null));
+
+      expect(await organizationService.resolveOrganization('org-2')).toBe(acme);
+      expect(await organizationService.resolveOrganization('env-org')).toEqual(expect.objectContaining({
+        id: 'env-org',
+        baseUrl: config.wxcc.baseUrl
+      }));
+      expect(await organizationService.resolveOrganization('unknown')).toBeNull();
+    });
+  });
+
+  describe('createOrganization', () => {
+    it('should register an organization without returning its credentials', async () => {
+      mockDatabaseService.createOrganization.mockResolvedValue(acme);
+
+      const created = await organizationService.createOrganization({
+        id: 'org-2',
+        name: 'Acme',
+        baseUrl: 'https://api.wxcc-us1.cisco.com',
+        refreshToken: 'acme-refresh',
+        clientId: 'acme-client',
+        clientSecret: 'acme-secret'
+      });
+
+      expect(mockDatabaseService.createOrganization).toHaveBeenCalledWith(expect.objectContaining({ timezone: 'UTC' }));
+      expect(created).toEqual(expect.objectContaining({
+        id: 'org-2',
+        hasRefreshToken: true,
+        hasClientCredentials: true,
+        source: 'database'
+      }));
+      expect(JSON.stringify(created)).not.toContain('acme-secret');
+    });
+
+    it('should reject duplicate ids and missing credentials', async () => {
+      mockDatabaseService.getOrganization.mockResolvedValueOnce(acme);
+      await expect(organizationService.createOrganization({ ...acme })).rejects.toThrow('already exists');
+
+      await expect(organizationService.createOrganization({
+        id: 'org-3',
+        name: 'No credentials',
+        baseUrl: 'https://api.wxcc-us1.cisco.com',
+        refreshToken: 'refresh-only'
+      })).rejects.toThrow('Validation failed: clientId and clientSecret are required');
+      expect(mockDatabaseService.createOrganization).not.toHaveBeenCalled();
+    });
+
+    it('should not require credentials when WxCC calls go to the simulator', async () => {
+      const originalBackend = config.wxcc.backend;
+      config.wxcc.backend = 'simulator';
+      mockDatabaseService.createOrganization.mockResolvedValue({ ...acme, refreshToken: undefined });
+
+      try {
+        await organizationService.createOrganization({ id: 'org-2', name: 'Acme', baseUrl: acme.baseUrl });
+        expect(mockDatabaseService.createOrganization).toHaveBeenCalled();
+      } finally {
+        config.wxcc.backend = originalBackend;
+      }
+    });
+  });
+
+  describe('updateOrganization', () => {
+    it('should drop tokens and cached data when the connection settings change', async () => {
+      const reset = jest.spyOn(tokenService, 'reset');
+      mockDatabaseService.getOrganization.mockResolvedValue(acme);
+      mockDatabaseService.updateOrganization.mockResolvedValue({ ...acme, refreshToken: 'new-refresh' });
+
+      await organizationService.updateOrganization('org-2', { refreshToken: 'new-refresh' });
+
+      expect(mockDatabaseService.deleteOAuthTokens).toHaveBeenCalledWith('org-2');
+      expect(reset).toHaveBeenCalledWith('org-2');
+      expect(mockOverrideService.clearCache).toHaveBeenCalled();
+
+      reset.mockClear();
+      await organizationService.updateOrganization('org-2', { name: 'Acme Corp' });
+      expect(reset).not.toHaveBeenCalled();
+
+      reset.mockRestore();
+    });
+
+    it('should not leave an organization without usable credentials', async () => {
+      mockDatabaseService.getOrganization.mockResolvedValue(acme);
+
+      await expect(organizationService.updateOrganization('org-2', { clientSecret: '' }))
+        .rejects.toThrow('Validation failed');
+      expect(mockDatabaseService.updateOrganization).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,15 +1,31 @@
 import { OverrideService } from '../services/overrideService';
-import { Agent, AgentStatus, UpdateAgentRequest } from '../types';
+import { wxccApiClient } from '../services/wxccApiClient';
+import { databaseService } from '../services/databaseService';
+import { config } from '../config';
+import { ScheduleValidationFailedError } from '../utils/errors';
+import { runWithContext } from '../utils/requestContext';
+import { Agent, AgentStatus, CoverageRules, UpdateAgentRequest, WxccOverride, WxccOverrideContainer } from '../types';
 
 // Mock the WxCC API client
 jest.mock('../services/wxccApiClient', () => ({
   wxccApiClient: {
     listOverrideContainers: jest.fn(),
     getOverrideContainerById: jest.fn(),
-    updateOverride: jest.fn()
+    updateOverride: jest.fn(),
+    updateOverrides: jest.fn(),
+    createOverride: jest.fn(),
+    deleteOverride: jest.fn(),
+    createOverrideContainer: jest.fn(),
+    updateOverrideContainer: jest.fn(),
+    deleteOverrideContainer: jest.fn()
   }
 }));
 
+jest.mock('../services/databaseService');
+
+const mockWxccApiClient = wxccApiClient as jest.Mocked<typeof wxccApiClient>;
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
 describe('OverrideService', () => {
   let overrideService: OverrideService;
 
@@ -39,10 +55,18 @@ describe('OverrideService', () => {
       };
 
       // Use reflection to access private method for testing
-      const findScheduleConflict = (overrideService as any).findScheduleConflict.bind(overrideService);
-      const conflict = findScheduleConflict(existingAgents, 'agent2', updateData);
+      const findScheduleConflicts = (overrideService as any).findScheduleConflicts.bind(overrideService);
+      const conflicts = findScheduleConflicts(existingAgents, 'agent2', updateData);
 
-      expect(conflict).toBe(existingAgents[0]);
+      expect(conflicts).toEqual([{
+        field: 'schedule',
+        message: 'Schedule conflicts with agent agent1',
+        agentId: 'agent2',
+        conflictingAgentId: 'agent1',
+        overlapStart: '2024-01-01T12:00:00.000Z',
+        overlapEnd: '2024-01-01T16:00:00.000Z',
+        overlapMinutes: 240
+      }]);
     });
 
     test('should allow non-overlapping schedules', async () => {
@@ -64,10 +88,10 @@ describe('OverrideService', () => {
         endDateTime: '2024-01-01T17:00:00Z'
       };
 
-      const findScheduleConflict = (overrideService as any).findScheduleConflict.bind(overrideService);
-      const conflict = findScheduleConflict(existingAgents, 'agent2', updateData);
+      const findScheduleConflicts = (overrideService as any).findScheduleConflicts.bind(overrideService);
+      const conflicts = findScheduleConflicts(existingAgents, 'agent2', updateData);
 
-      expect(conflict).toBe(null);
+      expect(conflicts).toEqual([]);
     });
 
     test('should allow overlapping schedules when workingHours is false', async () => {
@@ -89,10 +113,185 @@ describe('OverrideService', () => {
         endDateTime: '2024-01-01T20:00:00Z'
       };
 
-      const findScheduleConflict = (overrideService as any).findScheduleConflict.bind(overrideService);
-      const conflict = findScheduleConflict(existingAgents, 'agent2', updateData);
+      const findScheduleConflicts = (overrideService as any).findScheduleConflicts.bind(overrideService);
+      const conflicts = findScheduleConflicts(existingAgents, 'agent2', updateData);
+
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  describe('Multiple Schedule Conflicts', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      version: 1,
+      name: 'Rota',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T10:00' },
+        { name: 'bob', workingHours: true, startDateTime: '2030-01-01T11:30', endDateTime: '2030-01-01T15:00' },
+        { name: 'carol', workingHours: false, startDateTime: '2030-01-01T09:00', endDateTime: '2030-01-01T12:00' }
+      ]
+    };
+
+    beforeEach(() => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+    });
+
+    test('should reject an update with every overlapping schedule and its overlap window', async () => {
+      const update = overrideService.updateAgentSchedule('container1', 'dave', {
+        workingHours: true,
+        startDateTime: '2030-01-01T09:00:00Z',
+        endDateTime: '2030-01-01T12:00:00Z'
+      });
+
+      await expect(update).rejects.toBeInstanceOf(ScheduleValidationFailedError);
+      const error: ScheduleValidationFailedError = await update.catch(e => e);
+
+      expect(error.message).toBe('Validation failed: Schedule conflicts with agent alice, Schedule conflicts with agent bob');
+      expect(error.errors.map(e => [e.conflictingAgentId, e.overlapStart, e.overlapEnd, e.overlapMinutes])).toEqual([
+        ['alice', '2030-01-01T09:00:00.000Z', '2030-01-01T10:00:00.000Z', 60],
+        ['bob', '2030-01-01T11:30:00.000Z', '2030-01-01T12:00:00.000Z', 30]
+      ]);
+      expect(mockWxccApiClient.updateOverride).not.toHaveBeenCalled();
+    });
+
+    test('should audit schedule changes and rejected attempts with the state before them', async () => {
+      mockWxccApiClient.updateOverride.mockResolvedValue({
+        name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T09:00'
+      });
 
-      expect(conflict).toBe(null);
+      await overrideService.updateAgentSchedule('container1', 'alice', {
+        workingHours: true,
+        startDateTime: '2030-01-01T08:00:00Z',
+        endDateTime: '2030-01-01T09:00:00Z'
+      });
+      await overrideService.updateAgentSchedule('container1', 'dave', {
+        workingHours: true,
+        startDateTime: '2030-01-01T09:00:00Z',
+        endDateTime: '2030-01-01T12:00:00Z'
+      }).catch(() => undefined);
+
+      const [[changed], [rejected]] = mockDatabaseService.insertAuditEntry.mock.calls;
+      expect(changed).toEqual(expect.objectContaining({
+        action: 'update_agent_schedule',
+        actor: 'anonymous',
+        overrideName: 'alice',
+        containerId: 'container1',
+        before: expect.objectContaining({ endDateTime: '2030-01-01T10:00' }),
+        after: expect.objectContaining({ endDateTime: '2030-01-01T09:00' }),
+        outcome: 'success'
+      }));
+      expect(rejected).toEqual(expect.objectContaining({
+        overrideName: 'dave',
+        before: null,
+        after: expect.objectContaining({ startDateTime: '2030-01-01T09:00:00Z' }),
+        outcome: 'failure',
+        error: expect.stringContaining('Validation failed')
+      }));
+    });
+  });
+
+  describe('Schedule Version History', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      version: 3,
+      name: 'Rota',
+      timezone: 'UTC',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T09:00' },
+        { name: 'bob', workingHours: true, startDateTime: '2030-01-01T09:30', endDateTime: '2030-01-01T15:00' }
+      ]
+    };
+
+    const storedVersion = (endDateTime: string) => ({
+      id: 7,
+      organizationId: config.wxcc.organizationId,
+      containerId: 'container1',
+      overrideName: 'alice',
+      version: 1,
+      workingHours: true,
+      startDateTime: '2030-01-01T08:00',
+      endDateTime: endDateTime.slice(0, 16),
+      startDateTimeUtc: '2030-01-01T08:00:00.000Z',
+      endDateTimeUtc: endDateTime,
+      timezone: 'UTC',
+      changeType: 'initial' as const,
+      actor: 'anonymous',
+      createdAt: '2029-12-31T12:00:00.000Z'
+    });
+
+    beforeEach(() => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+      mockWxccApiClient.updateOverride.mockImplementation(async (_containerId, _agentId, override) => override as WxccOverride);
+    });
+
+    test('should record the schedule before the first change, then each change', async () => {
+      await overrideService.updateAgentSchedule('container1', 'alice', {
+        workingHours: true,
+        startDateTime: '2030-01-01T08:00:00Z',
+        endDateTime: '2030-01-01T08:30:00Z'
+      });
+
+      expect(mockDatabaseService.insertOverrideVersion.mock.calls.map(([version]) => version)).toEqual([
+        expect.objectContaining({ overrideName: 'alice', changeType: 'initial', endDateTime: '2030-01-01T09:00' }),
+        expect.objectContaining({ overrideName: 'alice', changeType: 'update', endDateTime: '2030-01-01T08:30', containerVersion: 3 })
+      ]);
+    });
+
+    test('should restore a version as a new, audited change', async () => {
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(storedVersion('2030-01-01T09:15:00.000Z'));
+
+      const agent = await overrideService.restoreAgentSchedule('container1', 'alice', 1, 3);
+
+      expect(agent.endDateTime).toBe('2030-01-01T09:15');
+      expect(mockWxccApiClient.updateOverride).toHaveBeenCalledWith('container1', 'alice', expect.objectContaining({
+        startDateTime: '2030-01-01T08:00',
+        endDateTime: '2030-01-01T09:15'
+      }), 3);
+      expect(mockDatabaseService.insertOverrideVersion).toHaveBeenLastCalledWith(expect.objectContaining({
+        changeType: 'restore',
+        restoredFrom: 1
+      }));
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'restore_agent_schedule',
+        after: expect.objectContaining({ endDateTime: '2030-01-01T09:15', restoredFrom: 1 }),
+        outcome: 'success'
+      }));
+    });
+
+    test('should validate a restore against the current schedules', async () => {
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(storedVersion('2030-01-01T10:00:00.000Z'));
+
+      await expect(overrideService.restoreAgentSchedule('container1', 'alice', 1))
+        .rejects.toThrow('Validation failed: Schedule conflicts with agent bob');
+      expect(mockWxccApiClient.updateOverride).not.toHaveBeenCalled();
+      expect(mockDatabaseService.insertOverrideVersion).not.toHaveBeenCalled();
+    });
+
+    test('should switch working hours in WxCC, keeping the dates, as a new version', async () => {
+      mockWxccApiClient.updateOverride.mockResolvedValueOnce({ ...container.overrides![0], workingHours: false });
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(null);
+
+      const agent = await overrideService.setAgentWorkingHours('container1', 'alice', false);
+
+      expect(agent).toEqual(expect.objectContaining({ workingHours: false, endDateTime: '2030-01-01T09:00' }));
+      expect(mockWxccApiClient.updateOverride).toHaveBeenCalledWith('container1', 'alice', { workingHours: false });
+      expect(mockDatabaseService.insertOverrideVersion.mock.calls.map(([version]) => version)).toEqual([
+        expect.objectContaining({ changeType: 'initial', workingHours: true }),
+        expect.objectContaining({ changeType: 'update', workingHours: false, containerVersion: 3 })
+      ]);
+    });
+
+    test('should reject a version that does not exist', async () => {
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(null);
+
+      await expect(overrideService.restoreAgentSchedule('container1', 'alice', 9))
+        .rejects.toThrow('Version 9 of agent alice in container container1 not found');
     });
   });
 
@@ -176,4 +375,715 @@ describe('OverrideService', () => {
       expect(isActive).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('Create and Delete Agent Overrides', () => {
+    const futureStart = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const futureEnd = new Date(futureStart.getTime() + 4 * 60 * 60 * 1000);
+
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      name: 'Test Container',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        {
+          name: 'agent1',
+          workingHours: true,
+          startDateTime: futureStart.toISOString(),
+          endDateTime: futureEnd.toISOString()
+        }
+      ]
+    };
+
+    test('should create a non-overlapping agent override', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+      mockWxccApiClient.createOverride.mockImplementation(async (_containerId, override) => override);
+
+      const agent = await overrideService.createAgentSchedule('container1', {
+        agentId: 'agent2',
+        workingHours: false,
+        startDateTime: futureStart.toISOString(),
+        endDateTime: futureEnd.toISOString()
+      });
+
+      expect(mockWxccApiClient.createOverride).toHaveBeenCalledWith('container1', expect.objectContaining({
+        name: 'agent2',
+        workingHours: false
+      }));
+      expect(agent.agentId).toBe('agent2');
+      expect(agent.containerName).toBe('Test Container');
+      expect(agent.status).toBe(AgentStatus.INACTIVE);
+    });
+
+    test('should reject a new agent override that conflicts with an existing one', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+
+      await expect(overrideService.createAgentSchedule('container1', {
+        agentId: 'agent2',
+        workingHours: true,
+        startDateTime: futureStart.toISOString(),
+        endDateTime: futureEnd.toISOString()
+      })).rejects.toThrow('Validation failed: Schedule conflicts with agent agent1');
+
+      expect(mockWxccApiClient.createOverride).not.toHaveBeenCalled();
+    });
+
+    test('should delete an agent override through the client', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+      mockWxccApiClient.deleteOverride.mockResolvedValue();
+
+      await overrideService.deleteAgentSchedule('container1', 'agent1');
+
+      expect(mockWxccApiClient.deleteOverride).toHaveBeenCalledWith('container1', 'agent1');
+    });
+
+    test('should audit a deletion with the schedule it removed', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+      mockWxccApiClient.deleteOverride.mockResolvedValue();
+
+      await overrideService.deleteAgentSchedule('container1', 'agent1');
+
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'delete_agent_schedule',
+        entityType: 'override',
+        overrideName: 'agent1',
+        containerId: 'container1',
+        before: expect.objectContaining({ workingHours: true, startDateTime: futureStart.toISOString() }),
+        after: null,
+        outcome: 'success'
+      }));
+    });
+
+    test('should add created and deleted schedules to the version history', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue({ ...container, version: 2 });
+      mockWxccApiClient.createOverride.mockImplementation(async (_containerId, override) => override);
+      mockWxccApiClient.deleteOverride.mockResolvedValue();
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(null);
+
+      await overrideService.createAgentSchedule('container1', {
+        agentId: 'agent2',
+        workingHours: false,
+        startDateTime: futureStart.toISOString(),
+        endDateTime: futureEnd.toISOString()
+      });
+      await overrideService.deleteAgentSchedule('container1', 'agent1');
+
+      expect(mockDatabaseService.insertOverrideVersion.mock.calls.map(([version]) => [version.overrideName, version.changeType]))
+        .toEqual([['agent2', 'create'], ['agent1', 'delete']]);
+      expect(mockDatabaseService.insertOverrideVersion).toHaveBeenCalledWith(expect.objectContaining({
+        overrideName: 'agent2',
+        workingHours: false,
+        containerVersion: 2
+      }));
+      expect(mockDatabaseService.insertOverrideVersion).toHaveBeenLastCalledWith(expect.objectContaining({
+        overrideName: 'agent1',
+        workingHours: true
+      }));
+    });
+  });
+
+  describe('Container Lifecycle', () => {
+    const source: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      name: 'Q1 Campaign',
+      description: 'Seasonal rota',
+      timezone: 'Europe/London',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'agent1', workingHours: true, startDateTime: '2024-01-01T08:00', endDateTime: '2024-01-01T16:00' },
+        { name: 'agent2', workingHours: false, startDateTime: '2024-01-01T16:00', endDateTime: '2024-01-01T20:00' }
+      ]
+    };
+
+    test('should clone a container with all of its overrides', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(source);
+      mockWxccApiClient.createOverrideContainer.mockImplementation(async (data, overrides) => ({
+        id: 'container2',
+        organizationId: 'org1',
+        createdTime: '2024-04-01T00:00',
+        lastModifiedTime: '2024-04-01T00:00',
+        ...data,
+        overrides
+      }));
+
+      const cloned = await overrideService.cloneContainer('container1', { name: 'Q2 Campaign' });
+
+      expect(mockWxccApiClient.createOverrideContainer).toHaveBeenCalledWith(
+        { name: 'Q2 Campaign', description: 'Seasonal rota', timezone: 'Europe/London' },
+        source.overrides
+      );
+      expect(cloned.id).toBe('container2');
+      expect(cloned.timezone).toBe('Europe/London');
+      expect(cloned.totalAgents).toBe(2);
+      expect(cloned.agents.every(agent => agent.containerId === 'container2')).toBe(true);
+    });
+
+    test('should keep the instants of overrides cloned into another timezone', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(source);
+      mockWxccApiClient.createOverrideContainer.mockImplementation(async (data, overrides) => ({
+        id: 'container2',
+        organizationId: 'org1',
+        createdTime: '2024-04-01T00:00',
+        lastModifiedTime: '2024-04-01T00:00',
+        ...data,
+        overrides
+      }));
+
+      const cloned = await overrideService.cloneContainer('container1', { name: 'Q2 Campaign', timezone: 'America/New_York' });
+
+      expect(mockWxccApiClient.createOverrideContainer.mock.calls[0][1]).toEqual([
+        expect.objectContaining({ name: 'agent1', startDateTime: '2024-01-01T03:00', endDateTime: '2024-01-01T11:00' }),
+        expect.objectContaining({ name: 'agent2', startDateTime: '2024-01-01T11:00', endDateTime: '2024-01-01T15:00' })
+      ]);
+      expect(cloned.agents.find(agent => agent.agentId === 'agent1')?.startDateTimeUtc).toBe('2024-01-01T08:00:00.000Z');
+    });
+
+    test('should expose the updated timezone in the container response', async () => {
+      mockWxccApiClient.updateOverrideContainer.mockResolvedValue({ ...source, timezone: 'America/New_York' });
+
+      const updated = await overrideService.updateContainer('container1', { timezone: 'America/New_York' });
+
+      expect(mockWxccApiClient.updateOverrideContainer).toHaveBeenCalledWith('container1', { timezone: 'America/New_York' });
+      expect(updated.timezone).toBe('America/New_York');
+    });
+  });
+
+  describe('Container Cache and Fetching', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      name: 'Support Team',
+      timezone: 'UTC',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'agent1', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T16:00' }
+      ]
+    };
+
+    beforeEach(() => {
+      mockWxccApiClient.listOverrideContainers.mockResolvedValue([container]);
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+    });
+
+    test('should serve repeated reads from the cache and report hit or miss', async () => {
+      const first = await overrideService.loadAllContainers();
+      const second = await overrideService.loadAllContainers();
+      const single = await overrideService.loadContainer('container1');
+
+      expect(first.cache).toBe('miss');
+      expect(second.cache).toBe('hit');
+      expect(single.cache).toBe('hit');
+      expect(second.data).toEqual(first.data);
+      expect(mockWxccApiClient.listOverrideContainers).toHaveBeenCalledTimes(1);
+      expect(mockWxccApiClient.getOverrideContainerById).toHaveBeenCalledTimes(1);
+    });
+
+    test('should cache containers per organization', async () => {
+      const organization = { id: 'org-2', name: 'Acme', baseUrl: 'https://api.wxcc-us1.cisco.com', timezone: 'Europe/Paris' };
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue({ ...container, timezone: undefined });
+
+      await overrideService.loadContainer('container1');
+      const other = await runWithContext({ organization }, () => overrideService.loadContainer('container1'));
+
+      expect(other.cache).toBe('miss');
+      expect(mockWxccApiClient.getOverrideContainerById).toHaveBeenCalledTimes(2);
+      // Containers without a timezone are read in their organization's timezone
+      expect(other.data.timezone).toBe('Europe/Paris');
+    });
+
+    test('should invalidate a container after writing to it', async () => {
+      mockWxccApiClient.updateOverride.mockResolvedValue({
+        name: 'agent1', workingHours: true, startDateTime: '2030-01-01T09:00', endDateTime: '2030-01-01T17:00'
+      });
+
+      await overrideService.getAllContainersWithAgents();
+      await overrideService.updateAgentSchedule('container1', 'agent1', {
+        workingHours: true,
+        startDateTime: '2030-01-01T09:00:00Z',
+        endDateTime: '2030-01-01T17:00:00Z'
+      });
+      mockWxccApiClient.getOverrideContainerById.mockClear();
+
+      const afterWrite = await overrideService.loadAllContainers();
+
+      expect(afterWrite.cache).toBe('miss');
+      expect(mockWxccApiClient.getOverrideContainerById).toHaveBeenCalledWith('container1');
+    });
+
+    test('should report containers whose details fail to load instead of dropping them silently', async () => {
+      mockWxccApiClient.listOverrideContainers.mockResolvedValue([container, { ...container, id: 'broken' }]);
+      mockWxccApiClient.getOverrideContainerById.mockImplementation(async id => {
+        if (id === 'broken') throw new Error('Failed to fetch container: timeout');
+        return container;
+      });
+
+      const result = await overrideService.loadAllContainers();
+
+      expect(result.data.map(loaded => loaded.id)).toEqual(['container1']);
+      expect(result.failures).toEqual([{ containerId: 'broken', error: 'Failed to fetch container: timeout' }]);
+      expect(result.cache).toBe('miss');
+    });
+
+    test('should fail when no container details can be loaded', async () => {
+      mockWxccApiClient.getOverrideContainerById.mockRejectedValueOnce(new Error('Failed to fetch container: timeout'));
+
+      await expect(overrideService.loadAllContainers()).rejects.toThrow('Failed to fetch details for all 1 containers');
+    });
+
+    test('should invalidate a container when a write fails', async () => {
+      mockWxccApiClient.deleteOverride.mockRejectedValueOnce(new Error('Failed to delete override: timeout'));
+
+      await overrideService.loadContainer('container1');
+      await expect(overrideService.deleteAgentSchedule('container1', 'agent1')).rejects.toThrow('timeout');
+
+      expect((await overrideService.loadContainer('container1')).cache).toBe('miss');
+    });
+  });
+
+  describe('Bulk Schedule Updates', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const at = (hours: number) => new Date(Date.now() + day + hours * 60 * 60 * 1000).toISOString();
+
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      version: 4,
+      name: 'Rota',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice', workingHours: false, startDateTime: at(0), endDateTime: at(4) },
+        { name: 'bob', workingHours: false, startDateTime: at(4), endDateTime: at(8) }
+      ]
+    };
+
+    beforeEach(() => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+      mockWxccApiClient.updateOverrides.mockImplementation(async (_containerId, updates) =>
+        updates.map(update => ({ ...container.overrides![0], ...update.overrideData, name: update.agentId }))
+      );
+    });
+
+    test('should write all items for a container with a single PUT at the version read', async () => {
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container1', agentId: 'bob', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(result.applied).toBe(true);
+      expect(result.successCount).toBe(2);
+      expect(mockWxccApiClient.updateOverrides).toHaveBeenCalledTimes(1);
+      expect(mockWxccApiClient.updateOverrides.mock.calls[0][2]).toBe(4);
+    });
+
+    test('should detect conflicts between new entries in the same batch', async () => {
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(6) },
+          { containerId: 'container1', agentId: 'bob', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(result.failureCount).toBe(2);
+      expect(result.results[0].errors?.[0].conflictingAgentId).toBe('bob');
+      expect(result.results[1].errors?.[0].conflictingAgentId).toBe('alice');
+      expect(mockWxccApiClient.updateOverrides).not.toHaveBeenCalled();
+    });
+
+    test('should apply nothing in atomic mode when any item fails', async () => {
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        atomic: true,
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container1', agentId: 'carol', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(result.applied).toBe(false);
+      expect(result.successCount).toBe(0);
+      expect(result.results[0].errors?.[0].field).toBe('batch');
+      expect(result.results[1].errors?.[0].message).toBe('Agent carol not found in container container1');
+      expect(mockWxccApiClient.updateOverrides).not.toHaveBeenCalled();
+    });
+
+    test('should apply the valid items when not atomic', async () => {
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container1', agentId: 'carol', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(result.applied).toBe(true);
+      expect(result.results[0].success).toBe(true);
+      expect(result.results[1].success).toBe(false);
+      expect(mockWxccApiClient.updateOverrides.mock.calls[0][1].map(update => update.agentId)).toEqual(['alice']);
+    });
+
+    test('should audit each changed override with its schedule before and after', async () => {
+      await overrideService.bulkUpdateAgentSchedules({
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container1', agentId: 'carol', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledTimes(1);
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'bulk_update_agent_schedule',
+        entityType: 'override',
+        overrideName: 'alice',
+        containerId: 'container1',
+        before: expect.objectContaining({ workingHours: false }),
+        after: expect.objectContaining({ workingHours: true }),
+        outcome: 'success'
+      }));
+    });
+
+    test('should audit the rollback of containers written before a later container failed', async () => {
+      const other: WxccOverrideContainer = { ...container, id: 'container2', version: 1 };
+      mockWxccApiClient.getOverrideContainerById.mockImplementation(async containerId =>
+        containerId === 'container2' ? other : container
+      );
+      mockWxccApiClient.updateOverrides
+        .mockImplementationOnce(async (_containerId, updates) =>
+          updates.map(update => ({ ...container.overrides![0], ...update.overrideData, name: update.agentId })))
+        .mockRejectedValueOnce(new Error('WxCC unavailable'));
+
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        atomic: true,
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container2', agentId: 'bob', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(result.applied).toBe(false);
+      expect(mockDatabaseService.insertAuditEntry.mock.calls.map(([entry]) => [entry.action, entry.overrideName, entry.outcome]))
+        .toEqual([
+          ['bulk_update_agent_schedule', 'alice', 'success'],
+          ['bulk_update_agent_schedule', 'bob', 'failure'],
+          ['rollback_agent_schedule', 'alice', 'success']
+        ]);
+      expect(mockDatabaseService.insertAuditEntry).toHaveBeenLastCalledWith(expect.objectContaining({
+        before: expect.objectContaining({ workingHours: true }),
+        after: expect.objectContaining({ workingHours: false })
+      }));
+    });
+
+    test('should add bulk changes and their rollback to the version history', async () => {
+      const other: WxccOverrideContainer = { ...container, id: 'container2', version: 1 };
+      mockWxccApiClient.getOverrideContainerById.mockImplementation(async containerId =>
+        containerId === 'container2' ? other : container
+      );
+      mockWxccApiClient.updateOverrides
+        .mockImplementationOnce(async (_containerId, updates) =>
+          updates.map(update => ({ ...container.overrides![0], ...update.overrideData, name: update.agentId })))
+        .mockRejectedValueOnce(new Error('WxCC unavailable'));
+      mockDatabaseService.getOverrideVersion.mockResolvedValue(null);
+
+      await overrideService.bulkUpdateAgentSchedules({
+        atomic: true,
+        updates: [
+          { containerId: 'container1', agentId: 'alice', workingHours: true, startDateTime: at(0), endDateTime: at(4) },
+          { containerId: 'container2', agentId: 'bob', workingHours: true, startDateTime: at(4), endDateTime: at(8) }
+        ]
+      });
+
+      expect(mockDatabaseService.insertOverrideVersion.mock.calls
+        .filter(([version]) => version.changeType !== 'initial')
+        .map(([version]) => [version.overrideName, version.changeType, version.workingHours]))
+        .toEqual([['alice', 'update', true], ['alice', 'rollback', false]]);
+    });
+  });
+
+  describe('Container Timezones', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      version: 2,
+      name: 'London Rota',
+      timezone: 'Europe/London',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice', workingHours: true, startDateTime: '2030-07-15T09:00', endDateTime: '2030-07-15T17:00' }
+      ]
+    };
+
+    beforeEach(() => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+    });
+
+    test('should expose WxCC wall-clock dates together with their UTC instants', async () => {
+      const result = await overrideService.getContainerById('container1');
+
+      expect(result.agents[0]).toMatchObject({
+        startDateTime: '2030-07-15T09:00',
+        startDateTimeUtc: '2030-07-15T08:00:00.000Z',
+        endDateTimeUtc: '2030-07-15T16:00:00.000Z',
+        timezone: 'Europe/London'
+      });
+    });
+
+    test('should write UTC request dates to WxCC as wall-clock time in the container timezone', async () => {
+      mockWxccApiClient.updateOverride.mockImplementation(async (_containerId, agentId, overrideData) =>
+        ({ ...container.overrides![0], ...overrideData, name: agentId }));
+
+      await overrideService.updateAgentSchedule('container1', 'alice', {
+        workingHours: true,
+        startDateTime: '2030-07-16T07:00:00Z',
+        endDateTime: '2030-07-16T15:00:00Z'
+      });
+
+      expect(mockWxccApiClient.updateOverride).toHaveBeenCalledWith('container1', 'alice', expect.objectContaining({
+        startDateTime: '2030-07-16T08:00',
+        endDateTime: '2030-07-16T16:00'
+      }), undefined);
+    });
+
+    test('should detect conflicts between UTC request dates and local WxCC dates', async () => {
+      const validation = await overrideService.validateScheduleConflictForOverride('bob', 'container1', {
+        workingHours: true,
+        startDateTime: '2030-07-15T15:30:00Z', // 16:30 in London, inside alice's shift
+        endDateTime: '2030-07-15T20:00:00Z'
+      });
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors[0].conflictingAgentId).toBe('alice');
+    });
+  });
+
+  describe('Cross-Container Conflict Policy', () => {
+    const sales: WxccOverrideContainer = {
+      id: 'sales',
+      organizationId: 'org1',
+      version: 1,
+      name: 'Sales Team Override',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice-sales', workingHours: false, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T12:00' }
+      ]
+    };
+    const support: WxccOverrideContainer = {
+      ...sales,
+      id: 'support',
+      name: 'Support Team Override',
+      overrides: [
+        { name: 'alice-support', workingHours: true, startDateTime: '2030-01-01T10:00', endDateTime: '2030-01-01T14:00' },
+        { name: 'bob-support', workingHours: true, startDateTime: '2030-01-01T09:00', endDateTime: '2030-01-01T11:00' }
+      ]
+    };
+
+    const overlappingUpdate: UpdateAgentRequest = {
+      workingHours: true,
+      startDateTime: '2030-01-01T09:00:00Z',
+      endDateTime: '2030-01-01T11:00:00Z'
+    };
+
+    beforeEach(() => {
+      mockWxccApiClient.listOverrideContainers.mockResolvedValue([sales, support]);
+      mockWxccApiClient.getOverrideContainerById.mockImplementation(async id => (id === 'sales' ? sales : support));
+      mockDatabaseService.getAllMappings.mockResolvedValue([
+        { id: 1, organizationId: 'org-1', overrideName: 'alice-sales', agentName: 'Alice Smith', workingHoursActive: false, createdAt: '', updatedAt: '' },
+        { id: 2, organizationId: 'org-1', overrideName: 'alice-support', agentName: ' alice smith ', workingHoursActive: true, createdAt: '', updatedAt: '' },
+        { id: 3, organizationId: 'org-1', overrideName: 'bob-support', agentName: 'Bob Jones', workingHoursActive: true, createdAt: '', updatedAt: '' }
+      ]);
+    });
+
+    afterEach(() => {
+      config.scheduling.conflictPolicy = 'container';
+    });
+
+    test('should only check the edited container by default', async () => {
+      const validation = await overrideService.validateScheduleConflictForOverride('alice-sales', 'sales', overlappingUpdate);
+
+      expect(validation.isValid).toBe(true);
+      expect(mockDatabaseService.getAllMappings).not.toHaveBeenCalled();
+    });
+
+    test('should report overlaps with overrides mapped to the same agent in other containers', async () => {
+      config.scheduling.conflictPolicy = 'cross-container';
+
+      const validation = await overrideService.validateScheduleConflictForOverride('alice-sales', 'sales', overlappingUpdate);
+
+      expect(validation.isValid).toBe(false);
+      expect(validation.errors).toEqual([{
+        field: 'schedule',
+        message: 'Schedule conflicts with agent alice-support in container Support Team Override',
+        agentId: 'alice-sales',
+        conflictingAgentId: 'alice-support',
+        conflictingContainerId: 'support',
+        overlapStart: '2030-01-01T10:00:00.000Z',
+        overlapEnd: '2030-01-01T11:00:00.000Z',
+        overlapMinutes: 60
+      }]);
+    });
+
+    test('should check bulk items against the batch applied to other containers', async () => {
+      config.scheduling.conflictPolicy = 'cross-container';
+      mockWxccApiClient.updateOverrides.mockImplementation(async (_containerId, updates) =>
+        updates.map(update => ({ ...sales.overrides![0], ...update.overrideData, name: update.agentId })));
+
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: [
+          { containerId: 'sales', agentId: 'alice-sales', ...overlappingUpdate },
+          { containerId: 'support', agentId: 'alice-support', workingHours: false, startDateTime: '2030-01-01T10:00:00Z', endDateTime: '2030-01-01T14:00:00Z' }
+        ]
+      });
+
+      expect(result.successCount).toBe(2);
+    });
+
+    test('should refuse to pass schedules when another container could not be checked', async () => {
+      config.scheduling.conflictPolicy = 'cross-container';
+      mockWxccApiClient.getOverrideContainerById.mockImplementation(async id => {
+        if (id === 'support') throw new Error('Request timed out');
+        return sales;
+      });
+
+      await expect(overrideService.validateScheduleConflictForOverride('alice-sales', 'sales', overlappingUpdate))
+        .rejects.toThrow('Schedule conflicts could not be checked across containers: support could not be loaded');
+
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: [{ containerId: 'sales', agentId: 'alice-sales', ...overlappingUpdate }]
+      });
+
+      expect(result.successCount).toBe(0);
+      expect(result.results[0].errors?.[0].message).toContain('support could not be loaded');
+      expect(mockWxccApiClient.updateOverrides).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Coverage Rules', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container1',
+      organizationId: 'org1',
+      version: 1,
+      name: 'Helpdesk',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [
+        { name: 'alice', workingHours: true, startDateTime: '2030-01-07T08:00', endDateTime: '2030-01-07T16:00' },
+        { name: 'bob', workingHours: true, startDateTime: '2030-01-07T10:00', endDateTime: '2030-01-07T18:00' },
+        { name: 'carol', workingHours: true, startDateTime: '2030-01-07T12:00', endDateTime: '2030-01-07T14:00' }
+      ]
+    };
+
+    const rules = (overrides: Partial<CoverageRules>): CoverageRules => ({
+      containerId: 'container1',
+      maxConcurrent: 3,
+      minCoverage: 0,
+      allowedWindows: [],
+      ...overrides
+    });
+
+    beforeEach(() => {
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue(container);
+    });
+
+    afterEach(() => {
+      mockDatabaseService.getCoverageRules.mockReset();
+    });
+
+    test('should allow overlaps up to maxConcurrent and report the windows above it', async () => {
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({ maxConcurrent: 3 }));
+
+      const allowed = await overrideService.validateScheduleConflictForOverride('dave', 'container1', {
+        workingHours: true,
+        startDateTime: '2030-01-07T16:00:00Z',
+        endDateTime: '2030-01-07T20:00:00Z'
+      });
+      expect(allowed.isValid).toBe(true);
+
+      const rejected = await overrideService.validateScheduleConflictForOverride('dave', 'container1', {
+        workingHours: true,
+        startDateTime: '2030-01-07T09:00:00Z',
+        endDateTime: '2030-01-07T15:00:00Z'
+      });
+      expect(rejected.errors).toEqual([expect.objectContaining({
+        field: 'maxConcurrent',
+        agentId: 'dave',
+        overlapStart: '2030-01-07T12:00:00.000Z',
+        overlapEnd: '2030-01-07T14:00:00.000Z',
+        overlapMinutes: 120
+      })]);
+    });
+
+    test('should reject schedules outside the allowed windows', async () => {
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({
+        maxConcurrent: 5,
+        allowedWindows: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '07:00', endTime: '19:00' }]
+      }));
+
+      const validation = await overrideService.validateScheduleConflictForOverride('dave', 'container1', {
+        workingHours: true,
+        startDateTime: '2030-01-07T17:00:00Z',
+        endDateTime: '2030-01-07T21:00:00Z'
+      });
+
+      expect(validation.errors).toEqual([expect.objectContaining({
+        field: 'allowedWindows',
+        overlapStart: '2030-01-07T19:00:00.000Z',
+        overlapEnd: '2030-01-07T21:00:00.000Z'
+      })]);
+    });
+
+    test('should reject changes and deletions that leave fewer agents than minCoverage', async () => {
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({ minCoverage: 1 }));
+
+      const validation = await overrideService.validateScheduleConflictForOverride('bob', 'container1', {
+        workingHours: false,
+        startDateTime: '2030-01-07T10:00:00Z',
+        endDateTime: '2030-01-07T18:00:00Z'
+      });
+
+      expect(validation.errors).toEqual([expect.objectContaining({
+        field: 'minCoverage',
+        overlapStart: '2030-01-07T16:00:00.000Z',
+        overlapEnd: '2030-01-07T18:00:00.000Z'
+      })]);
+
+      await expect(overrideService.deleteAgentSchedule('container1', 'bob')).rejects.toBeInstanceOf(ScheduleValidationFailedError);
+      expect(mockWxccApiClient.deleteOverride).not.toHaveBeenCalled();
+
+      await overrideService.deleteAgentSchedule('container1', 'carol');
+      expect(mockWxccApiClient.deleteOverride).toHaveBeenCalledWith('container1', 'carol');
+    });
+
+    test('should check the working-hours toggle against the coverage rules in both directions', async () => {
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({ minCoverage: 1 }));
+
+      await expect(overrideService.setAgentWorkingHours('container1', 'bob', false))
+        .rejects.toThrow('Coverage would drop to 0 agents (minimum 1)');
+
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({ maxConcurrent: 2 }));
+      mockWxccApiClient.getOverrideContainerById.mockResolvedValue({
+        ...container,
+        overrides: container.overrides!.map(override => override.name === 'carol' ? { ...override, workingHours: false } : override)
+      });
+      overrideService.clearCache();
+
+      await expect(overrideService.setAgentWorkingHours('container1', 'carol', true))
+        .rejects.toBeInstanceOf(ScheduleValidationFailedError);
+      expect(mockWxccApiClient.updateOverride).not.toHaveBeenCalled();
+    });
+
+    test('should revert a toggle in WxCC even where the coverage rules would block it', async () => {
+      mockDatabaseService.getCoverageRules.mockResolvedValue(rules({ minCoverage: 1 }));
+      mockWxccApiClient.updateOverride.mockResolvedValueOnce({ ...container.overrides![1], workingHours: false });
+
+      await overrideService.revertAgentWorkingHours('container1', 'bob', false);
+
+      expect(mockWxccApiClient.updateOverride).toHaveBeenCalledWith('container1', 'bob', { workingHours: false });
+      expect(mockDatabaseService.insertOverrideVersion).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Permission Service Tests
+ *
+ * Per-container read and write permissions of users and groups
+ */
+
+import { databaseService } from '../services/databaseService';
+import { PermissionService } from '../services/permissionService';
+import { AuthIdentity, ContainerPermission } from '../types';
+import { ContainerAccessDeniedError } from '../utils/errors';
+import { runWithContext } from '../utils/requestContext';
+
+jest.mock('../services/databaseService');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+describe('PermissionService', () => {
+  const organization = { id: 'org-1', name: 'Acme', baseUrl: 'https://api.wxcc-us1.cisco.com', timezone: 'UTC' };
+
+  const permission = (containerId: string, principalType: 'user' | 'group', principal: string, access: 'read' | 'write'): ContainerPermission => ({
+    id: 1,
+    organizationId: 'org-1',
+    containerId,
+    principalType,
+    principal,
+    access,
+    createdAt: '2024-01-01 00:00:00'
+  });
+
+  const salesSupervisor: AuthIdentity = { subject: 'alice', role: 'scheduler', groups: ['sales'], method: 'jwt' };
+
+  const as = <T>(identity: AuthIdentity | undefined, work: () => Promise<T>) =>
+    runWithContext({ organization, identity }, work);
+
+  let permissionService: PermissionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    permissionService = new PermissionService();
+    mockDatabaseService.getContainerPermissions.mockResolvedValue([
+      permission('sales-hours', 'group', 'sales', 'write'),
+      permission('support-hours', 'group', 'support', 'write'),
+      permission('support-hours', 'user', 'alice', 'read')
+    ]);
+  });
+
+  it('should only list containers the caller may read, and containers without permissions', async () => {
+    const containers = [{ id: 'sales-hours' }, { id: 'support-hours' }, { id: 'billing-hours' }];
+    const bob: AuthIdentity = { subject: 'bob', role: 'scheduler', groups: ['sales'], method: 'jwt' };
+
+    expect(await as(salesSupervisor, () => permissionService.filterReadable(containers, c => c.id)))
+      .toEqual(containers);
+    expect((await as(bob, () => permissionService.filterReadable(containers, c => c.id))).map(c => c.id))
+      .toEqual(['sales-hours', 'billing-hours']);
+    expect(mockDatabaseService.getContainerPermissions).toHaveBeenCalledWith('org-1');
+  });
+
+  it('should refuse writes to containers the caller may only read', async () => {
+    await as(salesSupervisor, async () => {
+      await expect(permissionService.assertContainerAccess('sales-hours', 'write')).resolves.toBeUndefined();
+      await expect(permissionService.assertContainerAccess('billing-hours', 'write')).resolves.toBeUndefined();
+      await expect(permissionService.assertContainerAccess('support-hours', 'read')).resolves.toBeUndefined();
+      await expect(permissionService.assertContainerAccess('support-hours', 'write')).rejects.toThrow(ContainerAccessDeniedError);
+    });
+  });
+
+  it('should not restrict admins or requests without an identity', async () => {
+    const admin: AuthIdentity = { subject: 'ops-bot', role: 'admin', groups: [], method: 'api_key' };
+
+    await as(admin, () => permissionService.assertContainerAccess('support-hours', 'write'));
+    await as(undefined, () => permissionService.assertContainerAccess('support-hours', 'write'));
+
+    expect(mockDatabaseService.getContainerPermissions).not.toHaveBeenCalled();
+  });
+
+  it('should report missing permissions when deleting them', async () => {
+    mockDatabaseService.deleteContainerPermissions.mockResolvedValue(false);
+
+    await expect(as(undefined, () => permissionService.deletePermissions('billing-hours')))
+      .rejects.toThrow('No permissions found for container billing-hours');
+  });
+});
@@ -0,0 +1,63 @@
+import { RateLimiter } from '../utils/rateLimiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should allow max requests per window and refuse the rest until it ends', () => {
+    const limiter = new RateLimiter(1000, 2, clock);
+
+    expect(limiter.consume('a')).toEqual({ allowed: true, limit: 2, remaining: 1, resetMs: 1000 });
+    now = 400;
+    expect(limiter.consume('a')).toEqual({ allowed: true, limit: 2, remaining: 0, resetMs: 600 });
+    expect(limiter.consume('a')).toEqual({ allowed: false, limit: 2, remaining: 0, resetMs: 600 });
+
+    now = 1000;
+    expect(limiter.consume('a')).toEqual({ allowed: true, limit: 2, remaining: 1, resetMs: 1000 });
+  });
+
+  it('should report the budget of a key without counting a request', () => {
+    const limiter = new RateLimiter(1000, 1, clock);
+
+    expect(limiter.peek('a')).toEqual({ allowed: true, limit: 1, remaining: 1, resetMs: 0 });
+    limiter.consume('a');
+    now = 400;
+    expect(limiter.peek('a')).toEqual({ allowed: false, limit: 1, remaining: 0, resetMs: 600 });
+    expect(limiter.peek('a').allowed).toBe(false);
+
+    now = 1000;
+    expect(limiter.peek('a').allowed).toBe(true);
+  });
+
+  it('should count each key separately', () => {
+    const limiter = new RateLimiter(1000, 1, clock);
+
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('b').allowed).toBe(true);
+    expect(limiter.consume('a').allowed).toBe(false);
+  });
+
+  it('should drop ended windows', () => {
+    const limiter = new RateLimiter(1000, 1, clock);
+    limiter.consume('a');
+    limiter.consume('b');
+
+    now = 1500;
+    limiter.consume('c');
+
+    expect(limiter.size).toBe(1);
+  });
+
+  it('should allow everything when max is 0', () => {
+    const limiter = new RateLimiter(1000, 0, clock);
+
+    expect(limiter.enabled).toBe(false);
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.size).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Recurrence Service Tests
+ * 
+ * Tests for expanding recurring schedule templates into overrides
+ */
+
+import { databaseService } from '../services/databaseService';
+import { overrideService } from '../services/overrideService';
+import { RecurrenceService } from '../services/recurrenceService';
+import { AgentStatus, RecurringSchedule } from '../types';
+
+jest.mock('../services/databaseService');
+jest.mock('../services/overrideService');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+const mockOverrideService = overrideService as jest.Mocked<typeof overrideService>;
+
+describe('RecurrenceService', () => {
+  let recurrenceService: RecurrenceService;
+
+  const tuesdayEvenings: RecurringSchedule = {
+    id: 1,
+    organizationId: 'org-1',
+    containerId: 'container-1',
+    overrideName: 'alice on-call',
+    daysOfWeek: [2],
+    startTime: '18:00',
+    endTime: '22:00',
+    workingHours: true,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z'
+  };
+
+  beforeEach(() => {
+    recurrenceService = new RecurrenceService();
+    jest.clearAllMocks();
+  });
+
+  describe('expandOccurrences', () => {
+    it('should expand a weekly template into one occurrence per matching day', () => {
+      // Monday 1 January 2024 to Monday 15 January 2024
+      const occurrences = recurrenceService.expandOccurrences(
+        tuesdayEvenings,
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-15T00:00:00Z')
+      );
+
+      expect(occurrences).toEqual([
+        { agentId: 'alice on-call 2024-01-02', startDateTime: '2024-01-02T18:00:00.000Z', endDateTime: '2024-01-02T22:00:00.000Z' },
+        { agentId: 'alice on-call 2024-01-09', startDateTime: '2024-01-09T18:00:00.000Z', endDateTime: '2024-01-09T22:00:00.000Z' }
+      ]);
+    });
+
+    it('should roll overnight shifts into the next day', () => {
+      const occurrences = recurrenceService.expandOccurrences(
+        { ...tuesdayEvenings, startTime: '22:00', endTime: '06:00' },
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-08T00:00:00Z')
+      );
+
+      expect(occurrences).toHaveLength(1);
+      expect(occurrences[0].endDateTime).toBe('2024-01-03T06:00:00.000Z');
+    });
+
+    it('should respect the validity window', () => {
+      const occurrences = recurrenceService.expandOccurrences(
+        { ...tuesdayEvenings, validFrom: '2024-01-05', validUntil: '2024-01-20' },
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-31T00:00:00Z')
+      );
+
+      expect(occurrences.map(o => o.agentId)).toEqual(['alice on-call 2024-01-09', 'alice on-call 2024-01-16']);
+    });
+
+    it('should keep local wall-clock times in the container timezone across a DST change', () => {
+      // UK clocks go forward on Sunday 31 March 2024
+      const occurrences = recurrenceService.expandOccurrences(
+        tuesdayEvenings,
+        new Date('2024-03-25T00:00:00Z'),
+        new Date('2024-04-08T00:00:00Z'),
+        'Europe/London'
+      );
+
+      expect(occurrences).toEqual([
+        { agentId: 'alice on-call 2024-03-26', startDateTime: '2024-03-26T18:00:00.000Z', endDateTime: '2024-03-26T22:00:00.000Z' },
+        { agentId: 'alice on-call 2024-04-02', startDateTime: '2024-04-02T17:00:00.000Z', endDateTime: '2024-04-02T21:00:00.000Z' }
+      ]);
+    });
+  });
+
+  describe('generateOverrides', () => {
+    it('should create valid occurrences, skip existing ones and report conflicts', async () => {
+      const expanded = [
+        { agentId: 'alice on-call 2030-01-01', startDateTime: '2030-01-01T18:00:00.000Z', endDateTime: '2030-01-01T22:00:00.000Z' },
+        { agentId: 'alice on-call 2030-01-08', startDateTime: '2030-01-08T18:00:00.000Z', endDateTime: '2030-01-08T22:00:00.000Z' },
+        { agentId: 'alice on-call 2030-01-15', startDateTime: '2030-01-15T18:00:00.000Z', endDateTime: '2030-01-15T22:00:00.000Z' }
+      ];
+      jest.spyOn(recurrenceService, 'expandOccurrences').mockReturnValue(expanded);
+
+      mockDatabaseService.getRecurringSchedule.mockResolvedValue(tuesdayEvenings);
+      mockOverrideService.getContainerById.mockResolvedValue({
+        id: 'container-1',
+        name: 'On-call',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        agents: [{
+          agentId: 'alice on-call 2030-01-01',
+          containerId: 'container-1',
+          containerName: 'On-call',
+          workingHours: true,
+          startDateTime: expanded[0].startDateTime,
+          endDateTime: expanded[0].endDateTime,
+          status: AgentStatus.SCHEDULED
+        }]
+      });
+      mockOverrideService.validateScheduleConflictForOverride
+        .mockResolvedValueOnce({ isValid: true, errors: [] })
+        .mockResolvedValueOnce({
+          isValid: false,
+          errors: [{ field: 'schedule', message: 'Schedule conflicts with agent bob', conflictingAgentId: 'bob' }]
+        });
+
+      const result = await recurrenceService.generateOverrides(1);
+
+      expect(result.existing.map(o => o.agentId)).toEqual(['alice on-call 2030-01-01']);
+      expect(result.created.map(o => o.agentId)).toEqual(['alice on-call 2030-01-08']);
+      expect(result.conflicts.map(o => o.agentId)).toEqual(['alice on-call 2030-01-15']);
+      expect(result.conflicts[0].errors[0].conflictingAgentId).toBe('bob');
+      expect(mockOverrideService.createAgentSchedule).toHaveBeenCalledTimes(1);
+      expect(mockOverrideService.createAgentSchedule).toHaveBeenCalledWith('container-1', {
+        agentId: 'alice on-call 2030-01-08',
+        workingHours: true,
+        startDateTime: expanded[1].startDateTime,
+        endDateTime: expanded[1].endDateTime
+      });
+    });
+
+    it('should not create anything on a dry run', async () => {
+      jest.spyOn(recurrenceService, 'expandOccurrences').mockReturnValue([
+        { agentId: 'alice on-call 2030-01-08', startDateTime: '2030-01-08T18:00:00.000Z', endDateTime: '2030-01-08T22:00:00.000Z' }
+      ]);
+      mockDatabaseService.getRecurringSchedule.mockResolvedValue(tuesdayEvenings);
+      mockOverrideService.getContainerById.mockResolvedValue({
+        id: 'container-1',
+        name: 'On-call',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+        agents: []
+      });
+      mockOverrideService.validateScheduleConflictForOverride.mockResolvedValue({ isValid: true, errors: [] });
+
+      const result = await recurrenceService.generateOverrides(1, { dryRun: true });
+
+      expect(result.created).toHaveLength(1);
+      expect(mockOverrideService.createAgentSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should throw for an unknown template', async () => {
+      mockDatabaseService.getRecurringSchedule.mockResolvedValue(null);
+
+      await expect(recurrenceService.generateOverrides(99))
+        .rejects
+        .toThrow('Recurring schedule 99 not found');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { backoffDelay, parseRetryAfter } from '../utils/retry';
+
+describe('Retry Utilities', () => {
+  describe('backoffDelay', () => {
+    it('should double the delay ceiling per attempt with jitter in its upper half', () => {
+      expect(backoffDelay(1, 1000, 30000, () => 0)).toBe(500);
+      expect(backoffDelay(1, 1000, 30000, () => 1)).toBe(1000);
+      expect(backoffDelay(3, 1000, 30000, () => 0.5)).toBe(3000);
+    });
+
+    it('should cap the delay', () => {
+      expect(backoffDelay(10, 1000, 5000, () => 1)).toBe(5000);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read delay-seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120000);
+      expect(parseRetryAfter(3)).toBe(3000);
+    });
+
+    it('should read an HTTP date relative to now', () => {
+      const now = Date.parse('2024-01-01T12:00:00Z');
+      expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 11:00:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
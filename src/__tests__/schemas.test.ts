@@ -0,0 +1,116 @@
+/**
+ * Request Schema Tests
+ *
+ * Bodies, path parameters and query strings checked by the validate middleware
+ */
+
+import { Request, Response } from 'express';
+import { validate, RequestSchemas } from '../middleware';
+import {
+  auditQuerySchema,
+  coverageQuerySchema,
+  coverageRulesSchema,
+  generateOverridesQuerySchema,
+  mappingSchema,
+  overrideVersionParamsSchema,
+  recurringScheduleSchema,
+  updateAgentSchema,
+  updateOrganizationSchema
+} from '../schemas';
+import { RequestValidationError } from '../utils/errors';
+
+describe('validate', () => {
+  const run = (schemas: RequestSchemas, request: Partial<Request>) => {
+    const req = { params: {}, query: {}, body: {}, ...request } as Request;
+    const next = jest.fn();
+    validate(schemas)(req, {} as Response, next);
+    return { req, error: next.mock.calls[0][0] };
+  };
+
+  it('should report every field that fails, where it was sent', () => {
+    const { error } = run({ params: overrideVersionParamsSchema, body: updateAgentSchema }, {
+      params: { containerId: 'container1', agentId: 'alice', version: 'latest' },
+      body: { startDateTime: 'tomorrow', endDateTime: '', priority: 'high' }
+    });
+
+    expect(error).toBeInstanceOf(RequestValidationError);
+    expect(error.errors).toEqual([
+      { location: 'params', field: 'version', message: 'version must be a number' },
+      { location: 'body', field: 'workingHours', message: 'workingHours is required' },
+      { location: 'body', field: 'startDateTime', message: 'startDateTime must be an ISO 8601 date-time, e.g. 2024-01-15T09:00:00' },
+      { location: 'body', field: 'endDateTime', message: 'endDateTime is not allowed to be empty' },
+      { location: 'body', field: 'priority', message: 'priority is not allowed' }
+    ]);
+  });
+
+  it('should pass on trimmed and converted values', () => {
+    const { req, error } = run({ body: mappingSchema, query: generateOverridesQuerySchema }, {
+      body: { overrideName: ' alice ', agentName: 'Alice Smith  ' },
+      query: { horizonDays: '28', dryRun: 'true' }
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.body).toEqual({ overrideName: 'alice', agentName: 'Alice Smith' });
+    expect(req.query).toEqual({ horizonDays: 28, dryRun: true });
+  });
+
+  it('should accept the organization parameter of organization-scoped routes', () => {
+    const { req, error } = run({ params: overrideVersionParamsSchema }, {
+      params: { orgId: 'org-1', containerId: 'container1', agentId: 'alice', version: '2' }
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.params.version).toBe('2');
+  });
+});
+
+describe('request schemas', () => {
+  const messages = (schema: { validate: (value: unknown, options: object) => { error?: { details: { message: string }[] } } }, value: unknown) =>
+    schema.validate(value, { abortEarly: false, errors: { wrap: { label: false } } }).error?.details.map(d => d.message) ?? [];
+
+  it('should enforce rules between fields', () => {
+    expect(messages(coverageRulesSchema, { maxConcurrent: 2, minCoverage: 3 }))
+      .toEqual(['minCoverage cannot be greater than maxConcurrent']);
+
+    expect(messages(recurringScheduleSchema, {
+      containerId: 'container1',
+      overrideName: 'alice',
+      daysOfWeek: [1, 7],
+      startTime: '09:00',
+      endTime: '09:00',
+      workingHours: true,
+      validFrom: '2024-02-01',
+      validUntil: '2024-01-31'
+    })).toEqual([
+      'daysOfWeek[1] must be a day from 0 (Sunday) to 6 (Saturday)',
+      'endTime cannot be equal to startTime',
+      'validUntil must not be before validFrom'
+    ]);
+
+    expect(messages(coverageQuerySchema, { from: '2024-01-01', to: '2024-06-01' }))
+      .toEqual(['The range cannot be longer than 93 days']);
+  });
+
+  it('should order coverage bounds without an offset as UTC, not in the server timezone', () => {
+    expect(messages(coverageQuerySchema, { from: '2024-01-15T09:30:00Z', to: '2024-01-15T09:00' }))
+      .toEqual(['to must be after from']);
+    expect(messages(coverageQuerySchema, { from: '2024-01-15T09:00', to: '2024-01-15T09:30:00Z' })).toEqual([]);
+  });
+
+  it('should require at least one change to an organization, but never its id', () => {
+    expect(messages(updateOrganizationSchema, {})).toHaveLength(1);
+    expect(messages(updateOrganizationSchema, { id: 'other-org', tokenUrl: '' })).toEqual(['id is not allowed']);
+    expect(messages(updateOrganizationSchema, { baseUrl: 'ftp://example.com' })).toEqual(['baseUrl must be an http(s) URL']);
+  });
+
+  it('should read audit filters into an audit log query', () => {
+    const { value } = auditQuerySchema.validate({ override: 'alice', container: '', from: '2024-01-01', limit: '50' });
+
+    expect(value).toEqual({
+      overrideName: 'alice',
+      from: new Date('2024-01-01T00:00:00').toISOString(),
+      limit: 50,
+      offset: 0
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Token Service Tests
+ * 
+ * Runs the OAuth2 refresh-token lifecycle against a local stand-in token endpoint
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { databaseService } from '../services/databaseService';
+import { TokenService } from '../services/tokenService';
+import { runWithContext } from '../utils/requestContext';
+
+jest.mock('../services/databaseService');
+
+const mockDatabaseService = databaseService as jest.Mocked<typeof databaseService>;
+
+describe('TokenService', () => {
+  const originalWxcc = { ...config.wxcc };
+  let server: http.Server;
+  let requests: URLSearchParams[];
+  let respond: (res: http.ServerResponse) => void;
+  let issued: number;
+
+  // Issues a new access token and rotates the refresh token on every call
+  const rotatingTokens = (res: http.ServerResponse) => {
+    issued++;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      access_token: `access-${issued}`,
+      expires_in: 3600,
+      refresh_token: `refresh-${issued}`,
+      refresh_token_expires_in: 86400
+    }));
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push(new URLSearchParams(body));
+        respond(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabaseService.getOAuthTokens.mockResolvedValue(null);
+    mockDatabaseService.saveOAuthTokens.mockResolvedValue();
+    requests = [];
+    issued = 0;
+    respond = rotatingTokens;
+
+    Object.assign(config.wxcc, {
+      accessToken: '',
+      refreshToken: 'refresh-0',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      organizationId: 'org-1',
+      tokenUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/access_token`
+    });
+  });
+
+  afterEach(() => {
+    Object.assign(config.wxcc, originalWxcc);
+  });
+
+  it('should use a static access token as-is when no refresh token is configured', async () => {
+    Object.assign(config.wxcc, { accessToken: 'static-token', refreshToken: '' });
+
+    const tokenService = new TokenService();
+
+    expect(await tokenService.getAccessToken()).toBe('static-token');
+    expect(await tokenService.handleUnauthorized('static-token')).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should obtain an access token with the refresh-token grant and persist rotated tokens', async () => {
+    const tokenService = new TokenService();
+
+    expect(await tokenService.getAccessToken()).toBe('access-1');
+
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0])).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+      refresh_token: 'refresh-0'
+    });
+    expect(mockDatabaseService.saveOAuthTokens).toHaveBeenCalledWith('org-1', expect.objectContaining({
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1'
+    }));
+
+    // Still valid: no further request
+    expect(await tokenService.getAccessToken()).toBe('access-1');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should refresh shortly before expiry using the stored rotated refresh token', async () => {
+    mockDatabaseService.getOAuthTokens.mockResolvedValue({
+      accessToken: 'stored-access',
+      refreshToken: 'stored-refresh',
+      expiresAt: new Date(Date.now() + 60 * 1000).toISOString()
+    });
+
+    const tokenService = new TokenService();
+
+    expect(await tokenService.getAccessToken()).toBe('access-1');
+    expect(requests[0].get('refresh_token')).toBe('stored-refresh');
+  });
+
+  it('should share one token request between concurrent callers', async () => {
+    const tokenService = new TokenService();
+
+    const tokens = await Promise.all([
+      tokenService.getAccessToken(),
+      tokenService.getAccessToken(),
+      tokenService.handleUnauthorized()
+    ]);
+
+    expect(tokens).toEqual(['access-1', 'access-1', 'access-1']);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should refresh after a 401 only if the rejected token is still current', async () => {
+    const tokenService = new TokenService();
+    await tokenService.getAccessToken();
+
+    expect(await tokenService.handleUnauthorized('access-1')).toBe('access-2');
+    // A request that was sent with the old token gets the replacement without another refresh
+    expect(await tokenService.handleUnauthorized('access-1')).toBe('access-2');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should keep the tokens of each organization apart', async () => {
+    const organization = {
+      id: 'org-2',
+      name: 'Acme',
+      baseUrl: 'https://api.wxcc-us1.cisco.com',
+      timezone: 'UTC',
+      refreshToken: 'acme-refresh',
+      clientId: 'acme-client',
+      clientSecret: 'acme-secret',
+      tokenUrl: config.wxcc.tokenUrl
+    };
+
+    const tokenService = new TokenService();
+
+    expect(await runWithContext({ organization }, () => tokenService.getAccessToken())).toBe('access-1');
+    expect(await tokenService.getAccessToken()).toBe('access-2');
+
+    expect(requests.map(request => request.get('client_id'))).toEqual(['acme-client', 'client-id']);
+    expect(mockDatabaseService.saveOAuthTokens).toHaveBeenCalledWith('org-2', expect.objectContaining({ accessToken: 'access-1' }));
+    expect(mockDatabaseService.saveOAuthTokens).toHaveBeenCalledWith('org-1', expect.objectContaining({ accessToken: 'access-2' }));
+
+    // Forgetting one organization's tokens loads them again on its next call only
+    tokenService.reset('org-2');
+    expect(await runWithContext({ organization }, () => tokenService.getAccessToken())).toBe('access-3');
+    expect(await tokenService.getAccessToken()).toBe('access-2');
+  });
+
+  it('should report token endpoint errors', async () => {
+    respond = res => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'invalid_grant' }));
+    };
+
+    const tokenService = new TokenService();
+
+    await expect(tokenService.getAccessToken()).rejects.toThrow(/Failed to refresh WxCC access token: .*invalid_grant/);
+    expect(mockDatabaseService.saveOAuthTokens).not.toHaveBeenCalled();
+  });
+});
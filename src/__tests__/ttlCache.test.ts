@@ -0,0 +1,43 @@
+import { TtlCache } from '../utils/ttlCache';
+
+describe('TtlCache', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  it('should return stored values until they expire', () => {
+    const cache = new TtlCache<string>(1000, clock);
+    cache.set('a', 'alpha');
+
+    now = 999;
+    expect(cache.get('a')).toBe('alpha');
+
+    now = 1000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+
+  it('should drop entries on delete and clear', () => {
+    const cache = new TtlCache<number>(1000, clock);
+    cache.set('a', 1);
+    cache.set('b', 2);
+
+    cache.delete('a');
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+
+    cache.clear();
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('should store nothing when the TTL is 0', () => {
+    const cache = new TtlCache<string>(0, clock);
+    cache.set('a', 'alpha');
+
+    expect(cache.enabled).toBe(false);
+    expect(cache.get('a')).toBeUndefined();
+  });
+});
@@ -7,6 +7,10 @@
 
 import { config } from '../config';
 import { WxccApiClient } from '../services/wxccApiClient';
+import { WxccOverrideContainer } from '../types';
+import { VersionConflictError, NotFoundError, UpstreamError, ConflictError } from '../utils/errors';
+import { tokenService } from '../services/tokenService';
+import { runWithContext } from '../utils/requestContext';
 
 describe('WxCC API Endpoint Migration Verification', () => {
   describe('Official WxCC API Endpoints', () => {
@@ -156,4 +160,257 @@ describe('WxCC API Endpoint Migration Verification', () => {
       console.log('  - Empty response handling: Working');
     });
   });
-});
\ No newline at end of file
+
+  describe('Optimistic Concurrency', () => {
+    const baseContainer = (version: number, overrides: WxccOverrideContainer['overrides']): WxccOverrideContainer => ({
+      id: 'container-1',
+      organizationId: 'org-1',
+      version,
+      name: 'Sales Team Override',
+      timezone: 'UTC',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides
+    });
+
+    const alice = { name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T12:00' };
+    const bob = { name: 'bob', workingHours: true, startDateTime: '2030-01-01T12:00', endDateTime: '2030-01-01T16:00' };
+
+    // Replace the HTTP backend's axios instance with a fake that serves a sequence of container versions
+    const createClient = (versions: WxccOverrideContainer[]) => {
+      const client = new WxccApiClient();
+      let current = 0;
+      const http = {
+        get: jest.fn(async () => ({ data: versions[Math.min(current, versions.length - 1)], status: 200, headers: {} })),
+        put: jest.fn(async (_url: string, body: WxccOverrideContainer) => ({
+          data: { ...body, version: (body.version || 1) + 1 },
+          status: 200
+        }))
+      };
+      (client as any).backend.client = http;
+      return { client, http, advance: () => { current++; } };
+    };
+
+    it('should re-apply a stale update when the concurrent change touched a different override', async () => {
+      const v1 = baseContainer(1, [alice, bob]);
+      const v2 = baseContainer(2, [alice, { ...bob, endDateTime: '2030-01-01T18:00' }]);
+      const { client, http, advance } = createClient([v1, v2]);
+
+      // The writer saw version 1
+      await client.getOverrideContainerById('container-1');
+      advance();
+
+      const result = await client.updateOverride('container-1', 'alice', { workingHours: false }, 1);
+
+      expect(result.workingHours).toBe(false);
+      const putBody = http.put.mock.calls[0][1] as WxccOverrideContainer;
+      expect(putBody.version).toBe(2);
+      expect(putBody.overrides?.find(o => o.name === 'bob')?.endDateTime).toBe('2030-01-01T18:00');
+    });
+
+    it('should reject a stale update with a field-level diff when the same fields changed', async () => {
+      const v1 = baseContainer(1, [alice, bob]);
+      const v2 = baseContainer(2, [{ ...alice, endDateTime: '2030-01-01T10:00' }, bob]);
+      const { client, http, advance } = createClient([v1, v2]);
+
+      await client.getOverrideContainerById('container-1');
+      advance();
+
+      const update = client.updateOverride('container-1', 'alice', { endDateTime: '2030-01-01T14:00' }, 1);
+
+      await expect(update).rejects.toBeInstanceOf(VersionConflictError);
+      await update.catch((error: VersionConflictError) => {
+        expect(error.currentVersion).toBe(2);
+        expect(error.conflicts).toEqual([{
+          agentId: 'alice',
+          field: 'endDateTime',
+          baseValue: '2030-01-01T12:00',
+          currentValue: '2030-01-01T10:00',
+          requestedValue: '2030-01-01T14:00'
+        }]);
+      });
+      expect(http.put).not.toHaveBeenCalled();
+    });
+
+    it('should re-read and retry when WxCC rejects the PUT version', async () => {
+      const v1 = baseContainer(1, [alice, bob]);
+      const v2 = baseContainer(2, [alice, { ...bob, workingHours: false }]);
+      const { client, http, advance } = createClient([v1, v2]);
+
+      http.put.mockImplementationOnce(async () => {
+        advance();
+        throw Object.assign(new Error('Request failed with status code 409'), {
+          isAxiosError: true,
+          response: { status: 409 }
+        });
+      });
+
+      const result = await client.updateOverride('container-1', 'alice', { workingHours: false });
+
+      expect(result.workingHours).toBe(false);
+      expect(http.put).toHaveBeenCalledTimes(2);
+      expect((http.put.mock.calls[1][1] as WxccOverrideContainer).version).toBe(2);
+    });
+  });
+
+  describe('Retries and Circuit Breaker', () => {
+    const container: WxccOverrideContainer = {
+      id: 'container-1',
+      organizationId: 'org-1',
+      version: 1,
+      name: 'Sales Team Override',
+      timezone: 'UTC',
+      createdTime: '2024-01-01T00:00',
+      lastModifiedTime: '2024-01-01T00:00',
+      overrides: [{ name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T12:00' }]
+    };
+
+    const httpError = (status?: number, headers: Record<string, string> = {}, code?: string) =>
+      Object.assign(new Error(status ? `Request failed with status code ${status}` : 'socket hang up'), {
+        isAxiosError: true,
+        code,
+        response: status ? { status, headers } : undefined
+      });
+
+    // Replace the HTTP backend's axios instance with a fake and record backoff waits instead of sleeping
+    const createClient = () => {
+      const client = new WxccApiClient();
+      const http = {
+        get: jest.fn(async (_url: string) => ({ data: container, status: 200, headers: {} })),
+        put: jest.fn(async (_url: string, body: WxccOverrideContainer) => ({ data: { ...body, version: 2 }, status: 200 }))
+      };
+      const delay = jest.fn(async () => undefined);
+      (client as any).backend.client = http;
+      (client as any).delay = delay;
+      return { client, http, delay };
+    };
+
+    it('should retry GETs on 5xx responses and network errors', async () => {
+      const { client, http, delay } = createClient();
+      http.get
+        .mockRejectedValueOnce(httpError(502))
+        .mockRejectedValueOnce(httpError(undefined, {}, 'ECONNRESET'));
+
+      const result = await client.getOverrideContainerById('container-1');
+
+      expect(result.id).toBe('container-1');
+      expect(http.get).toHaveBeenCalledTimes(3);
+      expect(delay).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not resend a PUT whose outcome is unknown', async () => {
+      const { client, http } = createClient();
+      http.put.mockRejectedValueOnce(httpError(502));
+
+      await expect(client.updateOverride('container-1', 'alice', { workingHours: false })).rejects.toThrow('502');
+      expect(http.put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should type failed calls by what WxCC answered', async () => {
+      const { client, http } = createClient();
+      http.get.mockRejectedValueOnce(httpError(404));
+      http.put.mockRejectedValueOnce(httpError(400));
+
+      const notFound = await client.getOverrideContainerById('container-1').catch(error => error);
+      expect(notFound).toBeInstanceOf(NotFoundError);
+      expect(notFound.message).toContain('Failed to fetch container container-1');
+
+      const rejected = await client.updateOverride('container-1', 'alice', { workingHours: false }).catch(error => error);
+      expect(rejected).toBeInstanceOf(UpstreamError);
+      expect(rejected.upstreamStatus).toBe(400);
+
+      await expect(client.updateOverride('container-1', 'nobody', { workingHours: false })).rejects.toThrow(NotFoundError);
+      await expect(client.createOverride('container-1', {
+        name: 'alice',
+        workingHours: true,
+        startDateTime: '2030-01-01T08:00',
+        endDateTime: '2030-01-01T17:00'
+      })).rejects.toThrow(ConflictError);
+    });
+
+    it('should retry a PUT after the Retry-After of a 429 response', async () => {
+      const { client, http, delay } = createClient();
+      http.put.mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }));
+
+      const result = await client.updateOverride('container-1', 'alice', { workingHours: false });
+
+      expect(result.workingHours).toBe(false);
+      expect(http.put).toHaveBeenCalledTimes(2);
+      expect(delay).toHaveBeenCalledWith(2000);
+    });
+
+    it('should retry once with a refreshed token when WxCC answers 401', async () => {
+      const { client, http, delay } = createClient();
+      const refresh = jest.spyOn(tokenService, 'handleUnauthorized').mockResolvedValue('new-token');
+      http.get.mockRejectedValueOnce(Object.assign(httpError(401), {
+        config: { headers: { Authorization: 'Bearer old-token' } }
+      }));
+
+      const result = await client.getOverrideContainerById('container-1');
+
+      expect(result.id).toBe('container-1');
+      expect(refresh).toHaveBeenCalledWith('old-token');
+      expect(http.get).toHaveBeenCalledTimes(2);
+      expect(delay).not.toHaveBeenCalled();
+
+      // A second 401 in a row is not retried again
+      http.get
+        .mockRejectedValueOnce(httpError(401))
+        .mockRejectedValueOnce(httpError(401));
+      await expect(client.getOverrideContainerById('container-1')).rejects.toThrow('401');
+      expect(http.get).toHaveBeenCalledTimes(4);
+
+      refresh.mockRestore();
+    });
+
+    it('should call WxCC for the organization of the current request', async () => {
+      const { client, http } = createClient();
+      const organization = {
+        id: 'org-2',
+        name: 'Acme',
+        baseUrl: 'https://api.wxcc-us1.cisco.com',
+        timezone: 'America/New_York',
+        accessToken: 'acme-token'
+      };
+
+      await runWithContext({ organization }, () => client.getOverrideContainerById('container-1'));
+      await client.getOverrideContainerById('container-1');
+
+      expect(http.get).toHaveBeenNthCalledWith(1, '/organization/org-2/overrides/container-1');
+      expect(http.get).toHaveBeenNthCalledWith(2, `/organization/${config.wxcc.organizationId}/overrides/container-1`);
+    });
+
+    it('should keep a separate circuit breaker per organization', async () => {
+      const { client, http } = createClient();
+      const organization = { id: 'org-2', name: 'Acme', baseUrl: 'https://api.wxcc-us1.cisco.com', timezone: 'UTC' };
+      http.get.mockImplementation(async (url: string) => {
+        if (url.startsWith('/organization/org-2/')) throw httpError(503);
+        return { data: container, status: 200, headers: {} };
+      });
+
+      await expect(runWithContext({ organization }, () => client.getOverrideContainerById('container-1'))).rejects.toThrow('503');
+      await expect(runWithContext({ organization }, () => client.getOverrideContainerById('container-1'))).rejects.toThrow('circuit breaker is open');
+
+      // Other organizations are unaffected
+      await expect(client.getOverrideContainerById('container-1')).resolves.toEqual(container);
+      expect(client.getCircuitBreakerStatus('org-2').state).toBe('open');
+      expect(client.getCircuitBreakerStatus().state).toBe('closed');
+      expect(Object.keys(client.getCircuitBreakerStatuses()).sort()).toEqual([config.wxcc.organizationId, 'org-2'].sort());
+    });
+
+    it('should open the circuit after repeated failures and refuse further calls', async () => {
+      const { client, http } = createClient();
+      http.get.mockRejectedValue(httpError(503));
+
+      // Three attempts per call with the default configuration
+      await expect(client.getOverrideContainerById('container-1')).rejects.toThrow('503');
+      await expect(client.getOverrideContainerById('container-1')).rejects.toThrow('circuit breaker is open');
+
+      expect(http.get).toHaveBeenCalledTimes(config.api.circuitBreakerThreshold);
+      expect(client.getCircuitBreakerStatus()).toEqual(expect.objectContaining({
+        state: 'open',
+        consecutiveFailures: config.api.circuitBreakerThreshold
+      }));
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import axios from 'axios';
+import { WxccSimulator } from '../services/wxccSimulator';
+import { WxccApiClient } from '../services/wxccApiClient';
+import { createWxccBackend } from '../services/wxccBackend';
+import { WxccOverrideContainer } from '../types';
+import { VersionConflictError } from '../utils/errors';
+import { runWithContext, getDefaultOrganization } from '../utils/requestContext';
+
+const ORG_ID = 'org-1';
+
+const seedContainer = (organizationId: string): WxccOverrideContainer => ({
+  id: 'container-1',
+  organizationId,
+  version: 1,
+  name: 'Sales Team Override',
+  timezone: 'UTC',
+  createdTime: '2024-01-01T00:00',
+  lastModifiedTime: '2024-01-01T00:00',
+  overrides: [
+    { name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00', endDateTime: '2030-01-01T12:00' },
+    { name: 'bob', workingHours: true, startDateTime: '2030-01-01T12:00', endDateTime: '2030-01-01T16:00' }
+  ]
+});
+
+const statusOf = (error: unknown): number | undefined =>
+  axios.isAxiosError(error) ? error.response?.status : undefined;
+
+describe('WxccSimulator', () => {
+  let simulator: WxccSimulator;
+
+  beforeEach(() => {
+    simulator = new WxccSimulator(organizationId => [seedContainer(organizationId)]);
+  });
+
+  it('should be selected by the backend type', () => {
+    expect(createWxccBackend('simulator')).toBeInstanceOf(WxccSimulator);
+    expect(createWxccBackend('http')).not.toBeInstanceOf(WxccSimulator);
+  });
+
+  it('should seed each organization with mock containers by default', async () => {
+    const seeded = new WxccSimulator();
+
+    const containers = await seeded.listContainers('org-2');
+    const details = await seeded.getContainer('org-2', containers[0].id);
+
+    expect(containers.length).toBeGreaterThan(0);
+    expect(containers.every(container => container.organizationId === 'org-2')).toBe(true);
+    expect(containers[0].overrides).toBeUndefined();
+    expect(details.overrides?.length).toBeGreaterThan(0);
+  });
+
+  it('should store a complete container at the current version and bump the version', async () => {
+    const container = await simulator.getContainer(ORG_ID, 'container-1');
+    container.overrides![0].workingHours = false;
+
+    const updated = await simulator.putContainer(ORG_ID, container);
+    const stored = await simulator.getContainer(ORG_ID, 'container-1');
+
+    expect(updated.version).toBe(2);
+    expect(stored.version).toBe(2);
+    expect(stored.overrides![0].workingHours).toBe(false);
+    expect(stored.createdTime).toBe('2024-01-01T00:00');
+  });
+
+  it('should reject a PUT with a stale version with 409', async () => {
+    const stale = await simulator.getContainer(ORG_ID, 'container-1');
+    await simulator.putContainer(ORG_ID, { ...stale });
+
+    const error = await simulator.putContainer(ORG_ID, stale).catch(e => e);
+
+    expect(statusOf(error)).toBe(409);
+  });
+
+  it('should reject incomplete or malformed containers with 400', async () => {
+    const container = await simulator.getContainer(ORG_ID, 'container-1');
+
+    const partial = await simulator.putContainer(ORG_ID, { ...container, overrides: undefined }).catch(e => e);
+    const isoDates = await simulator.putContainer(ORG_ID, {
+      ...container,
+      overrides: [{ name: 'alice', workingHours: true, startDateTime: '2030-01-01T08:00:00.000Z', endDateTime: '2030-01-01T12:00' }]
+    }).catch(e => e);
+    const duplicate = await simulator.putContainer(ORG_ID, {
+      ...container,
+      overrides: [container.overrides![0], container.overrides![0]]
+    }).catch(e => e);
+    const otherOrg = await simulator.putContainer(ORG_ID, { ...container, organizationId: 'org-2' }).catch(e => e);
+
+    [partial, isoDates, duplicate, otherOrg].forEach(error => expect(statusOf(error)).toBe(400));
+    expect((await simulator.getContainer(ORG_ID, 'container-1')).version).toBe(1);
+  });
+
+  it('should keep organizations apart', async () => {
+    await simulator.deleteContainer(ORG_ID, 'container-1');
+
+    const error = await simulator.getContainer(ORG_ID, 'container-1').catch(e => e);
+
+    expect(statusOf(error)).toBe(404);
+    expect((await simulator.getContainer('org-2', 'container-1')).organizationId).toBe('org-2');
+  });
+
+  describe('behind WxccApiClient', () => {
+    const organization = { ...getDefaultOrganization(), id: ORG_ID, timezone: 'UTC' };
+    const inOrganization = <T>(fn: () => Promise<T>): Promise<T> => runWithContext({ organization }, fn);
+
+    it('should run the create, update and delete workflows end to end', async () => {
+      const client = new WxccApiClient(simulator);
+
+      const created = await inOrganization(() => client.createOverrideContainer({ name: 'Support', timezone: 'Europe/London' }));
+      await inOrganization(() => client.createOverride(created.id, {
+        name: 'carol',
+        workingHours: true,
+        startDateTime: '2030-06-01T08:00:00.000Z',
+        endDateTime: '2030-06-01T12:00:00.000Z'
+      }));
+      const updated = await inOrganization(() => client.updateOverride(created.id, 'carol', { workingHours: false }));
+      await inOrganization(() => client.deleteOverride('container-1', 'bob'));
+
+      const stored = await simulator.getContainer(ORG_ID, created.id);
+      expect(updated.workingHours).toBe(false);
+      expect(stored.version).toBe(3);
+      // Stored as wall-clock time in the container timezone (BST)
+      expect(stored.overrides).toEqual([
+        { name: 'carol', workingHours: false, startDateTime: '2030-06-01T09:00', endDateTime: '2030-06-01T13:00' }
+      ]);
+      expect((await simulator.getContainer(ORG_ID, 'container-1')).overrides?.map(o => o.name)).toEqual(['alice']);
+    });
+
+    it('should report a field-level conflict for a stale write to the same fields', async () => {
+      const client = new WxccApiClient(simulator);
+      await inOrganization(() => client.getOverrideContainerById('container-1'));
+
+      // Someone else changes alice after our read of version 1
+      const current = await simulator.getContainer(ORG_ID, 'container-1');
+      current.overrides![0].endDateTime = '2030-01-01T10:00';
+      await simulator.putContainer(ORG_ID, current);
+
+      const update = inOrganization(() => client.updateOverride('container-1', 'alice', { endDateTime: '2030-01-01T14:00' }, 1));
+
+      await expect(update).rejects.toBeInstanceOf(VersionConflictError);
+      expect((await simulator.getContainer(ORG_ID, 'container-1')).overrides![0].endDateTime).toBe('2030-01-01T10:00');
+    });
+  });
+});
@@ -1,4 +1,19 @@
-import { WxccApiConfig } from '../types';
+import path from 'path';
+import { WxccApiConfig, WxccBackendType, ScheduleConflictPolicy, ApiKeyConfig, AuthConfig, Role, ROLES } from '../types';
+
+/**
+ * Parse API_KEYS, a comma-separated list of `name:role:key` entries
+ * Roles are checked by validateConfig, so a typo fails startup instead of locking a client out.
+ */
+export const parseApiKeys = (value: string): ApiKeyConfig[] =>
+  value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => {
+      const [name, role, ...key] = entry.split(':');
+      return { name, role: role as Role, key: key.join(':') };
+    });
 
 export const config = {
   port: process.env.PORT || 3000,
@@ -6,12 +21,32 @@ export const config = {
   
   // WxCC API Configuration
   wxcc: {
+    // 'simulator' keeps containers in memory instead of calling WxCC; no credentials needed
+    backend: (process.env.WXCC_BACKEND === 'simulator' ? 'simulator' : 'http') as WxccBackendType,
     baseUrl: process.env.WXCC_API_BASE_URL || 'https://api.wxcc-eu2.cisco.com',
     accessToken: process.env.WXCC_ACCESS_TOKEN || '',
     organizationId: process.env.WXCC_ORG_ID || '',
-    timeout: parseInt(process.env.WXCC_API_TIMEOUT || '30000')
+    timeout: parseInt(process.env.WXCC_API_TIMEOUT || '30000'),
+    refreshToken: process.env.WXCC_REFRESH_TOKEN || '',
+    clientId: process.env.WXCC_CLIENT_ID || '',
+    clientSecret: process.env.WXCC_CLIENT_SECRET || '',
+    tokenUrl: process.env.WXCC_TOKEN_URL || 'https://webexapis.com/v1/access_token'
   } as WxccApiConfig,
 
+  // API authentication: API keys and locally verified JWTs, each carrying a role
+  auth: {
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    apiKeys: parseApiKeys(process.env.API_KEYS || ''),
+    jwtSecret: process.env.JWT_SECRET || '',
+    jwtIssuer: process.env.JWT_ISSUER || undefined,
+    jwtAudience: process.env.JWT_AUDIENCE || undefined
+  } as AuthConfig,
+
+  // SQLite database of mappings, organizations, schedules and the audit log
+  database: {
+    path: process.env.DATABASE_PATH || path.join(process.cwd(), 'wxcc_mappings.db')
+  },
+
   // Logging configuration
   logging: {
     level: process.env.LOG_LEVEL || 'info',
@@ -23,25 +58,90 @@ export const config = {
   api: {
     retryAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3'),
     retryDelay: parseInt(process.env.API_RETRY_DELAY || '1000'),
+    retryMaxDelay: parseInt(process.env.API_RETRY_MAX_DELAY || '30000'), // longest backoff or Retry-After wait
+    circuitBreakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'), // consecutive failures
+    circuitBreakerResetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000'),
     rateLimitWindow: parseInt(process.env.RATE_LIMIT_WINDOW || '900000'), // 15 minutes
-    rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '100')
+    rateLimitMax: parseInt(process.env.RATE_LIMIT_MAX || '100'), // reads (GET) per client per window; 0 disables
+    rateLimitWriteMax: parseInt(process.env.RATE_LIMIT_WRITE_MAX || '30'), // writes per client per window; 0 disables
+    rateLimitAuthFailureMax: parseInt(process.env.RATE_LIMIT_AUTH_FAILURE_MAX || '10'), // failed authentications per IP per window; 0 disables
+    fetchConcurrency: parseInt(process.env.WXCC_FETCH_CONCURRENCY || '5') // container detail fetches in flight at once
+  },
+
+  // In-memory cache of WxCC container data; 0 disables it
+  cache: {
+    containerTtl: parseInt(process.env.CONTAINER_CACHE_TTL || '30000') // 30 seconds
+  },
+
+  // Recurring schedule generation
+  recurrence: {
+    horizonDays: parseInt(process.env.RECURRENCE_HORIZON_DAYS || '28')
+  },
+
+  // Schedule validation
+  scheduling: {
+    conflictPolicy: (process.env.SCHEDULE_CONFLICT_POLICY === 'cross-container'
+      ? 'cross-container'
+      : 'container') as ScheduleConflictPolicy
+  }
+};
+
+/**
+ * Whether WxCC can be called: a static access token, or a refresh token to obtain one
+ */
+export const hasWxccCredentials = (): boolean =>
+  Boolean(config.wxcc.accessToken || config.wxcc.refreshToken);
+
+/**
+ * Check the authentication settings; API keys with an unknown role fail startup
+ */
+const validateAuthConfig = (): void => {
+  if (!config.auth.enabled) {
+    console.warn('Warning: AUTH_ENABLED=false, every API route is open to anyone who can reach the port.');
+    return;
+  }
+
+  for (const apiKey of config.auth.apiKeys) {
+    if (!apiKey.name || !apiKey.key || !ROLES.includes(apiKey.role)) {
+      throw new Error(`API_KEYS entries must be name:role:key with a role of ${ROLES.join(', ')}`);
+    }
+  }
+
+  if (config.auth.apiKeys.length === 0 && !config.auth.jwtSecret) {
+    if (config.nodeEnv === 'development') {
+      console.warn('Warning: neither API_KEYS nor JWT_SECRET is set, so every API request will be rejected. Set AUTH_ENABLED=false to run without authentication.');
+      return;
+    }
+    throw new Error('API_KEYS or JWT_SECRET is required unless AUTH_ENABLED=false');
   }
 };
 
 export const validateConfig = (): void => {
-  // In development mode, allow missing WxCC credentials (will use mock data)
+  validateAuthConfig();
+
+  // The simulator stands in for WxCC, so neither credentials nor an organization are needed
+  if (config.wxcc.backend === 'simulator') {
+    console.warn('Warning: WXCC_BACKEND=simulator, WxCC calls are served by the in-process simulator.');
+    return;
+  }
+
+  // In development mode, allow missing WxCC credentials
   if (config.nodeEnv === 'development') {
-    if (!config.wxcc.accessToken) {
-      console.warn('Warning: WXCC_ACCESS_TOKEN not provided in development mode. Using mock data.');
+    if (!hasWxccCredentials()) {
+      console.warn('Warning: WXCC_ACCESS_TOKEN or WXCC_REFRESH_TOKEN not provided in development mode. Set WXCC_BACKEND=simulator to work offline.');
     }
     if (!config.wxcc.organizationId) {
-      console.warn('Warning: WXCC_ORG_ID not provided in development mode. Using mock data.');
+      console.warn('Warning: WXCC_ORG_ID not provided in development mode. Set WXCC_BACKEND=simulator to work offline.');
     }
     return;
   }
   
-  if (!config.wxcc.accessToken) {
-    throw new Error('WXCC_ACCESS_TOKEN environment variable is required');
+  if (!hasWxccCredentials()) {
+    throw new Error('WXCC_ACCESS_TOKEN or WXCC_REFRESH_TOKEN environment variable is required');
+  }
+
+  if (config.wxcc.refreshToken && (!config.wxcc.clientId || !config.wxcc.clientSecret)) {
+    throw new Error('WXCC_CLIENT_ID and WXCC_CLIENT_SECRET are required with WXCC_REFRESH_TOKEN');
   }
   
   if (!config.wxcc.organizationId) {
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { auditService } from '../services/auditService';
+import { AuditLogQuery } from '../types';
+
+export class AuditController {
+
+  /**
+   * GET /api/audit?override=&container=&actor=&from=&to=&limit=&offset=
+   * Audit entries of schedule and mapping changes, newest first
+   */
+  async getAuditEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Filters are renamed, normalized and defaulted by auditQuerySchema
+      const entries = await auditService.getEntries(req.query as unknown as AuditLogQuery);
+
+      res.json({
+        success: true,
+        data: entries,
+        count: entries.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const auditController = new AuditController();
@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { coverageService } from '../services/coverageService';
+import { CoverageQuery, CoverageRulesRequest } from '../types';
+import { logger } from '../utils/logger';
+
+export class CoverageController {
+
+  /**
+   * GET /api/overrides/containers/:id/coverage-rules
+   * Get the coverage rules of a container (defaults if none are stored)
+   */
+  async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await coverageService.getRules(req.params.id);
+
+      res.json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/overrides/containers/:id/coverage-rules
+   * Create or replace the coverage rules of a container
+   */
+  async setRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body: CoverageRulesRequest = req.body;
+      const cleanRequest: CoverageRulesRequest = {
+        maxConcurrent: body.maxConcurrent,
+        minCoverage: body.minCoverage,
+        allowedWindows: (body.allowedWindows || []).map(window => ({
+          daysOfWeek: Array.from(new Set(window.daysOfWeek)).sort((a, b) => a - b),
+          startTime: window.startTime,
+          endTime: window.endTime
+        }))
+      };
+
+      logger.info('Setting coverage rules', {
+        operation: 'set_coverage_rules',
+        containerId: req.params.id,
+        request: cleanRequest,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const rules = await coverageService.setRules(req.params.id, cleanRequest);
+
+      res.json({
+        success: true,
+        data: rules,
+        message: `Coverage rules saved for container ${req.params.id}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/overrides/containers/:id/coverage-rules
+   * Remove the coverage rules of a container, restoring the defaults
+   */
+  async deleteRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await coverageService.deleteRules(req.params.id);
+
+      res.json({
+        success: true,
+        message: `Coverage rules removed for container ${req.params.id}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/overrides/containers/:id/coverage?from=&to=
+   * Covered segments, gaps and double-booked segments of a container over a time range
+   */
+  async getCoverage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { from, to } = req.query as CoverageQuery;
+
+      logger.info('Getting container coverage', {
+        operation: 'get_coverage',
+        containerId: req.params.id,
+        from,
+        to,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const analysis = await coverageService.analyzeCoverage(req.params.id, { from, to });
+
+      res.json({
+        success: true,
+        data: analysis,
+        message: `${analysis.gaps.length} gaps and ${analysis.doubleBooked.length} double-booked segments`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const coverageController = new CoverageController();
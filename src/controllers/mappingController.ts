@@ -1,4 +1,4 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { mappingService } from '../services/mappingService';
 import { MappingRequest, WorkingHoursToggleRequest } from '../types';
 import { logger } from '../utils/logger';
@@ -9,7 +9,7 @@ export class MappingController {
    * GET /api/overrides/mappings
    * Fetch all override mappings with WxCC context
    */
-  async getAllMappings(req: Request, res: Response): Promise<void> {
+  async getAllMappings(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       logger.info('Getting all override mappings', { 
         operation: 'get_all_mappings',
@@ -17,14 +17,17 @@ export class MappingController {
         url: req.originalUrl 
       });
 
-      const mappings = await mappingService.getAllMappings();
+      const { data: mappings, cache, failures } = await mappingService.getAllMappings();
 
       res.json({
         success: true,
         data: mappings,
         count: mappings.length,
         mappedCount: mappings.filter(m => m.isMapped).length,
-        unmappedCount: mappings.filter(m => !m.isMapped).length
+        unmappedCount: mappings.filter(m => !m.isMapped).length,
+        cache,
+        failures,
+        ...(failures.length > 0 && { warning: `${failures.length} containers could not be loaded` })
       });
 
       logger.info('Successfully returned all mappings', { 
@@ -32,18 +35,7 @@ export class MappingController {
         mappedCount: mappings.filter(m => m.isMapped).length
       });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to get all mappings', { 
-        error: errorMessage,
-        method: req.method,
-        url: req.originalUrl 
-      });
-
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error',
-        message: 'Failed to fetch override mappings'
-      });
+      next(error);
     }
   }
 
@@ -51,34 +43,9 @@ export class MappingController {
    * POST /api/overrides/map
    * Create or update an agent mapping
    */
-  async createMapping(req: Request, res: Response): Promise<void> {
+  async createMapping(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { overrideName, agentName }: MappingRequest = req.body;
-
-      // Validate required fields
-      if (!overrideName || !agentName) {
-        res.status(400).json({
-          success: false,
-          error: 'Validation error',
-          message: 'overrideName and agentName are required'
-        });
-        return;
-      }
-
-      // Trim whitespace
-      const cleanRequest: MappingRequest = {
-        overrideName: overrideName.trim(),
-        agentName: agentName.trim()
-      };
-
-      if (!cleanRequest.overrideName || !cleanRequest.agentName) {
-        res.status(400).json({
-          success: false,
-          error: 'Validation error',
-          message: 'overrideName and agentName cannot be empty'
-        });
-        return;
-      }
+      const cleanRequest: MappingRequest = req.body;
 
       logger.info('Creating agent mapping', { 
         operation: 'create_mapping',
@@ -101,29 +68,7 @@ export class MappingController {
         agentName: cleanRequest.agentName
       });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to create mapping', { 
-        error: errorMessage,
-        overrideName: req.body?.overrideName,
-        method: req.method,
-        url: req.originalUrl 
-      });
-
-      // Check if it's a validation error (override not found)
-      if (errorMessage.includes('not found in WxCC')) {
-        res.status(404).json({
-          success: false,
-          error: 'Override not found',
-          message: errorMessage
-        });
-        return;
-      }
-
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error',
-        message: 'Failed to create agent mapping'
-      });
+      next(error);
     }
   }
 
@@ -131,33 +76,9 @@ export class MappingController {
    * PATCH /api/overrides/working-hours
    * Toggle working hours for a mapped override
    */
-  async updateWorkingHours(req: Request, res: Response): Promise<void> {
+  async updateWorkingHours(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { overrideName, workingHoursActive }: WorkingHoursToggleRequest = req.body;
-
-      // Validate required fields
-      if (!overrideName || typeof workingHoursActive !== 'boolean') {
-        res.status(400).json({
-          success: false,
-          error: 'Validation error',
-          message: 'overrideName (string) and workingHoursActive (boolean) are required'
-        });
-        return;
-      }
-
-      const cleanRequest: WorkingHoursToggleRequest = {
-        overrideName: overrideName.trim(),
-        workingHoursActive
-      };
-
-      if (!cleanRequest.overrideName) {
-        res.status(400).json({
-          success: false,
-          error: 'Validation error',
-          message: 'overrideName cannot be empty'
-        });
-        return;
-      }
+      const cleanRequest: WorkingHoursToggleRequest = req.body;
 
       logger.info('Updating working hours status', { 
         operation: 'update_working_hours',
@@ -180,38 +101,7 @@ export class MappingController {
         workingHoursActive: cleanRequest.workingHoursActive
       });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to update working hours', { 
-        error: errorMessage,
-        overrideName: req.body?.overrideName,
-        method: req.method,
-        url: req.originalUrl 
-      });
-
-      // Check for specific error types
-      if (errorMessage.includes('No mapping found')) {
-        res.status(404).json({
-          success: false,
-          error: 'Mapping not found',
-          message: errorMessage
-        });
-        return;
-      }
-
-      if (errorMessage.includes('Validation failed')) {
-        res.status(409).json({
-          success: false,
-          error: 'Schedule conflict',
-          message: errorMessage
-        });
-        return;
-      }
-
-      res.status(500).json({
-        success: false,
-        error: 'Internal server error',
-        message: 'Failed to update working hours'
-      });
+      next(error);
     }
   }
 }
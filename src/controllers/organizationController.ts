@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction } from 'express';
+import { organizationService } from '../services/organizationService';
+import { CreateOrganizationRequest, UpdateOrganizationRequest } from '../types';
+import { logger } from '../utils/logger';
+
+export class OrganizationController {
+
+  /**
+   * GET /api/orgs
+   * List registered organizations
+   */
+  async getOrganizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organizations = await organizationService.getOrganizations();
+
+      res.json({
+        success: true,
+        data: organizations,
+        count: organizations.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/orgs/:orgId
+   * Get one organization; credentials are reported but never returned
+   */
+  async getOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const organization = await organizationService.getOrganization(req.params.orgId);
+
+      res.json({
+        success: true,
+        data: organization
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/orgs
+   * Register an organization
+   */
+  async createOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body: CreateOrganizationRequest = req.body;
+
+      logger.info('Creating organization', {
+        operation: 'create_organization',
+        organizationId: body.id,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const organization = await organizationService.createOrganization({
+        id: body.id,
+        name: body.name,
+        baseUrl: body.baseUrl.replace(/\/+$/, ''),
+        timezone: body.timezone,
+        accessToken: body.accessToken || undefined,
+        refreshToken: body.refreshToken || undefined,
+        clientId: body.clientId || undefined,
+        clientSecret: body.clientSecret || undefined,
+        tokenUrl: body.tokenUrl || undefined
+      });
+
+      res.status(201).json({
+        success: true,
+        data: organization,
+        message: `Organization ${organization.id} registered`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/orgs/:orgId
+   * Change a registered organization; an empty string clears an optional credential
+   */
+  async updateOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const changes: UpdateOrganizationRequest = { ...req.body };
+      if (changes.baseUrl !== undefined) changes.baseUrl = changes.baseUrl.replace(/\/+$/, '');
+
+      logger.info('Updating organization', {
+        operation: 'update_organization',
+        organizationId: req.params.orgId,
+        updatedFields: Object.keys(changes),
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const organization = await organizationService.updateOrganization(req.params.orgId, changes);
+
+      res.json({
+        success: true,
+        data: organization,
+        message: `Organization ${organization.id} updated`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/orgs/:orgId
+   * Remove a registered organization; its agent mappings are kept
+   */
+  async deleteOrganization(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await organizationService.deleteOrganization(req.params.orgId);
+
+      res.json({
+        success: true,
+        message: `Organization ${req.params.orgId} removed`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const organizationController = new OrganizationController();
@@ -1,9 +1,15 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { overrideService } from '../services/overrideService';
-import { UpdateAgentRequest } from '../types';
+import {
+  UpdateAgentRequest,
+  CreateAgentRequest,
+  CreateContainerRequest,
+  UpdateContainerRequest,
+  CloneContainerRequest,
+  BulkUpdateRequest
+} from '../types';
 import { logger } from '../utils/logger';
-import { mockContainers, mockActiveAgents } from '../utils/mockData';
-import { config } from '../config';
+import { ValidationError } from '../utils/errors';
 
 export class OverrideController {
 
@@ -11,39 +17,23 @@ export class OverrideController {
    * GET /api/overrides/containers
    * Get all override containers with their agents and status
    */
-  async getAllContainers(req: Request, res: Response): Promise<void> {
+  async getAllContainers(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       logger.info('API: Get all containers', { 
         endpoint: '/api/overrides/containers',
         method: 'GET'
       });
 
-      // In development mode, use mock data if WxCC API is not available
-      if (config.nodeEnv === 'development' && !config.wxcc.accessToken) {
-        logger.info('Using mock data for development', { endpoint: '/api/overrides/containers' });
-        res.json({
-          success: true,
-          data: mockContainers,
-          count: mockContainers.length,
-          mock: true
-        });
-        return;
-      }
-
-      const containers = await overrideService.getAllContainersWithAgents();
-      
-      // Convert to frontend-friendly format
-      const containerResponses = await Promise.all(
-        containers.map(container => 
-          overrideService.getContainerForFrontend(container.id)
-        )
-      );
+      // Converted to frontend-friendly format from the same read
+      const { data: containerResponses, cache, failures } = await overrideService.getAllContainersForFrontend();
 
       // Debug logging: Log final data being sent to frontend for diagnosis
       logger.info('Sending container data to frontend', {
         endpoint: '/api/overrides/containers', 
         finalContainerResponses: containerResponses,
         responseCount: containerResponses.length,
+        failureCount: failures.length,
+        cache,
         responseStructure: containerResponses.map(container => ({
           id: container.id,
           name: container.name,
@@ -56,83 +46,156 @@ export class OverrideController {
       res.json({
         success: true,
         data: containerResponses,
-        count: containerResponses.length
+        count: containerResponses.length,
+        cache,
+        failures,
+        ...(failures.length > 0 && { warning: `${failures.length} containers could not be loaded` })
       });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // In development mode, fall back to mock data on API error
-      if (config.nodeEnv === 'development') {
-        logger.warn('API failed, using mock data for development', {
-          endpoint: '/api/overrides/containers',
-          error: errorMessage
-        });
-        res.json({
-          success: true,
-          data: mockContainers,
-          count: mockContainers.length,
-          mock: true,
-          warning: 'Using mock data - WxCC API not available'
-        });
-        return;
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/overrides/containers/:id
+   * Get specific container details with agents
+   */
+  async getContainerById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      logger.info('API: Get container by ID', {
+        endpoint: `/api/overrides/containers/${id}`,
+        method: 'GET',
+        containerId: id
+      });
+
+      const { data: containerResponse, cache } = await overrideService.getContainerForFrontend(id);
+
+      if (containerResponse.version !== undefined) {
+        res.set('ETag', `"${containerResponse.version}"`);
       }
 
-      logger.error('Failed to get all containers', {
+      res.json({
+        success: true,
+        data: containerResponse,
+        cache
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/containers
+   * Create a new, empty override container
+   */
+  async createContainer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const createData: CreateContainerRequest = req.body;
+
+      logger.info('API: Create container', {
         endpoint: '/api/overrides/containers',
-        error: errorMessage
+        method: 'POST',
+        createData
       });
 
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch containers',
-        message: errorMessage
+      const container = await overrideService.createContainer(createData);
+
+      res.status(201).json({
+        success: true,
+        data: container,
+        message: 'Container created successfully'
       });
+
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
-   * GET /api/overrides/containers/:id
-   * Get specific container details with agents
+   * PATCH /api/overrides/containers/:id
+   * Edit a container's name, description and/or timezone
    */
-  async getContainerById(req: Request, res: Response): Promise<void> {
+  async updateContainer(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      const updateData: UpdateContainerRequest = req.body;
 
-      logger.info('API: Get container by ID', {
+      logger.info('API: Update container', {
         endpoint: `/api/overrides/containers/${id}`,
-        method: 'GET',
-        containerId: id
+        method: 'PATCH',
+        containerId: id,
+        updateData
       });
 
-      const containerResponse = await overrideService.getContainerForFrontend(id);
+      const container = await overrideService.updateContainer(id, updateData);
 
       res.json({
         success: true,
-        data: containerResponse
+        data: container,
+        message: 'Container updated successfully'
       });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to get container by ID', {
-        endpoint: `/api/overrides/containers/${req.params.id}`,
-        containerId: req.params.id,
-        error: errorMessage
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/containers/:id/clone
+   * Create a copy of a container with all of its overrides
+   */
+  async cloneContainer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const cloneData: CloneContainerRequest = req.body;
+
+      logger.info('API: Clone container', {
+        endpoint: `/api/overrides/containers/${id}/clone`,
+        method: 'POST',
+        containerId: id,
+        cloneData
       });
 
-      if (errorMessage.includes('Failed to fetch container')) {
-        res.status(404).json({
-          success: false,
-          error: 'Container not found',
-          message: errorMessage
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: 'Failed to fetch container',
-          message: errorMessage
-        });
-      }
+      const container = await overrideService.cloneContainer(id, cloneData);
+
+      res.status(201).json({
+        success: true,
+        data: container,
+        message: 'Container cloned successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/overrides/containers/:id
+   * Delete a container and all of its overrides
+   */
+  async deleteContainer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      logger.info('API: Delete container', {
+        endpoint: `/api/overrides/containers/${id}`,
+        method: 'DELETE',
+        containerId: id
+      });
+
+      await overrideService.deleteContainer(id);
+
+      res.json({
+        success: true,
+        message: 'Container deleted successfully'
+      });
+
+    } catch (error) {
+      next(error);
     }
   }
 
@@ -140,7 +203,7 @@ export class OverrideController {
    * PUT /api/overrides/containers/:containerId/agents/:agentId
    * Update agent schedule with validation
    */
-  async updateAgentSchedule(req: Request, res: Response): Promise<void> {
+  async updateAgentSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { containerId, agentId } = req.params;
       const updateData: UpdateAgentRequest = req.body;
@@ -153,52 +216,17 @@ export class OverrideController {
         updateData
       });
 
-      // Validate request body
-      if (!this.isValidUpdateRequest(updateData)) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid request data',
-          message: 'workingHours, startDateTime, and endDateTime are required'
-        });
-        return;
+      // Optional optimistic concurrency: If-Match carries the container version the client last saw
+      const expectedVersion = this.parseIfMatchVersion(req.get('If-Match'));
+      if (expectedVersion === null) {
+        throw new ValidationError('If-Match header must be a container version number');
       }
 
-      // In development mode, use mock response if WxCC API is not available
-      if (config.nodeEnv === 'development' && !config.wxcc.accessToken) {
-        logger.info('Using mock response for development', { 
-          endpoint: `/api/overrides/containers/${containerId}/agents/${agentId}` 
-        });
-        
-        // Find the agent in mock data and simulate update
-        const container = mockContainers.find(c => c.id === containerId);
-        const agent = container?.agents.find(a => a.agentId === agentId);
-        
-        if (!agent) {
-          res.status(404).json({
-            success: false,
-            error: 'Agent not found',
-            message: `Agent ${agentId} not found in container ${containerId}`
-          });
-          return;
-        }
-
-        const updatedAgent = {
-          ...agent,
-          workingHours: updateData.workingHours,
-          startDateTime: updateData.startDateTime,
-          endDateTime: updateData.endDateTime
-        };
-
-        res.json({
-          success: true,
-          data: updatedAgent,
-          message: 'Agent schedule updated successfully (mock)',
-          mock: true
-        });
-        return;
-      }
+      const updatedAgent = await overrideService.updateAgentSchedule(containerId, agentId, updateData, expectedVersion);
 
-      const updatedAgent = await overrideService.updateAgentSchedule(containerId, agentId, updateData);
+      if (updatedAgent.containerVersion !== undefined) {
+        res.set('ETag', `"${updatedAgent.containerVersion}"`);
+      }
 
       res.json({
         success: true,
@@ -207,60 +235,161 @@ export class OverrideController {
       });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // In development mode, provide mock response on API error
-      if (config.nodeEnv === 'development') {
-        logger.warn('API failed, using mock response for development', {
-          endpoint: `/api/overrides/containers/${req.params.containerId}/agents/${req.params.agentId}`,
-          error: errorMessage
-        });
-        
-        res.json({
-          success: true,
-          data: {
-            agentId: req.params.agentId,
-            containerId: req.params.containerId,
-            containerName: 'Mock Container',
-            workingHours: req.body.workingHours,
-            startDateTime: req.body.startDateTime,
-            endDateTime: req.body.endDateTime,
-            status: req.body.workingHours ? 'active' : 'inactive',
-            isCurrentlyActive: false
-          },
-          message: 'Agent schedule updated successfully (mock - API not available)',
-          mock: true,
-          warning: 'Using mock response - WxCC API not available'
-        });
-        return;
-      }
+      next(error);
+    }
+  }
 
-      logger.error('Failed to update agent schedule', {
-        endpoint: `/api/overrides/containers/${req.params.containerId}/agents/${req.params.agentId}`,
-        containerId: req.params.containerId,
-        agentId: req.params.agentId,
-        error: errorMessage
+  /**
+   * GET /api/overrides/containers/:containerId/agents/:agentId/versions
+   * Version history of an agent's schedule, newest first
+   */
+  async getAgentScheduleVersions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { containerId, agentId } = req.params;
+
+      const versions = await overrideService.getAgentScheduleVersions(containerId, agentId);
+
+      res.json({
+        success: true,
+        data: versions,
+        count: versions.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/containers/:containerId/agents/:agentId/versions/:version/restore
+   * Restore an earlier version of an agent's schedule, validated like any update
+   */
+  async restoreAgentSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { containerId, agentId } = req.params;
+      const version = Number(req.params.version);
+
+      logger.info('API: Restore agent schedule', {
+        endpoint: `/api/overrides/containers/${containerId}/agents/${agentId}/versions/${req.params.version}/restore`,
+        method: 'POST',
+        containerId,
+        agentId,
+        version: req.params.version
       });
 
-      if (errorMessage.includes('Validation failed')) {
-        res.status(400).json({
-          success: false,
-          error: 'Validation error',
-          message: errorMessage
-        });
-      } else if (errorMessage.includes('not found')) {
-        res.status(404).json({
-          success: false,
-          error: 'Resource not found',
-          message: errorMessage
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          error: 'Failed to update agent schedule',
-          message: errorMessage
-        });
+      const expectedVersion = this.parseIfMatchVersion(req.get('If-Match'));
+      if (expectedVersion === null) {
+        throw new ValidationError('If-Match header must be a container version number');
       }
+
+      const restoredAgent = await overrideService.restoreAgentSchedule(containerId, agentId, version, expectedVersion);
+
+      if (restoredAgent.containerVersion !== undefined) {
+        res.set('ETag', `"${restoredAgent.containerVersion}"`);
+      }
+
+      res.json({
+        success: true,
+        data: restoredAgent,
+        message: `Agent schedule restored to version ${version}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/containers/:containerId/agents
+   * Add a new agent override to a container with validation
+   */
+  async createAgentSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { containerId } = req.params;
+      const createData: CreateAgentRequest = req.body;
+
+      logger.info('API: Create agent schedule', {
+        endpoint: `/api/overrides/containers/${containerId}/agents`,
+        method: 'POST',
+        containerId,
+        createData
+      });
+
+      const createdAgent = await overrideService.createAgentSchedule(containerId, createData);
+
+      res.status(201).json({
+        success: true,
+        data: createdAgent,
+        message: 'Agent schedule created successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/overrides/containers/:containerId/agents/:agentId
+   * Remove an agent override from a container
+   */
+  async deleteAgentSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { containerId, agentId } = req.params;
+
+      logger.info('API: Delete agent schedule', {
+        endpoint: `/api/overrides/containers/${containerId}/agents/${agentId}`,
+        method: 'DELETE',
+        containerId,
+        agentId
+      });
+
+      await overrideService.deleteAgentSchedule(containerId, agentId);
+
+      res.json({
+        success: true,
+        message: 'Agent schedule deleted successfully'
+      });
+
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/schedules/bulk
+   * Update many agent schedules across containers, validated as one batch
+   */
+  async bulkUpdateAgentSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const bulkRequest: BulkUpdateRequest = req.body;
+
+      logger.info('API: Bulk update agent schedules', {
+        endpoint: '/api/overrides/schedules/bulk',
+        method: 'POST',
+        itemCount: bulkRequest.updates.length,
+        atomic: bulkRequest.atomic
+      });
+
+      const result = await overrideService.bulkUpdateAgentSchedules({
+        updates: bulkRequest.updates,
+        atomic: bulkRequest.atomic === true
+      });
+
+      const allSucceeded = result.failureCount === 0;
+      const onlyValidationErrors = result.results.every(item =>
+        item.success || (item.errors || []).every(error => error.field !== 'wxcc')
+      );
+      const status = allSucceeded ? 200 : result.applied ? 207 : onlyValidationErrors ? 400 : 500;
+
+      res.status(status).json({
+        success: allSucceeded,
+        data: result,
+        message: allSucceeded
+          ? `Updated ${result.successCount} agent schedules`
+          : `${result.failureCount} of ${result.results.length} agent schedule updates failed` +
+            (result.applied ? '' : '; no changes were applied')
+      });
+
+    } catch (error) {
+      next(error);
     }
   }
 
@@ -268,65 +397,27 @@ export class OverrideController {
    * GET /api/overrides/active
    * Get currently active agents across all containers
    */
-  async getActiveAgents(req: Request, res: Response): Promise<void> {
+  async getActiveAgents(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       logger.info('API: Get active agents', {
         endpoint: '/api/overrides/active',
         method: 'GET'
       });
 
-      // In development mode, use mock data if WxCC API is not available
-      if (config.nodeEnv === 'development' && !config.wxcc.accessToken) {
-        logger.info('Using mock data for development', { endpoint: '/api/overrides/active' });
-        res.json({
-          success: true,
-          data: mockActiveAgents,
-          count: mockActiveAgents.length,
-          timestamp: new Date().toISOString(),
-          mock: true
-        });
-        return;
-      }
-
-      const activeAgents = await overrideService.getActiveAgents();
+      const { data: activeAgents, cache, failures } = await overrideService.getActiveAgents();
 
       res.json({
         success: true,
         data: activeAgents,
         count: activeAgents.length,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        cache,
+        failures,
+        ...(failures.length > 0 && { warning: `${failures.length} containers could not be loaded` })
       });
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // In development mode, fall back to mock data on API error
-      if (config.nodeEnv === 'development') {
-        logger.warn('API failed, using mock data for development', {
-          endpoint: '/api/overrides/active',
-          error: errorMessage
-        });
-        res.json({
-          success: true,
-          data: mockActiveAgents,
-          count: mockActiveAgents.length,
-          timestamp: new Date().toISOString(),
-          mock: true,
-          warning: 'Using mock data - WxCC API not available'
-        });
-        return;
-      }
-
-      logger.error('Failed to get active agents', {
-        endpoint: '/api/overrides/active',
-        error: errorMessage
-      });
-
-      res.status(500).json({
-        success: false,
-        error: 'Failed to fetch active agents',
-        message: errorMessage
-      });
+      next(error);
     }
   }
 
@@ -336,11 +427,18 @@ export class OverrideController {
    */
   async healthCheck(req: Request, res: Response): Promise<void> {
     try {
+      // Open to anyone, so only the number of open circuits is shown, not which organizations they belong to
+      const { backend, organizations } = overrideService.getWxccHealth();
+      const openCircuits = Object.values(organizations)
+        .filter(circuitBreaker => circuitBreaker.state !== 'closed').length;
+
       res.json({
         success: true,
-        status: 'healthy',
+        // Still serving, but WxCC calls for some organization are refused until its circuit closes
+        status: openCircuits === 0 ? 'healthy' : 'degraded',
         timestamp: new Date().toISOString(),
-        service: 'wxcc-overrides-api'
+        service: 'wxcc-overrides-api',
+        wxcc: { backend, openCircuits }
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -353,15 +451,31 @@ export class OverrideController {
   }
 
   /**
-   * Validate update request structure
+   * GET /api/health/wxcc
+   * Circuit breaker of every organization that has called WxCC, for admins
    */
-  private isValidUpdateRequest(data: any): data is UpdateAgentRequest {
-    return (
-      typeof data === 'object' &&
-      typeof data.workingHours === 'boolean' &&
-      typeof data.startDateTime === 'string' &&
-      typeof data.endDateTime === 'string'
-    );
+  async getWxccHealth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: overrideService.getWxccHealth()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Parse an If-Match header into a container version
+   * Returns undefined when the header is absent and null when it is malformed
+   */
+  private parseIfMatchVersion(header: string | undefined): number | undefined | null {
+    if (header === undefined || header.trim() === '' || header.trim() === '*') {
+      return undefined;
+    }
+
+    const value = header.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+    return /^\d+$/.test(value) ? parseInt(value, 10) : null;
   }
 }
 
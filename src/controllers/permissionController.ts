@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction } from 'express';
+import { permissionService } from '../services/permissionService';
+import { overrideService } from '../services/overrideService';
+import { ContainerPermissionRequest } from '../types';
+
+export class PermissionController {
+
+  /**
+   * GET /api/overrides/containers/:id/permissions
+   * Users and groups allowed to read or write a container; empty if it is open to every role
+   */
+  async getPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const permissions = await permissionService.getPermissions(req.params.id);
+
+      res.json({
+        success: true,
+        data: permissions,
+        count: permissions.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /api/overrides/containers/:id/permissions
+   * Replace the permissions of a container
+   */
+  async setPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const permissionsRequest: ContainerPermissionRequest[] = req.body.permissions;
+
+      // Make sure the container exists before restricting it
+      await overrideService.getContainerById(req.params.id);
+
+      const permissions = await permissionService.setPermissions(req.params.id, permissionsRequest);
+
+      res.json({
+        success: true,
+        data: permissions,
+        message: `Permissions saved for container ${req.params.id}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/overrides/containers/:id/permissions
+   * Remove the permissions of a container, opening it to every role
+   */
+  async deletePermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await permissionService.deletePermissions(req.params.id);
+
+      res.json({
+        success: true,
+        message: `Permissions removed for container ${req.params.id}`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const permissionController = new PermissionController();
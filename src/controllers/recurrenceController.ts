@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { recurrenceService } from '../services/recurrenceService';
+import { GenerateOverridesQuery, RecurringScheduleRequest } from '../types';
+import { logger } from '../utils/logger';
+
+export class RecurrenceController {
+
+  /**
+   * GET /api/overrides/recurring-schedules
+   * List recurring schedule templates, optionally filtered by ?containerId=
+   */
+  async getSchedules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const containerId = req.query.containerId as string | undefined;
+
+      logger.info('Getting recurring schedules', {
+        operation: 'get_recurring_schedules',
+        containerId,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const schedules = await recurrenceService.getSchedules(containerId);
+
+      res.json({
+        success: true,
+        data: schedules,
+        count: schedules.length
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/recurring-schedules
+   * Create a recurring schedule template
+   */
+  async createSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const body: RecurringScheduleRequest = req.body;
+      const cleanRequest: RecurringScheduleRequest = {
+        ...body,
+        daysOfWeek: Array.from(new Set(body.daysOfWeek)).sort((a, b) => a - b)
+      };
+
+      logger.info('Creating recurring schedule', {
+        operation: 'create_recurring_schedule',
+        request: cleanRequest,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const schedule = await recurrenceService.createSchedule(cleanRequest);
+
+      res.status(201).json({
+        success: true,
+        data: schedule,
+        message: `Recurring schedule created for '${schedule.overrideName}'`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/overrides/recurring-schedules/:id
+   * Delete a recurring schedule template
+   */
+  async deleteSchedule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = Number(req.params.id);
+
+      await recurrenceService.deleteSchedule(id);
+
+      res.json({
+        success: true,
+        message: `Recurring schedule ${id} deleted`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/overrides/recurring-schedules/:id/generate?horizonDays=28&dryRun=true
+   * Expand a template into concrete overrides for the rolling horizon
+   */
+  async generateOverrides(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = Number(req.params.id);
+      const { horizonDays, dryRun = false } = req.query as GenerateOverridesQuery;
+
+      logger.info('Generating overrides from recurring schedule', {
+        operation: 'generate_recurring_overrides',
+        scheduleId: id,
+        horizonDays,
+        dryRun,
+        method: req.method,
+        url: req.originalUrl
+      });
+
+      const result = await recurrenceService.generateOverrides(id, { horizonDays, dryRun });
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${dryRun ? 'Would create' : 'Created'} ${result.created.length} overrides; ` +
+          `${result.conflicts.length} conflicting, ${result.existing.length} already present`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+// Export singleton instance
+export const recurrenceController = new RecurrenceController();
@@ -66,11 +66,19 @@ app.get('/status', (req, res) => {
 app.use(notFoundHandler);
 app.use(errorHandler);
 
+// Stop if the database cannot be opened or migrated, rather than serving without it
+databaseService.ready().catch(error => {
+  const errorMessage = error instanceof Error ? error.message : 'Database initialization failed';
+  logger.error('Database initialization failed', { error: errorMessage });
+  process.exit(1);
+});
+
 // Start server
 const server = app.listen(config.port, () => {
   logger.info('Server started successfully', {
     port: config.port,
     environment: config.nodeEnv,
+    wxccBackend: config.wxcc.backend,
     timestamp: new Date().toISOString()
   });
 });
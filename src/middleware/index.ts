@@ -1,5 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
+import { STATUS_CODES } from 'http';
+import Joi from 'joi';
 import { logger } from '../utils/logger';
+import { organizationService } from '../services/organizationService';
+import { authService } from '../services/authService';
+import { permissionService } from '../services/permissionService';
+import { config } from '../config';
+import { ContainerAccess, RequestFieldError, Role } from '../types';
+import {
+  DomainError,
+  AuthenticationError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitError,
+  RequestValidationError,
+  VersionConflictError,
+  CircuitOpenError
+} from '../utils/errors';
+import { RateLimiter } from '../utils/rateLimiter';
+import { runWithContext, getRequestContext, getDefaultOrganization, getCurrentIdentity } from '../utils/requestContext';
 
 export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
   const startTime = Date.now();
@@ -33,32 +52,316 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
-export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
-  logger.error('Unhandled error', {
-    type: 'unhandled_error',
+/**
+ * Scope the rest of the request to the organization in `:orgId`
+ * WxCC calls, tokens, caches and agent mappings all follow the organization in the
+ * request context. Unknown organizations get a 404.
+ */
+export const resolveOrganization = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organization = await organizationService.resolveOrganization(req.params.orgId);
+
+    if (!organization) {
+      throw new NotFoundError(`Organization ${req.params.orgId} not found`, { organizationId: req.params.orgId });
+    }
+
+    runWithContext({ ...getRequestContext(), organization }, () => next());
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Failed authentications per IP, counted before the caller is known so keys cannot be guessed at full speed
+const authFailureLimiter = new RateLimiter(config.api.rateLimitWindow, config.api.rateLimitAuthFailureMax);
+
+/**
+ * Identify the caller from an X-API-Key header or an Authorization: Bearer JWT
+ * The identity is put in the request context, where the audit log and every log line
+ * of the request pick it up. Requests without valid credentials get a 401; once an IP
+ * has failed RATE_LIMIT_AUTH_FAILURE_MAX times in a window, its requests get a 429.
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (!config.auth.enabled) {
+    next();
+    return;
+  }
+
+  const client = `ip:${req.ip}`;
+  const failures = authFailureLimiter.peek(client);
+  if (!failures.allowed) {
+    const resetSeconds = Math.ceil(failures.resetMs / 1000);
+    logger.warn('Request rate limited after failed authentications', {
+      type: 'rate_limited',
+      method: req.method,
+      url: req.originalUrl,
+      client,
+      budget: 'authentication'
+    });
+    next(new RateLimitError(
+      `Too many failed authentication attempts, retry in ${resetSeconds} seconds`,
+      resetSeconds
+    ));
+    return;
+  }
+
+  try {
+    const identity = authService.authenticate({
+      authorization: req.get('Authorization'),
+      apiKey: req.get('X-API-Key')
+    });
+
+    runWithContext({ organization: getDefaultOrganization(), identity }, () => next());
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      authFailureLimiter.consume(client);
+      logger.warn('Request authentication failed', {
+        type: 'authentication_failed',
+        method: req.method,
+        url: req.originalUrl,
+        ip: req.ip,
+        error: error.message
+      });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Only let callers with `role`, or a role above it, through to the route
+ */
+export const requireRole = (role: Role) => (req: Request, res: Response, next: NextFunction) => {
+  if (!config.auth.enabled) {
+    next();
+    return;
+  }
+
+  const identity = getCurrentIdentity();
+  if (identity && authService.hasRole(identity.role, role)) {
+    next();
+    return;
+  }
+
+  logger.warn('Request forbidden for role', {
+    type: 'authorization_failed',
     method: req.method,
     url: req.originalUrl,
-    error: err.message,
-    stack: err.stack
+    requiredRole: role
   });
 
-  res.status(500).json({
-    success: false,
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
-  });
+  next(new ForbiddenError(`This action requires the ${role} role`, { requiredRole: role }));
+};
+
+/**
+ * Only let callers with `access` to the container in `:containerId` (or `:id`) through
+ * to the route, according to the container's permissions
+ */
+export const requireContainerAccess = (access: ContainerAccess) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await permissionService.assertContainerAccess(req.params.containerId ?? req.params.id, access);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export type RequestSchemas = Partial<Record<RequestFieldError['location'], Joi.Schema>>;
+
+const VALIDATION_OPTIONS: Joi.ValidationOptions = {
+  abortEarly: false,
+  errors: { wrap: { label: false } }
+};
+
+// updates[0].startDateTime, as the field would be written in JavaScript
+const fieldPath = (path: (string | number)[]): string =>
+  path.map((key, index) => typeof key === 'number' ? `[${key}]` : index > 0 ? `.${key}` : key).join('');
+
+/**
+ * Check the path parameters, query string and body of a request against their schemas
+ * Every field that fails is reported in one 400 response. The validated query string and
+ * body replace the originals, trimmed and converted to the types the schemas declare;
+ * path parameters stay strings.
+ */
+export const validate = (schemas: RequestSchemas) => (req: Request, res: Response, next: NextFunction) => {
+  const errors: RequestFieldError[] = [];
+
+  for (const location of ['params', 'query', 'body'] as const) {
+    const schema = schemas[location];
+    if (!schema) continue;
+
+    // Routes mounted under /orgs/:orgId see that parameter too; resolveOrganization checks it
+    const { value, error } = schema.validate(req[location] ?? {}, {
+      ...VALIDATION_OPTIONS,
+      allowUnknown: location === 'params'
+    });
+
+    if (error) {
+      errors.push(...error.details.map(detail => ({
+        location,
+        field: fieldPath(detail.path),
+        message: detail.message
+      })));
+    } else if (location !== 'params') {
+      req[location] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    next(new RequestValidationError(errors));
+    return;
+  }
+
+  next();
 };
 
-export const notFoundHandler = (req: Request, res: Response) => {
-  logger.warn('Route not found', {
-    type: 'route_not_found',
+// Separate budgets, so a polling loop cannot use up the budget for changes
+const readLimiter = new RateLimiter(config.api.rateLimitWindow, config.api.rateLimitMax);
+const writeLimiter = new RateLimiter(config.api.rateLimitWindow, config.api.rateLimitWriteMax);
+
+/**
+ * Limit how many reads and writes each client may make per RATE_LIMIT_WINDOW
+ * Clients are counted by their authenticated identity, or by IP when there is none.
+ * Every response carries RateLimit-* headers; requests over the limit get a 429.
+ */
+export const rateLimit = (req: Request, res: Response, next: NextFunction) => {
+  const isRead = req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS';
+  const limiter = isRead ? readLimiter : writeLimiter;
+  if (!limiter.enabled) {
+    next();
+    return;
+  }
+
+  const identity = getCurrentIdentity();
+  const client = identity ? `identity:${identity.subject}` : `ip:${req.ip}`;
+  const result = limiter.consume(client);
+  const windowSeconds = Math.ceil(config.api.rateLimitWindow / 1000);
+  const resetSeconds = Math.ceil(result.resetMs / 1000);
+
+  res.set({
+    'RateLimit-Policy': `${result.limit};w=${windowSeconds}`,
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds)
+  });
+
+  if (result.allowed) {
+    next();
+    return;
+  }
+
+  logger.warn('Request rate limited', {
+    type: 'rate_limited',
     method: req.method,
-    url: req.originalUrl
+    url: req.originalUrl,
+    client,
+    budget: isRead ? 'read' : 'write'
   });
 
-  res.status(404).json({
+  next(new RateLimitError(
+    `Rate limit of ${result.limit} ${isRead ? 'reads' : 'writes'} per ${windowSeconds} seconds exceeded, retry in ${resetSeconds} seconds`,
+    resetSeconds
+  ));
+};
+
+/**
+ * Report a failed request as an RFC 7807 application/problem+json response
+ *
+ * DomainErrors set the status, title and problem type, and their details become extension
+ * members. Client errors raised by Express itself, such as malformed JSON bodies, keep
+ * their status; anything else is a 500 whose message is only shown in development. The
+ * success, error and message members of the API's response envelope are kept alongside.
+ */
+export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
+  const problem = toProblem(err);
+
+  if (problem.status >= 500) {
+    logger.error('Request failed', {
+      type: 'unhandled_error',
+      method: req.method,
+      url: req.originalUrl,
+      status: problem.status,
+      error: err.message,
+      stack: err.stack
+    });
+  } else {
+    logger.warn('Request rejected', {
+      type: 'request_error',
+      method: req.method,
+      url: req.originalUrl,
+      status: problem.status,
+      error: err.message
+    });
+  }
+
+  if (err instanceof AuthenticationError) {
+    res.set('WWW-Authenticate', 'Bearer');
+  }
+  // Lets the client retry a stale write against the version it conflicted with
+  if (err instanceof VersionConflictError && err.currentVersion !== undefined) {
+    res.set('ETag', `"${err.currentVersion}"`);
+  }
+  if (err instanceof RateLimitError) {
+    res.set('Retry-After', String(err.retryAfterSeconds));
+  }
+  if (err instanceof CircuitOpenError && err.retryAt) {
+    res.set('Retry-After', String(Math.max(0, Math.ceil((err.retryAt.getTime() - Date.now()) / 1000))));
+  }
+
+  res.status(problem.status).type('application/problem+json').json({
+    ...problem.details,
+    type: problem.type,
+    title: problem.title,
+    status: problem.status,
+    detail: problem.detail,
+    instance: req.originalUrl,
     success: false,
-    error: 'Route not found',
-    message: `${req.method} ${req.originalUrl} not found`
+    error: problem.title,
+    message: problem.detail
   });
+};
+
+interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  details: Record<string, unknown>;
+}
+
+const PROBLEM_TYPE_PREFIX = 'urn:wxcc-overrides:problem:';
+
+const toProblem = (err: Error): Problem => {
+  if (err instanceof DomainError) {
+    return {
+      type: `${PROBLEM_TYPE_PREFIX}${err.type}`,
+      title: err.title,
+      status: err.status,
+      detail: err.message,
+      details: err.details
+    };
+  }
+
+  // body-parser and other http-errors mark errors safe to show the client with `expose`
+  const httpError = err as Error & { status?: number; expose?: boolean };
+  if (httpError.expose && typeof httpError.status === 'number' && httpError.status >= 400 && httpError.status < 500) {
+    return {
+      type: 'about:blank',
+      title: STATUS_CODES[httpError.status] || 'Bad Request',
+      status: httpError.status,
+      detail: err.message,
+      details: {}
+    };
+  }
+
+  return {
+    type: 'about:blank',
+    title: 'Internal server error',
+    status: 500,
+    detail: config.nodeEnv === 'development' ? err.message : 'Something went wrong',
+    details: {}
+  };
+};
+
+export const notFoundHandler = (req: Request, res: Response, next: NextFunction) => {
+  next(new NotFoundError(`${req.method} ${req.originalUrl} not found`));
 };
\ No newline at end of file
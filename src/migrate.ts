@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Apply, revert or list database migrations of the SQLite store at DATABASE_PATH
+ *
+ *   npm run migrate -- status          list migrations and whether they are applied
+ *   npm run migrate -- up [version]    apply pending migrations, up to version if given
+ *   npm run migrate -- down [version]  revert the latest migration, or every one above version
+ *
+ * The server applies pending migrations itself at startup; down is for rolling back a release.
+ * `npm run migrate` runs the build in dist/; `npm run migrate:dev` runs these sources with ts-node.
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { config } from './config';
+import { migrations } from './migrations';
+import { AsyncDatabase } from './utils/asyncDatabase';
+import { Migration, Migrator } from './utils/migrator';
+
+const USAGE = 'Usage: npm run migrate -- status | up [version] | down [version]';
+
+const parseVersion = (value: string | undefined): number | undefined => {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`version must be a whole number, got "${value}"\n${USAGE}`);
+  }
+  return parseInt(value, 10);
+};
+
+const listMigrations = (migrations: Migration[]): string =>
+  migrations.map(migration => `  ${migration.version} ${migration.name}`).join('\n');
+
+async function main(args: string[]): Promise<void> {
+  const [command, versionArgument] = args;
+  if (!['status', 'up', 'down'].includes(command)) {
+    throw new Error(USAGE);
+  }
+  const version = parseVersion(versionArgument);
+
+  const db = await AsyncDatabase.create(config.database.path);
+  try {
+    const migrator = new Migrator(db, migrations);
+
+    if (command === 'status') {
+      const status = await migrator.status();
+      console.log(`Database: ${config.database.path}`);
+      for (const migration of status) {
+        console.log(`  ${migration.applied ? 'applied' : 'pending'}  ${migration.version} ${migration.name}` +
+          (migration.appliedAt ? `  (${migration.appliedAt})` : ''));
+      }
+      return;
+    }
+
+    if (command === 'up') {
+      const applied = await migrator.up(version);
+      console.log(applied.length > 0 ? `Applied:\n${listMigrations(applied)}` : 'No pending migrations');
+      return;
+    }
+
+    const reverted = await migrator.down(version);
+    console.log(reverted.length > 0 ? `Reverted:\n${listMigrations(reverted)}` : 'No migrations to revert');
+  } finally {
+    await db.close();
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
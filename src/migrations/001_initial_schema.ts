@@ -0,0 +1,216 @@
+import { AsyncDatabase } from '../utils/asyncDatabase';
+import { logger } from '../utils/logger';
+import { Migration } from '../utils/migrator';
+import { legacyOrganizationId } from './legacyOrganization';
+
+/**
+ * The schema as it was before migrations were introduced
+ *
+ * Tables are created only if they do not exist, so databases created before then are
+ * adopted as they are, apart from mappings tables that predate organizations.
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  async up(db: AsyncDatabase): Promise<void> {
+    // Agent mappings; override names are unique per organization
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_agent_mappings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        agent_name TEXT NOT NULL,
+        working_hours_active INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(organization_id, override_name)
+      )
+    `);
+    await partitionMappingsByOrganization(db);
+    await db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_override_name
+      ON wxcc_agent_mappings(override_name)
+    `);
+    await db.exec(`
+      CREATE TRIGGER IF NOT EXISTS update_timestamp
+      AFTER UPDATE ON wxcc_agent_mappings
+      BEGIN
+        UPDATE wxcc_agent_mappings
+        SET updated_at = CURRENT_TIMESTAMP
+        WHERE id = NEW.id;
+      END
+    `);
+
+    // Recurring schedule templates expanded into overrides by the recurrence service
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_recurring_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        container_id TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        days_of_week TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        working_hours INTEGER NOT NULL DEFAULT 1,
+        valid_from TEXT,
+        valid_until TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Per-container coverage rules enforced by schedule validation
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_coverage_rules (
+        container_id TEXT PRIMARY KEY,
+        max_concurrent INTEGER NOT NULL DEFAULT 1,
+        min_coverage INTEGER NOT NULL DEFAULT 0,
+        allowed_windows TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // WxCC OAuth2 tokens per organization, so rotated refresh tokens survive restarts
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_oauth_tokens (
+        organization_id TEXT PRIMARY KEY,
+        access_token TEXT NOT NULL,
+        refresh_token TEXT,
+        expires_at DATETIME,
+        refresh_token_expires_at DATETIME,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // WxCC organizations served by this instance, besides the one configured in the environment
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_organizations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        base_url TEXT NOT NULL,
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        access_token TEXT,
+        refresh_token TEXT,
+        client_id TEXT,
+        client_secret TEXT,
+        token_url TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Who changed which schedule or mapping, kept for compliance reporting
+    // Timestamps are ISO 8601 strings, so date range filters compare as text
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp TEXT NOT NULL,
+        organization_id TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        container_id TEXT,
+        before_json TEXT,
+        after_json TEXT,
+        outcome TEXT NOT NULL,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(organization_id, timestamp);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_override ON audit_log(organization_id, override_name);
+      CREATE INDEX IF NOT EXISTS idx_audit_log_container ON audit_log(organization_id, container_id);
+    `);
+
+    // Every schedule an override has had, so an earlier one can be restored
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_override_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id TEXT NOT NULL,
+        container_id TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        working_hours BOOLEAN NOT NULL,
+        start_date_time TEXT NOT NULL,
+        end_date_time TEXT NOT NULL,
+        start_date_time_utc TEXT,
+        end_date_time_utc TEXT,
+        timezone TEXT,
+        container_version INTEGER,
+        change_type TEXT NOT NULL,
+        restored_from INTEGER,
+        actor TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE(organization_id, container_id, override_name, version)
+      )
+    `);
+
+    // Users and groups allowed to read or write a container; containers without rows are open
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS wxcc_container_permissions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id TEXT NOT NULL,
+        container_id TEXT NOT NULL,
+        principal_type TEXT NOT NULL,
+        principal TEXT NOT NULL,
+        access TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(organization_id, container_id, principal_type, principal)
+      )
+    `);
+  },
+
+  // Drops every table, and the data in them
+  async down(db: AsyncDatabase): Promise<void> {
+    await db.exec(`
+      DROP TABLE IF EXISTS wxcc_container_permissions;
+      DROP TABLE IF EXISTS wxcc_override_versions;
+      DROP TABLE IF EXISTS audit_log;
+      DROP TABLE IF EXISTS wxcc_organizations;
+      DROP TABLE IF EXISTS wxcc_oauth_tokens;
+      DROP TABLE IF EXISTS wxcc_coverage_rules;
+      DROP TABLE IF EXISTS wxcc_recurring_schedules;
+      DROP TABLE IF EXISTS wxcc_agent_mappings;
+    `);
+  }
+};
+
+/**
+ * Add organization_id to a mappings table created before mappings were partitioned
+ * by organization. SQLite cannot change a UNIQUE constraint in place, so the table is
+ * rebuilt; existing mappings belong to the organization configured in the environment.
+ */
+const partitionMappingsByOrganization = async (db: AsyncDatabase): Promise<void> => {
+  const columns = await db.all<{ name: string }>('PRAGMA table_info(wxcc_agent_mappings)');
+  if (columns.some(column => column.name === 'organization_id')) {
+    return;
+  }
+
+  const organizationId = await legacyOrganizationId(db, 'wxcc_agent_mappings');
+
+  logger.info('Partitioning agent mappings by organization', {
+    operation: 'migrate_mappings',
+    organizationId
+  });
+
+  await db.exec(`
+    CREATE TABLE wxcc_agent_mappings_partitioned (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      organization_id TEXT NOT NULL,
+      override_name TEXT NOT NULL,
+      agent_name TEXT NOT NULL,
+      working_hours_active INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(organization_id, override_name)
+    )
+  `);
+  await db.run(`
+    INSERT INTO wxcc_agent_mappings_partitioned
+      (id, organization_id, override_name, agent_name, working_hours_active, created_at, updated_at)
+    SELECT id, ?, override_name, agent_name, working_hours_active, created_at, updated_at
+    FROM wxcc_agent_mappings
+  `, [organizationId]);
+  await db.exec('DROP TABLE wxcc_agent_mappings');
+  await db.exec('ALTER TABLE wxcc_agent_mappings_partitioned RENAME TO wxcc_agent_mappings');
+};
@@ -0,0 +1,121 @@
+import { AsyncDatabase } from '../utils/asyncDatabase';
+import { logger } from '../utils/logger';
+import { Migration } from '../utils/migrator';
+import { legacyOrganizationId } from './legacyOrganization';
+
+/**
+ * Partition recurring schedules and coverage rules by organization, like mappings
+ *
+ * Both tables are rebuilt, since SQLite cannot change a primary key in place. Existing
+ * templates and rules belong to the organization configured in the environment.
+ */
+export const partitionSchedulesAndRules: Migration = {
+  version: 2,
+  name: 'partition_schedules_and_rules',
+
+  async up(db: AsyncDatabase): Promise<void> {
+    const scheduleOrganizationId = await legacyOrganizationId(db, 'wxcc_recurring_schedules');
+    const rulesOrganizationId = await legacyOrganizationId(db, 'wxcc_coverage_rules');
+
+    logger.info('Partitioning recurring schedules and coverage rules by organization', {
+      operation: 'migrate_schedules_and_rules',
+      organizationId: scheduleOrganizationId || rulesOrganizationId
+    });
+
+    await db.exec(`
+      CREATE TABLE wxcc_recurring_schedules_partitioned (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        organization_id TEXT NOT NULL,
+        container_id TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        days_of_week TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        working_hours INTEGER NOT NULL DEFAULT 1,
+        valid_from TEXT,
+        valid_until TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    await db.run(`
+      INSERT INTO wxcc_recurring_schedules_partitioned
+        (id, organization_id, container_id, override_name, days_of_week, start_time, end_time,
+         working_hours, valid_from, valid_until, created_at, updated_at)
+      SELECT id, ?, container_id, override_name, days_of_week, start_time, end_time,
+             working_hours, valid_from, valid_until, created_at, updated_at
+      FROM wxcc_recurring_schedules
+    `, [scheduleOrganizationId]);
+    await db.exec(`
+      DROP TABLE wxcc_recurring_schedules;
+      ALTER TABLE wxcc_recurring_schedules_partitioned RENAME TO wxcc_recurring_schedules;
+      CREATE INDEX idx_recurring_schedules_container ON wxcc_recurring_schedules(organization_id, container_id);
+    `);
+
+    await db.exec(`
+      CREATE TABLE wxcc_coverage_rules_partitioned (
+        organization_id TEXT NOT NULL,
+        container_id TEXT NOT NULL,
+        max_concurrent INTEGER NOT NULL DEFAULT 1,
+        min_coverage INTEGER NOT NULL DEFAULT 0,
+        allowed_windows TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (organization_id, container_id)
+      )
+    `);
+    await db.run(`
+      INSERT INTO wxcc_coverage_rules_partitioned
+        (organization_id, container_id, max_concurrent, min_coverage, allowed_windows, created_at, updated_at)
+      SELECT ?, container_id, max_concurrent, min_coverage, allowed_windows, created_at, updated_at
+      FROM wxcc_coverage_rules
+    `, [rulesOrganizationId]);
+    await db.exec(`
+      DROP TABLE wxcc_coverage_rules;
+      ALTER TABLE wxcc_coverage_rules_partitioned RENAME TO wxcc_coverage_rules;
+    `);
+  },
+
+  // Shares the tables between organizations again; where several organizations have rules for
+  // the same container id, only one set is kept
+  async down(db: AsyncDatabase): Promise<void> {
+    await db.exec(`
+      CREATE TABLE wxcc_recurring_schedules_shared (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        container_id TEXT NOT NULL,
+        override_name TEXT NOT NULL,
+        days_of_week TEXT NOT NULL,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        working_hours INTEGER NOT NULL DEFAULT 1,
+        valid_from TEXT,
+        valid_until TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO wxcc_recurring_schedules_shared
+        (id, container_id, override_name, days_of_week, start_time, end_time,
+         working_hours, valid_from, valid_until, created_at, updated_at)
+      SELECT id, container_id, override_name, days_of_week, start_time, end_time,
+             working_hours, valid_from, valid_until, created_at, updated_at
+      FROM wxcc_recurring_schedules;
+      DROP TABLE wxcc_recurring_schedules;
+      ALTER TABLE wxcc_recurring_schedules_shared RENAME TO wxcc_recurring_schedules;
+
+      CREATE TABLE wxcc_coverage_rules_shared (
+        container_id TEXT PRIMARY KEY,
+        max_concurrent INTEGER NOT NULL DEFAULT 1,
+        min_coverage INTEGER NOT NULL DEFAULT 0,
+        allowed_windows TEXT NOT NULL DEFAULT '[]',
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT OR IGNORE INTO wxcc_coverage_rules_shared
+        (container_id, max_concurrent, min_coverage, allowed_windows, created_at, updated_at)
+      SELECT container_id, max_concurrent, min_coverage, allowed_windows, created_at, updated_at
+      FROM wxcc_coverage_rules;
+      DROP TABLE wxcc_coverage_rules;
+      ALTER TABLE wxcc_coverage_rules_shared RENAME TO wxcc_coverage_rules;
+    `);
+  }
+};
@@ -0,0 +1,15 @@
+import { Migration } from '../utils/migrator';
+import { initialSchema } from './001_initial_schema';
+import { partitionSchedulesAndRules } from './002_partition_schedules_and_rules';
+
+/**
+ * Database migrations, in the order they are applied
+ *
+ * To change the schema, add a file named after the next version (e.g. 003_add_agent_email.ts)
+ * exporting a Migration with up and down, and list it here. Released migrations are never
+ * edited; the server applies pending ones at startup.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  partitionSchedulesAndRules
+];
@@ -0,0 +1,18 @@
+import { config } from '../config';
+import { AsyncDatabase } from '../utils/asyncDatabase';
+
+/**
+ * Organization that rows of `table` stored before it was partitioned by organization belong to,
+ * which is the one configured in the environment. Without WXCC_ORG_ID the rows would be stored
+ * under an empty id no organization can reach, so the migration fails instead.
+ */
+export const legacyOrganizationId = async (db: AsyncDatabase, table: string): Promise<string> => {
+  const row = await db.get<{ count: number }>(`SELECT COUNT(*) as count FROM ${table}`);
+  const count = row?.count ?? 0;
+
+  if (count > 0 && !config.wxcc.organizationId) {
+    throw new Error(`WXCC_ORG_ID must be set to assign the ${count} existing rows of ${table} to an organization`);
+  }
+
+  return config.wxcc.organizationId;
+};
@@ -1,27 +1,245 @@
 import { Router } from 'express';
 import { overrideController } from '../controllers/overrideController';
 import { mappingController } from '../controllers/mappingController';
+import { recurrenceController } from '../controllers/recurrenceController';
+import { coverageController } from '../controllers/coverageController';
+import { organizationController } from '../controllers/organizationController';
+import { auditController } from '../controllers/auditController';
+import { permissionController } from '../controllers/permissionController';
+import { resolveOrganization, authenticate, rateLimit, requireRole, requireContainerAccess, validate } from '../middleware';
+import {
+  containerParamsSchema,
+  containerAgentsParamsSchema,
+  agentParamsSchema,
+  overrideVersionParamsSchema,
+  recurringScheduleParamsSchema,
+  organizationParamsSchema,
+  updateAgentSchema,
+  createAgentSchema,
+  bulkUpdateSchema,
+  createContainerSchema,
+  updateContainerSchema,
+  cloneContainerSchema,
+  containerPermissionsSchema,
+  createOrganizationSchema,
+  updateOrganizationSchema,
+  mappingSchema,
+  workingHoursToggleSchema,
+  recurringScheduleSchema,
+  recurringSchedulesQuerySchema,
+  generateOverridesQuerySchema,
+  coverageRulesSchema,
+  coverageQuerySchema,
+  auditQuerySchema
+} from '../schemas';
 
 const router = Router();
 
-// Health check endpoint
+// Override endpoints, mounted per organization and for the organization from the environment
+const overrideRoutes = Router({ mergeParams: true });
+
+// Health check endpoint, open so load balancers can probe it
 router.get('/health', overrideController.healthCheck.bind(overrideController));
 
+// Every other endpoint needs credentials; viewers read, schedulers change schedules and
+// mappings, admins manage containers, coverage rules, permissions, organizations and the
+// audit log. Routes for one container also check the caller's permissions on it. Failed
+// authentications are limited per IP, since the per-caller limit below needs a caller.
+router.use(authenticate);
+
+// Reads and writes are rate limited per caller, or per IP without authentication
+router.use(rateLimit);
+
+// Path parameters, query strings and bodies are checked against src/schemas before the
+// controller runs, once the caller is known to be allowed to make the request
+
+// WxCC connection state per organization, kept out of the open health check
+router.get('/health/wxcc', requireRole('admin'), overrideController.getWxccHealth.bind(overrideController));
+
+// Organization endpoints
+router.get('/orgs', requireRole('viewer'), organizationController.getOrganizations.bind(organizationController));
+router.post('/orgs',
+  requireRole('admin'),
+  validate({ body: createOrganizationSchema }),
+  organizationController.createOrganization.bind(organizationController)
+);
+router.get('/orgs/:orgId',
+  requireRole('viewer'),
+  validate({ params: organizationParamsSchema }),
+  organizationController.getOrganization.bind(organizationController)
+);
+router.patch('/orgs/:orgId',
+  requireRole('admin'),
+  validate({ params: organizationParamsSchema, body: updateOrganizationSchema }),
+  organizationController.updateOrganization.bind(organizationController)
+);
+router.delete('/orgs/:orgId',
+  requireRole('admin'),
+  validate({ params: organizationParamsSchema }),
+  organizationController.deleteOrganization.bind(organizationController)
+);
+
 // Override container endpoints
-router.get('/overrides/containers', overrideController.getAllContainers.bind(overrideController));
-router.get('/overrides/containers/:id', overrideController.getContainerById.bind(overrideController));
+overrideRoutes.get('/overrides/containers', requireRole('viewer'), overrideController.getAllContainers.bind(overrideController));
+overrideRoutes.get('/overrides/containers/:id',
+  requireRole('viewer'),
+  requireContainerAccess('read'),
+  validate({ params: containerParamsSchema }),
+  overrideController.getContainerById.bind(overrideController)
+);
+overrideRoutes.post('/overrides/containers',
+  requireRole('admin'),
+  validate({ body: createContainerSchema }),
+  overrideController.createContainer.bind(overrideController)
+);
+overrideRoutes.patch('/overrides/containers/:id',
+  requireRole('admin'),
+  requireContainerAccess('write'),
+  validate({ params: containerParamsSchema, body: updateContainerSchema }),
+  overrideController.updateContainer.bind(overrideController)
+);
+overrideRoutes.post('/overrides/containers/:id/clone',
+  requireRole('admin'),
+  requireContainerAccess('write'),
+  validate({ params: containerParamsSchema, body: cloneContainerSchema }),
+  overrideController.cloneContainer.bind(overrideController)
+);
+overrideRoutes.delete('/overrides/containers/:id',
+  requireRole('admin'),
+  requireContainerAccess('write'),
+  validate({ params: containerParamsSchema }),
+  overrideController.deleteContainer.bind(overrideController)
+);
+
+// Coverage rule endpoints
+overrideRoutes.get('/overrides/containers/:id/coverage-rules',
+  requireRole('viewer'),
+  requireContainerAccess('read'),
+  validate({ params: containerParamsSchema }),
+  coverageController.getRules.bind(coverageController)
+);
+overrideRoutes.put('/overrides/containers/:id/coverage-rules',
+  requireRole('admin'),
+  requireContainerAccess('write'),
+  validate({ params: containerParamsSchema, body: coverageRulesSchema }),
+  coverageController.setRules.bind(coverageController)
+);
+overrideRoutes.delete('/overrides/containers/:id/coverage-rules',
+  requireRole('admin'),
+  requireContainerAccess('write'),
+  validate({ params: containerParamsSchema }),
+  coverageController.deleteRules.bind(coverageController)
+);
+overrideRoutes.get('/overrides/containers/:id/coverage',
+  requireRole('viewer'),
+  requireContainerAccess('read'),
+  validate({ params: containerParamsSchema, query: coverageQuerySchema }),
+  coverageController.getCoverage.bind(coverageController)
+);
 
-// Agent management endpoint
-router.put('/overrides/containers/:containerId/agents/:agentId', 
+// Container permission endpoints
+overrideRoutes.get('/overrides/containers/:id/permissions',
+  requireRole('admin'),
+  validate({ params: containerParamsSchema }),
+  permissionController.getPermissions.bind(permissionController)
+);
+overrideRoutes.put('/overrides/containers/:id/permissions',
+  requireRole('admin'),
+  validate({ params: containerParamsSchema, body: containerPermissionsSchema }),
+  permissionController.setPermissions.bind(permissionController)
+);
+overrideRoutes.delete('/overrides/containers/:id/permissions',
+  requireRole('admin'),
+  validate({ params: containerParamsSchema }),
+  permissionController.deletePermissions.bind(permissionController)
+);
+
+// Agent management endpoints
+overrideRoutes.post('/overrides/containers/:containerId/agents',
+  requireRole('scheduler'),
+  requireContainerAccess('write'),
+  validate({ params: containerAgentsParamsSchema, body: createAgentSchema }),
+  overrideController.createAgentSchedule.bind(overrideController)
+);
+overrideRoutes.put('/overrides/containers/:containerId/agents/:agentId',
+  requireRole('scheduler'),
+  requireContainerAccess('write'),
+  validate({ params: agentParamsSchema, body: updateAgentSchema }),
   overrideController.updateAgentSchedule.bind(overrideController)
 );
+overrideRoutes.delete('/overrides/containers/:containerId/agents/:agentId',
+  requireRole('scheduler'),
+  requireContainerAccess('write'),
+  validate({ params: agentParamsSchema }),
+  overrideController.deleteAgentSchedule.bind(overrideController)
+);
+overrideRoutes.get('/overrides/containers/:containerId/agents/:agentId/versions',
+  requireRole('viewer'),
+  requireContainerAccess('read'),
+  validate({ params: agentParamsSchema }),
+  overrideController.getAgentScheduleVersions.bind(overrideController)
+);
+overrideRoutes.post('/overrides/containers/:containerId/agents/:agentId/versions/:version/restore',
+  requireRole('scheduler'),
+  requireContainerAccess('write'),
+  validate({ params: overrideVersionParamsSchema }),
+  overrideController.restoreAgentSchedule.bind(overrideController)
+);
+overrideRoutes.post('/overrides/schedules/bulk',
+  requireRole('scheduler'),
+  validate({ body: bulkUpdateSchema }),
+  overrideController.bulkUpdateAgentSchedules.bind(overrideController)
+);
+
+// Recurring schedule endpoints
+overrideRoutes.get('/overrides/recurring-schedules',
+  requireRole('viewer'),
+  validate({ query: recurringSchedulesQuerySchema }),
+  recurrenceController.getSchedules.bind(recurrenceController)
+);
+overrideRoutes.post('/overrides/recurring-schedules',
+  requireRole('scheduler'),
+  validate({ body: recurringScheduleSchema }),
+  recurrenceController.createSchedule.bind(recurrenceController)
+);
+overrideRoutes.delete('/overrides/recurring-schedules/:id',
+  requireRole('scheduler'),
+  validate({ params: recurringScheduleParamsSchema }),
+  recurrenceController.deleteSchedule.bind(recurrenceController)
+);
+overrideRoutes.post('/overrides/recurring-schedules/:id/generate',
+  requireRole('scheduler'),
+  validate({ params: recurringScheduleParamsSchema, query: generateOverridesQuerySchema }),
+  recurrenceController.generateOverrides.bind(recurrenceController)
+);
 
 // Active agents endpoint
-router.get('/overrides/active', overrideController.getActiveAgents.bind(overrideController));
+overrideRoutes.get('/overrides/active', requireRole('viewer'), overrideController.getActiveAgents.bind(overrideController));
 
 // Agent mapping endpoints
-router.get('/overrides/mappings', mappingController.getAllMappings.bind(mappingController));
-router.post('/overrides/map', mappingController.createMapping.bind(mappingController));
-router.patch('/overrides/working-hours', mappingController.updateWorkingHours.bind(mappingController));
+overrideRoutes.get('/overrides/mappings', requireRole('viewer'), mappingController.getAllMappings.bind(mappingController));
+overrideRoutes.post('/overrides/map',
+  requireRole('scheduler'),
+  validate({ body: mappingSchema }),
+  mappingController.createMapping.bind(mappingController)
+);
+overrideRoutes.patch('/overrides/working-hours',
+  requireRole('scheduler'),
+  validate({ body: workingHoursToggleSchema }),
+  mappingController.updateWorkingHours.bind(mappingController)
+);
+
+// Audit log of schedule and mapping changes
+overrideRoutes.get('/audit',
+  requireRole('admin'),
+  validate({ query: auditQuerySchema }),
+  auditController.getAuditEntries.bind(auditController)
+);
+
+// Organization-scoped: /api/orgs/:orgId/overrides/... and /api/orgs/:orgId/audit
+router.use('/orgs/:orgId', resolveOrganization, overrideRoutes);
+
+// Unscoped /api/overrides/... routes use the organization configured in the environment
+router.use(overrideRoutes);
 
-export { router as apiRoutes };
\ No newline at end of file
+export { router as apiRoutes };
@@ -0,0 +1,353 @@
+import Joi from 'joi';
+import { parseISO, isValid, differenceInDays } from 'date-fns';
+import { AuditLogQuery, ContainerAccess, PrincipalType } from '../types';
+import { isValidTimezone, parseInTimezone } from '../utils/dateFormat';
+
+/**
+ * Request schemas
+ *
+ * Every request body, path parameter and query string the API accepts is declared here and
+ * checked by the validate middleware before a controller runs. The request types are derived
+ * from the same schemas, so what the controllers are typed against is what was accepted.
+ */
+
+// Upper bound on items in one bulk schedule update
+const MAX_BULK_UPDATE_ITEMS = 200;
+
+// Longest rolling horizon a single generate call may cover
+const MAX_HORIZON_DAYS = 366;
+
+// Longest range a single coverage analysis may cover
+const MAX_COVERAGE_DAYS = 93;
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const MAX_AUDIT_LIMIT = 1000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// parseISO also accepts a bare year or month, so a date is required up front
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// WxCC organization ids are UUIDs; anything URL-safe is accepted
+const ORGANIZATION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const PRINCIPAL_TYPES: PrincipalType[] = ['user', 'group'];
+const ACCESS_LEVELS: ContainerAccess[] = ['read', 'write'];
+
+/**
+ * The type of the values a schema accepts
+ */
+export type SchemaType<S> = S extends Joi.Schema<infer T> ? T : never;
+
+type SchemaKeys = Record<string, Joi.Schema>;
+
+type ObjectType<Required extends SchemaKeys, Optional extends SchemaKeys> = Flatten<
+  { [K in keyof Required]: SchemaType<Required[K]> } &
+  { [K in keyof Optional]?: SchemaType<Optional[K]> }
+>;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+/**
+ * Object schema with required and optional keys; any other key is rejected
+ */
+const object = <Required extends SchemaKeys, Optional extends SchemaKeys = Record<never, never>>(
+  required: Required,
+  optional?: Optional
+) => {
+  const keys: Joi.SchemaMap = {};
+  for (const [key, schema] of Object.entries(required)) {
+    keys[key] = schema.required();
+  }
+  Object.assign(keys, optional);
+  return Joi.object<ObjectType<Required, Optional>>(keys as Joi.SchemaMap<ObjectType<Required, Optional>>);
+};
+
+const list = <S extends Joi.Schema>(item: S) => Joi.array<SchemaType<S>[]>().items(item);
+
+// Non-empty once surrounding whitespace is trimmed
+const text = () => Joi.string().trim();
+
+// May be '' to leave out, or clear, an optional value
+const optionalText = () => Joi.string().allow('');
+
+const wholeNumber = () => Joi.number().integer();
+
+// Called inline among object() keys, Joi.boolean() would infer its type from them: any
+const flag = () => Joi.boolean();
+
+const timezone = () => Joi.string()
+  .custom((value: string, helpers) => isValidTimezone(value) ? value : helpers.error('any.invalid'))
+  .messages({ 'any.invalid': '{#label} must be a valid IANA timezone (e.g. Europe/London)' });
+
+const httpUrl = () => Joi.string().trim().uri({ scheme: ['http', 'https'] })
+  .messages({ 'string.uriCustomScheme': '{#label} must be an http(s) URL' });
+
+// The date of an ISO 8601 date or date-time, or undefined if the value is not one
+const parseIsoDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? date : undefined;
+};
+
+// A schedule instant such as 2024-01-15T09:00:00, with or without an offset
+const dateTime = () => Joi.string().trim()
+  .custom((value: string, helpers) =>
+    ISO_DATE_TIME_PATTERN.test(value) && parseIsoDate(value) ? value : helpers.error('any.invalid')
+  )
+  .messages({ 'any.invalid': '{#label} must be an ISO 8601 date-time, e.g. 2024-01-15T09:00:00' });
+
+// A query bound such as 2024-01-15 or 2024-01-15T09:00:00Z
+const dateOrDateTime = () => Joi.string().trim()
+  .custom((value: string, helpers) => parseIsoDate(value) ? value : helpers.error('any.invalid'))
+  .messages({ 'any.invalid': '{#label} must be an ISO 8601 date or date-time' });
+
+const calendarDate = () => Joi.string().pattern(DATE_PATTERN)
+  .messages({ 'string.pattern.base': '{#label} must be in yyyy-MM-dd format' });
+
+const timeOfDay = () => Joi.string().pattern(TIME_PATTERN)
+  .messages({ 'string.pattern.base': '{#label} must be in HH:mm format' });
+
+// HH:mm, and not the same as startTime; earlier than startTime for windows past midnight
+const endTimeOfDay = () => timeOfDay().invalid(Joi.ref('startTime'))
+  .messages({ 'any.invalid': '{#label} cannot be equal to startTime' });
+
+const organizationId = () => Joi.string().pattern(ORGANIZATION_ID_PATTERN)
+  .messages({ 'string.pattern.base': '{#label} must be a WxCC organization id (letters, digits, - and _)' });
+
+const dayOfWeek = () => wholeNumber().min(0).max(6).messages({
+  'number.min': '{#label} must be a day from 0 (Sunday) to 6 (Saturday)',
+  'number.max': '{#label} must be a day from 0 (Sunday) to 6 (Saturday)'
+});
+
+// Path parameters
+
+export const containerParamsSchema = object({ id: text() });
+
+export const containerAgentsParamsSchema = object({ containerId: text() });
+
+export const agentParamsSchema = object({ containerId: text(), agentId: text() });
+
+export const overrideVersionParamsSchema = object({
+  containerId: text(),
+  agentId: text(),
+  version: wholeNumber().min(1)
+});
+
+export const recurringScheduleParamsSchema = object({ id: wholeNumber().min(1) });
+
+export const organizationParamsSchema = object({ orgId: organizationId() });
+
+// Agent schedules
+
+const scheduleKeys = {
+  workingHours: flag(),
+  startDateTime: dateTime(),
+  endDateTime: dateTime()
+};
+
+export const updateAgentSchema = object(scheduleKeys);
+
+export const createAgentSchema = object({
+  agentId: text(), // becomes override.name in WxCC
+  ...scheduleKeys
+});
+
+export const bulkUpdateItemSchema = object({
+  containerId: text(),
+  agentId: text(),
+  ...scheduleKeys
+});
+
+export const bulkUpdateSchema = object(
+  { updates: list(bulkUpdateItemSchema).min(1).max(MAX_BULK_UPDATE_ITEMS) },
+  { atomic: flag() } // apply nothing if any item fails validation
+);
+
+// Containers
+
+export const createContainerSchema = object(
+  { name: text(), timezone: timezone() }, // IANA timezone, e.g. Europe/London
+  { description: optionalText() }
+);
+
+export const updateContainerSchema = object({}, {
+  name: text(),
+  description: optionalText(),
+  timezone: timezone()
+}).or('name', 'description', 'timezone');
+
+export const cloneContainerSchema = object(
+  { name: text() },
+  { description: optionalText(), timezone: timezone() } // timezone defaults to the source container's
+);
+
+// Container permissions; a principal may be listed once per container
+
+export const containerPermissionSchema = object({
+  principalType: Joi.string<PrincipalType>().valid(...PRINCIPAL_TYPES),
+  principal: text(),
+  access: Joi.string<ContainerAccess>().valid(...ACCESS_LEVELS)
+});
+
+export const containerPermissionsSchema = object({
+  permissions: list(containerPermissionSchema)
+    .unique((a, b) => a.principalType === b.principalType && a.principal === b.principal)
+    .messages({ 'array.unique': '{#label} lists the same principal twice' })
+});
+
+// Organizations; credentials may be '' to leave them out, or to clear them on update
+
+const credentialKeys = {
+  accessToken: optionalText(),
+  refreshToken: optionalText(),
+  clientId: optionalText(),
+  clientSecret: optionalText(),
+  tokenUrl: httpUrl().allow('')
+};
+
+export const createOrganizationSchema = object(
+  {
+    id: organizationId(),
+    name: text(),
+    baseUrl: httpUrl() // WxCC API base URL of the org's region
+  },
+  {
+    timezone: timezone(), // defaults to UTC
+    ...credentialKeys
+  }
+);
+
+const updatableOrganizationKeys = {
+  name: text(),
+  baseUrl: httpUrl(),
+  timezone: timezone(),
+  ...credentialKeys
+};
+
+// The id of an organization cannot be changed
+export const updateOrganizationSchema = object({}, updatableOrganizationKeys)
+  .or(...Object.keys(updatableOrganizationKeys));
+
+// Agent mappings
+
+export const mappingSchema = object({ overrideName: text(), agentName: text() });
+
+export const workingHoursToggleSchema = object({ overrideName: text(), workingHoursActive: flag() });
+
+// Recurring schedules
+
+export const recurringScheduleSchema = object(
+  {
+    containerId: text(),
+    overrideName: text(), // occurrences are named "<overrideName> <yyyy-MM-dd>"
+    daysOfWeek: list(dayOfWeek()).min(1),
+    startTime: timeOfDay(),
+    endTime: endTimeOfDay(),
+    workingHours: flag()
+  },
+  {
+    validFrom: calendarDate(),
+    validUntil: calendarDate()
+      .custom((value: string, helpers) => {
+        const { validFrom } = helpers.state.ancestors[0];
+        return validFrom && validFrom > value ? helpers.error('any.invalid') : value;
+      })
+      .messages({ 'any.invalid': '{#label} must not be before validFrom' })
+  }
+);
+
+export const recurringSchedulesQuerySchema = object({}, { containerId: text().empty('') });
+
+export const generateOverridesQuerySchema = object({}, {
+  horizonDays: wholeNumber().min(1).max(MAX_HORIZON_DAYS),
+  dryRun: flag()
+});
+
+// Coverage
+
+export const coverageWindowSchema = object({
+  daysOfWeek: list(dayOfWeek()).min(1),
+  startTime: timeOfDay(),
+  endTime: endTimeOfDay()
+});
+
+export const coverageRulesSchema = object(
+  {
+    maxConcurrent: wholeNumber().min(1),
+    minCoverage: wholeNumber().min(0).max(Joi.ref('maxConcurrent'))
+      .messages({ 'number.max': '{#label} cannot be greater than maxConcurrent' })
+  },
+  { allowedWindows: list(coverageWindowSchema) } // empty = any time
+);
+
+// from and to are read in the container timezone, so they are kept as given; both are
+// read in the same timezone, so they can be ordered before it is known. They are ordered
+// as if that were UTC, never the server's own timezone.
+export const coverageQuerySchema = object({}, {
+  from: dateOrDateTime(),
+  to: dateOrDateTime()
+    .custom((value: string, helpers) => {
+      const { from } = helpers.state.ancestors[0];
+
+      // Malformed bounds are reported on their own
+      if ((from !== undefined && !parseIsoDate(from)) || !parseIsoDate(value)) return value;
+
+      const fromDate = from !== undefined ? parseInTimezone(from, 'UTC') : new Date();
+      const toDate = parseInTimezone(value, 'UTC');
+      if (toDate <= fromDate) return helpers.error('date.order');
+      if (differenceInDays(toDate, fromDate) > MAX_COVERAGE_DAYS) return helpers.error('date.range');
+      return value;
+    })
+    .messages({
+      'date.order': '{#label} must be after from',
+      'date.range': `The range cannot be longer than ${MAX_COVERAGE_DAYS} days`
+    })
+});
+
+// Audit log, queried as ?override=&container=&actor=&from=&to=&limit=&offset=
+// Stored timestamps are ISO 8601 UTC, so bounds are normalized the same way
+
+const auditBound = () => Joi.string().trim().empty('')
+  .custom((value: string, helpers) => parseIsoDate(value)?.toISOString() ?? helpers.error('any.invalid'))
+  .messages({ 'any.invalid': '{#label} must be an ISO 8601 date or date-time' });
+
+export const auditQuerySchema = Joi.object({
+  overrideName: text().empty(''),
+  containerId: text().empty(''),
+  actor: text().empty(''),
+  from: auditBound(),
+  to: auditBound()
+    .custom((value: string, helpers) => {
+      const fromDate = parseIsoDate(helpers.state.ancestors[0].from);
+      const toDate = parseIsoDate(value);
+      return fromDate && toDate && fromDate >= toDate ? helpers.error('date.order') : value;
+    })
+    .messages({ 'date.order': '{#label} must be after from' }),
+  limit: wholeNumber().empty('').min(1).max(MAX_AUDIT_LIMIT).default(DEFAULT_AUDIT_LIMIT),
+  offset: wholeNumber().empty('').min(0).default(0)
+})
+  .rename('override', 'overrideName')
+  .rename('container', 'containerId') as Joi.ObjectSchema<AuditLogQuery>;
+
+// Request types
+
+export type UpdateAgentRequest = SchemaType<typeof updateAgentSchema>;
+export type CreateAgentRequest = SchemaType<typeof createAgentSchema>;
+export type BulkUpdateItem = SchemaType<typeof bulkUpdateItemSchema>;
+export type BulkUpdateRequest = SchemaType<typeof bulkUpdateSchema>;
+export type CreateContainerRequest = SchemaType<typeof createContainerSchema>;
+export type UpdateContainerRequest = SchemaType<typeof updateContainerSchema>;
+export type CloneContainerRequest = SchemaType<typeof cloneContainerSchema>;
+export type ContainerPermissionRequest = SchemaType<typeof containerPermissionSchema>;
+export type CreateOrganizationRequest = SchemaType<typeof createOrganizationSchema>;
+export type UpdateOrganizationRequest = SchemaType<typeof updateOrganizationSchema>;
+export type MappingRequest = SchemaType<typeof mappingSchema>;
+export type WorkingHoursToggleRequest = SchemaType<typeof workingHoursToggleSchema>;
+export type RecurringScheduleRequest = SchemaType<typeof recurringScheduleSchema>;
+export type CoverageRulesRequest = SchemaType<typeof coverageRulesSchema>;
+
+export type GenerateOverridesQuery = SchemaType<typeof generateOverridesQuerySchema>;
+export type CoverageQuery = SchemaType<typeof coverageQuerySchema>;
@@ -0,0 +1,49 @@
+import { databaseService } from './databaseService';
+import { AuditEntry, AuditRecord, AuditLogQuery } from '../types';
+import { logger } from '../utils/logger';
+import { getCurrentOrganization, getCurrentActor } from '../utils/requestContext';
+
+export class AuditService {
+
+  /**
+   * Record a change, or a failed attempt at one, for the organization and actor of the
+   * current request
+   *
+   * An audit write that fails is logged rather than thrown, so it never turns a change
+   * that was applied into an error for the caller.
+   */
+  async record(record: AuditRecord): Promise<void> {
+    const entry: Omit<AuditEntry, 'id'> = {
+      ...record,
+      timestamp: new Date().toISOString(),
+      organizationId: getCurrentOrganization().id,
+      actor: getCurrentActor()
+    };
+
+    try {
+      await databaseService.insertAuditEntry(entry);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to write audit entry', {
+        operation: 'audit_record',
+        action: entry.action,
+        overrideName: entry.overrideName,
+        outcome: entry.outcome,
+        before: entry.before,
+        after: entry.after,
+        error: errorMessage
+      });
+    }
+  }
+
+  /**
+   * Audit entries of the current organization, newest first
+   */
+  async getEntries(query: AuditLogQuery): Promise<AuditEntry[]> {
+    logger.info('Fetching audit entries', { operation: 'get_audit_entries', query });
+    return databaseService.getAuditEntries(getCurrentOrganization().id, query);
+  }
+}
+
+// Export singleton instance
+export const auditService = new AuditService();
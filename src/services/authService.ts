@@ -0,0 +1,93 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { AuthIdentity, Role, ROLES } from '../types';
+import { config } from '../config';
+import { AuthenticationError } from '../utils/errors';
+import { verifyJwt } from '../utils/jwt';
+
+// Credentials as sent by the client
+export interface RequestCredentials {
+  authorization?: string; // Authorization header, "Bearer <jwt>"
+  apiKey?: string;        // X-API-Key header
+}
+
+/**
+ * Authentication of API requests and role checks
+ *
+ * Clients authenticate with an API key from API_KEYS in the X-API-Key header, or with a
+ * JWT signed with JWT_SECRET in the Authorization header. The JWT's `sub` claim names the
+ * caller and its `role` claim (or the highest of a `roles` array) sets what it may do; its
+ * `groups` claim is matched against container permissions.
+ */
+export class AuthService {
+
+  /**
+   * Identify the caller of a request
+   * Throws AuthenticationError if there are no credentials or they are not valid
+   */
+  authenticate(credentials: RequestCredentials): AuthIdentity {
+    if (credentials.apiKey) {
+      return this.authenticateApiKey(credentials.apiKey);
+    }
+
+    const bearer = credentials.authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (bearer) {
+      return this.authenticateJwt(bearer[1]);
+    }
+
+    throw new AuthenticationError('Authentication required: send an X-API-Key header or an Authorization: Bearer token');
+  }
+
+  /**
+   * Whether `role` may do what `required` allows
+   */
+  hasRole(role: Role, required: Role): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+  }
+
+  private authenticateApiKey(key: string): AuthIdentity {
+    // Compare digests, so the comparison takes the same time whatever the key's length
+    const digest = this.digest(key);
+    const apiKey = config.auth.apiKeys.find(candidate => timingSafeEqual(this.digest(candidate.key), digest));
+
+    if (!apiKey) {
+      throw new AuthenticationError('Invalid API key');
+    }
+
+    return { subject: apiKey.name, role: apiKey.role, groups: [], method: 'api_key' };
+  }
+
+  private authenticateJwt(token: string): AuthIdentity {
+    if (!config.auth.jwtSecret) {
+      throw new AuthenticationError('Bearer tokens are not accepted: JWT_SECRET is not configured');
+    }
+
+    const claims = verifyJwt(token, {
+      secret: config.auth.jwtSecret,
+      issuer: config.auth.jwtIssuer,
+      audience: config.auth.jwtAudience
+    });
+
+    if (typeof claims.sub !== 'string' || claims.sub === '') {
+      throw new AuthenticationError('Invalid token: missing sub claim');
+    }
+
+    const claimedRoles = Array.isArray(claims.roles) ? claims.roles : [claims.role];
+    const role = [...ROLES].reverse().find(candidate => claimedRoles.includes(candidate));
+    if (!role) {
+      throw new AuthenticationError(`Invalid token: role must be one of ${ROLES.join(', ')}`);
+    }
+
+    const groups = Array.isArray(claims.groups)
+      ? claims.groups.filter((group): group is string => typeof group === 'string')
+      : [];
+
+    return { subject: claims.sub, role, groups, method: 'jwt' };
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+}
+
+// Export singleton instance
+export const authService = new AuthService();
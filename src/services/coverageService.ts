@@ -0,0 +1,154 @@
+import { databaseService } from './databaseService';
+import { overrideService } from './overrideService';
+import { CoverageRules, CoverageRulesRequest, CoverageAnalysis, CoverageSegment } from '../types';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../utils/errors';
+import { prettyLogger } from '../utils/prettyLogger';
+import { DEFAULT_COVERAGE_RULES, buildTimeline, TimelineSegment } from '../utils/coverage';
+import { getCurrentOrganization } from '../utils/requestContext';
+import { parseInTimezone, DEFAULT_TIMEZONE } from '../utils/dateFormat';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Range analysed when no end is given: the next two weeks
+const COVERAGE_DEFAULT_DAYS = 14;
+
+export class CoverageService {
+
+  /**
+   * Get the coverage rules of a container
+   * Containers without stored rules report the defaults, flagged with `isDefault`
+   */
+  async getRules(containerId: string): Promise<CoverageRules & { isDefault: boolean }> {
+    const rules = await databaseService.getCoverageRules(getCurrentOrganization().id, containerId);
+    return rules
+      ? { ...rules, isDefault: false }
+      : { containerId, ...DEFAULT_COVERAGE_RULES, isDefault: true };
+  }
+
+  /**
+   * Create or replace the coverage rules of an existing container
+   * Existing schedules are not re-validated; the rules apply to later changes
+   */
+  async setRules(containerId: string, request: CoverageRulesRequest): Promise<CoverageRules> {
+    try {
+      logger.info('Saving coverage rules', {
+        operation: 'set_coverage_rules',
+        containerId,
+        maxConcurrent: request.maxConcurrent,
+        minCoverage: request.minCoverage,
+        windowCount: request.allowedWindows?.length || 0
+      });
+
+      // Make sure the container exists before storing rules for it
+      await overrideService.getContainerById(containerId);
+
+      const rules = await databaseService.upsertCoverageRules(getCurrentOrganization().id, containerId, request);
+
+      prettyLogger.success('Coverage rules saved', {
+        containerId,
+        maxConcurrent: rules.maxConcurrent,
+        minCoverage: rules.minCoverage
+      });
+
+      return rules;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to save coverage rules', { containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the coverage rules of a container, restoring the defaults
+   */
+  async deleteRules(containerId: string): Promise<void> {
+    const deleted = await databaseService.deleteCoverageRules(getCurrentOrganization().id, containerId);
+    if (!deleted) {
+      throw new NotFoundError(`No coverage rules found for container ${containerId}`, { containerId });
+    }
+    logger.info('Coverage rules deleted', { containerId });
+  }
+
+  /**
+   * Merge the working-hours schedules of a container into a timeline over [from, to)
+   * and split it into covered segments, gaps and double-booked segments
+   * 
+   * `from` and `to` without an offset are read in the container timezone; by default
+   * the range runs from now for COVERAGE_DEFAULT_DAYS days.
+   */
+  async analyzeCoverage(containerId: string, range: { from?: string; to?: string } = {}): Promise<CoverageAnalysis> {
+    try {
+      logger.info('Analyzing container coverage', {
+        operation: 'analyze_coverage',
+        containerId,
+        ...range
+      });
+
+      const container = await overrideService.getContainerById(containerId);
+      const timezone = container.timezone || DEFAULT_TIMEZONE;
+
+      const from = range.from ? parseInTimezone(range.from, timezone) : new Date();
+      const to = range.to
+        ? parseInTimezone(range.to, timezone)
+        : new Date(from.getTime() + COVERAGE_DEFAULT_DAYS * DAY_MS);
+
+      const intervals = container.agents
+        .filter(agent => agent.workingHours)
+        .map(agent => ({
+          id: agent.agentId,
+          start: parseInTimezone(agent.startDateTime, agent.timezone || timezone),
+          end: parseInTimezone(agent.endDateTime, agent.timezone || timezone)
+        }));
+
+      const segments = buildTimeline(intervals, from, to).map(segment => this.toCoverageSegment(segment));
+
+      const covered = segments.filter(segment => segment.agentIds.length > 0);
+      const gaps = segments.filter(segment => segment.agentIds.length === 0);
+      const doubleBooked = segments.filter(segment => segment.agentIds.length > 1);
+      const totalMinutes = (list: CoverageSegment[]) => list.reduce((sum, segment) => sum + segment.minutes, 0);
+
+      const analysis: CoverageAnalysis = {
+        containerId: container.id,
+        containerName: container.name,
+        timezone,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        covered,
+        gaps,
+        doubleBooked,
+        coveredMinutes: totalMinutes(covered),
+        gapMinutes: totalMinutes(gaps),
+        doubleBookedMinutes: totalMinutes(doubleBooked)
+      };
+
+      logger.info('Container coverage analyzed', {
+        operation: 'analyze_coverage',
+        containerId,
+        gapCount: gaps.length,
+        doubleBookedCount: doubleBooked.length
+      });
+
+      return analysis;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to analyze container coverage', { containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a timeline segment to its API representation
+   */
+  private toCoverageSegment(segment: TimelineSegment): CoverageSegment {
+    return {
+      start: segment.start.toISOString(),
+      end: segment.end.toISOString(),
+      minutes: Math.round((segment.end.getTime() - segment.start.getTime()) / 60000),
+      agentIds: segment.ids
+    };
+  }
+}
+
+// Export singleton instance
+export const coverageService = new CoverageService();
@@ -1,105 +1,84 @@
-import sqlite3 from 'sqlite3';
-import path from 'path';
-import { AgentMapping, MappingRequest } from '../types';
+import {
+  AgentMapping,
+  MappingRequest,
+  RecurringSchedule,
+  RecurringScheduleRequest,
+  CoverageRules,
+  CoverageRulesRequest,
+  OAuthTokens,
+  Organization,
+  UpdateOrganizationRequest,
+  AuditEntry,
+  AuditLogQuery,
+  OverrideVersion,
+  ContainerPermission,
+  ContainerPermissionRequest
+} from '../types';
+import { config } from '../config';
+import { migrations } from '../migrations';
+import { AsyncDatabase } from '../utils/asyncDatabase';
+import { Migrator } from '../utils/migrator';
 import { logger } from '../utils/logger';
 import { prettyLogger } from '../utils/prettyLogger';
 
-// Promisify sqlite3 operations for async/await support
-class AsyncDatabase {
-  private db: sqlite3.Database;
+const RECURRING_SCHEDULE_SELECT = `
+  SELECT id, organization_id as organizationId, container_id as containerId, override_name as overrideName,
+         days_of_week as daysOfWeek, start_time as startTime, end_time as endTime,
+         working_hours as workingHours, valid_from as validFrom, valid_until as validUntil,
+         created_at as createdAt, updated_at as updatedAt
+  FROM wxcc_recurring_schedules
+`;
 
-  constructor(dbPath: string) {
-    this.db = new sqlite3.Database(dbPath);
-  }
-
-  static create(dbPath: string): Promise<AsyncDatabase> {
-    return new Promise<AsyncDatabase>((resolve, reject) => {
-      const asyncDb = new AsyncDatabase('');
-      asyncDb.db = new sqlite3.Database(dbPath, (err) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(asyncDb);
-        }
-      });
-    });
-  }
-
-  run(sql: string, params: any[] = []): Promise<{ lastID: number; changes: number }> {
-    return new Promise((resolve, reject) => {
-      this.db.run(sql, params, function(this: sqlite3.RunResult, err: Error | null) {
-        if (err) {
-          reject(err);
-        } else {
-          resolve({ lastID: this.lastID, changes: this.changes });
-        }
-      });
-    });
-  }
-
-  get<T = any>(sql: string, params: any[] = []): Promise<T | undefined> {
-    return new Promise((resolve, reject) => {
-      this.db.get<T>(sql, params, (err: Error | null, row: T) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(row);
-        }
-      });
-    });
-  }
+const ORGANIZATION_SELECT = `
+  SELECT id, name, base_url as baseUrl, timezone, access_token as accessToken,
+         refresh_token as refreshToken, client_id as clientId, client_secret as clientSecret,
+         token_url as tokenUrl, created_at as createdAt, updated_at as updatedAt
+  FROM wxcc_organizations
+`;
 
-  all<T = any>(sql: string, params: any[] = []): Promise<T[]> {
-    return new Promise((resolve, reject) => {
-      this.db.all<T>(sql, params, (err: Error | null, rows: T[]) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve(rows || []);
-        }
-      });
-    });
-  }
+const AUDIT_LOG_SELECT = `
+  SELECT id, timestamp, organization_id as organizationId, actor, action, entity_type as entityType,
+         override_name as overrideName, container_id as containerId, before_json as beforeJson,
+         after_json as afterJson, outcome, error
+  FROM audit_log
+`;
 
-  exec(sql: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.exec(sql, (err: Error | null) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
-  }
+const OVERRIDE_VERSION_SELECT = `
+  SELECT id, organization_id as organizationId, container_id as containerId,
+         override_name as overrideName, version, working_hours as workingHours,
+         start_date_time as startDateTime, end_date_time as endDateTime,
+         start_date_time_utc as startDateTimeUtc, end_date_time_utc as endDateTimeUtc,
+         timezone, container_version as containerVersion, change_type as changeType,
+         restored_from as restoredFrom, actor, created_at as createdAt
+  FROM wxcc_override_versions
+`;
 
-  close(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.close((err: Error | null) => {
-        if (err) {
-          reject(err);
-        } else {
-          resolve();
-        }
-      });
-    });
-  }
-}
+const CONTAINER_PERMISSION_SELECT = `
+  SELECT id, organization_id as organizationId, container_id as containerId,
+         principal_type as principalType, principal, access, created_at as createdAt
+  FROM wxcc_container_permissions
+`;
 
 export class DatabaseService {
   private db!: AsyncDatabase;
   private initPromise: Promise<void>;
 
   constructor(dbPath?: string) {
-    // Use a database file in the project root if not specified
-    const databasePath = dbPath || path.join(process.cwd(), 'wxcc_mappings.db');
-    
+    const databasePath = dbPath || config.database.path;
+
     // Initialize the database asynchronously
     this.initPromise = this.initializeDatabase(databasePath);
     
     logger.info('Database service initialized', { databasePath });
   }
 
+  /**
+   * Resolves once the database is open and its migrations are applied
+   */
+  async ready(): Promise<void> {
+    await this.initPromise;
+  }
+
   private async ensureInitialized(): Promise<void> {
     await this.initPromise;
   }
@@ -107,41 +86,13 @@ export class DatabaseService {
   private async initializeDatabase(databasePath: string): Promise<void> {
     try {
       this.db = await AsyncDatabase.create(databasePath);
-      
-      // Create the mappings table if it doesn't exist
-      const createTableSQL = `
-        CREATE TABLE IF NOT EXISTS wxcc_agent_mappings (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          override_name TEXT UNIQUE NOT NULL,
-          agent_name TEXT NOT NULL,
-          working_hours_active INTEGER NOT NULL DEFAULT 0,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-        )
-      `;
 
-      // Create index for faster lookups
-      const createIndexSQL = `
-        CREATE INDEX IF NOT EXISTS idx_override_name 
-        ON wxcc_agent_mappings(override_name)
-      `;
-
-      // Create trigger to update updated_at timestamp
-      const createTriggerSQL = `
-        CREATE TRIGGER IF NOT EXISTS update_timestamp
-        AFTER UPDATE ON wxcc_agent_mappings
-        BEGIN
-          UPDATE wxcc_agent_mappings 
-          SET updated_at = CURRENT_TIMESTAMP 
-          WHERE id = NEW.id;
-        END
-      `;
+      // Bring the schema up to date; see src/migrations
+      const applied = await new Migrator(this.db, migrations).up();
 
-      await this.db.exec(createTableSQL);
-      await this.db.exec(createIndexSQL);
-      await this.db.exec(createTriggerSQL);
-      
-      logger.info('Database schema initialized successfully');
+      logger.info('Database schema initialized successfully', {
+        appliedMigrations: applied.map(migration => `${migration.version}_${migration.name}`)
+      });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to initialize database schema', { error: errorMessage });
@@ -150,30 +101,30 @@ export class DatabaseService {
   }
 
   /**
-   * Get mapping for a specific override name
+   * Get mapping for a specific override name in an organization
    */
-  async getMapping(overrideName: string): Promise<AgentMapping | null> {
+  async getMapping(organizationId: string, overrideName: string): Promise<AgentMapping | null> {
     await this.ensureInitialized();
     try {
       const sql = `
-        SELECT id, override_name as overrideName, agent_name as agentName, 
+        SELECT id, organization_id as organizationId, override_name as overrideName, agent_name as agentName, 
                working_hours_active as workingHoursActive, 
                created_at as createdAt, updated_at as updatedAt
         FROM wxcc_agent_mappings 
-        WHERE override_name = ?
+        WHERE organization_id = ? AND override_name = ?
       `;
       
       prettyLogger.dbOperation({
         operation: 'SELECT',
         table: 'wxcc_agent_mappings',
         query: sql,
-        params: [overrideName]
+        params: [organizationId, overrideName]
       });
       
-      const result = await this.db.get<any>(sql, [overrideName]);
+      const result = await this.db.get<any>(sql, [organizationId, overrideName]);
       
       if (!result) {
-        prettyLogger.info('No mapping found', { overrideName });
+        prettyLogger.info('No mapping found', { organizationId, overrideName });
         return null;
       }
 
@@ -192,9 +143,10 @@ export class DatabaseService {
       return mapping;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to get mapping', { overrideName, error: errorMessage });
+      logger.error('Failed to get mapping', { organizationId, overrideName, error: errorMessage });
       prettyLogger.error('Database read failed', { 
         operation: 'getMapping',
+        organizationId,
         overrideName, 
         error: errorMessage 
       });
@@ -203,26 +155,28 @@ export class DatabaseService {
   }
 
   /**
-   * Get all mappings
+   * Get all mappings of an organization
    */
-  async getAllMappings(): Promise<AgentMapping[]> {
+  async getAllMappings(organizationId: string): Promise<AgentMapping[]> {
     await this.ensureInitialized();
     try {
       const sql = `
-        SELECT id, override_name as overrideName, agent_name as agentName, 
+        SELECT id, organization_id as organizationId, override_name as overrideName, agent_name as agentName, 
                working_hours_active as workingHoursActive,
                created_at as createdAt, updated_at as updatedAt
         FROM wxcc_agent_mappings 
+        WHERE organization_id = ?
         ORDER BY override_name
       `;
       
       prettyLogger.dbOperation({
         operation: 'SELECT ALL',
         table: 'wxcc_agent_mappings',
-        query: sql
+        query: sql,
+        params: [organizationId]
       });
       
-      const results = await this.db.all<any>(sql);
+      const results = await this.db.all<any>(sql, [organizationId]);
       
       // Convert SQLite integers to booleans
       const mappings = results.map(result => ({
@@ -239,7 +193,7 @@ export class DatabaseService {
       return mappings;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to get all mappings', { error: errorMessage });
+      logger.error('Failed to get all mappings', { organizationId, error: errorMessage });
       prettyLogger.error('Database read all failed', { 
         operation: 'getAllMappings',
         error: errorMessage 
@@ -249,18 +203,18 @@ export class DatabaseService {
   }
 
   /**
-   * Create or update a mapping
+   * Create or update a mapping in an organization
    */
-  async upsertMapping(request: MappingRequest): Promise<AgentMapping> {
+  async upsertMapping(organizationId: string, request: MappingRequest): Promise<AgentMapping> {
     await this.ensureInitialized();
     try {
       // Get current mapping for before state
-      const beforeMapping = await this.getMapping(request.overrideName);
+      const beforeMapping = await this.getMapping(organizationId, request.overrideName);
       
       const sql = `
-        INSERT INTO wxcc_agent_mappings (override_name, agent_name, working_hours_active)
-        VALUES (?, ?, 0)
-        ON CONFLICT(override_name) 
+        INSERT INTO wxcc_agent_mappings (organization_id, override_name, agent_name, working_hours_active)
+        VALUES (?, ?, ?, 0)
+        ON CONFLICT(organization_id, override_name) 
         DO UPDATE SET 
           agent_name = excluded.agent_name,
           updated_at = CURRENT_TIMESTAMP
@@ -271,18 +225,19 @@ export class DatabaseService {
         table: 'wxcc_agent_mappings',
         before: beforeMapping,
         query: sql,
-        params: [request.overrideName, request.agentName]
+        params: [organizationId, request.overrideName, request.agentName]
       });
 
-      await this.db.run(sql, [request.overrideName, request.agentName]);
+      await this.db.run(sql, [organizationId, request.overrideName, request.agentName]);
 
       // Return the updated/created mapping
-      const mapping = await this.getMapping(request.overrideName);
+      const mapping = await this.getMapping(organizationId, request.overrideName);
       if (!mapping) {
         throw new Error('Failed to create/update mapping');
       }
 
       logger.info('Mapping upserted successfully', { 
+        organizationId,
         overrideName: request.overrideName,
         agentName: request.agentName 
       });
@@ -304,6 +259,7 @@ export class DatabaseService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to upsert mapping', { 
+        organizationId,
         overrideName: request.overrideName, 
         error: errorMessage 
       });
@@ -320,18 +276,22 @@ export class DatabaseService {
   }
 
   /**
-   * Update working hours status for a mapping
+   * Update working hours status for a mapping in an organization
    */
-  async updateWorkingHours(overrideName: string, workingHoursActive: boolean): Promise<AgentMapping | null> {
+  async updateWorkingHours(
+    organizationId: string,
+    overrideName: string,
+    workingHoursActive: boolean
+  ): Promise<AgentMapping | null> {
     await this.ensureInitialized();
     try {
       // Get current mapping for before state
-      const beforeMapping = await this.getMapping(overrideName);
+      const beforeMapping = await this.getMapping(organizationId, overrideName);
       
       const sql = `
         UPDATE wxcc_agent_mappings 
         SET working_hours_active = ?, updated_at = CURRENT_TIMESTAMP
-        WHERE override_name = ?
+        WHERE organization_id = ? AND override_name = ?
       `;
 
       prettyLogger.dbOperation({
@@ -339,13 +299,13 @@ export class DatabaseService {
         table: 'wxcc_agent_mappings',
         before: beforeMapping,
         query: sql,
-        params: [workingHoursActive ? 1 : 0, overrideName]
+        params: [workingHoursActive ? 1 : 0, organizationId, overrideName]
       });
 
-      const result = await this.db.run(sql, [workingHoursActive ? 1 : 0, overrideName]);
+      const result = await this.db.run(sql, [workingHoursActive ? 1 : 0, organizationId, overrideName]);
       
       if (result.changes === 0) {
-        logger.warn('No mapping found to update working hours', { overrideName });
+        logger.warn('No mapping found to update working hours', { organizationId, overrideName });
         prettyLogger.warning('No mapping found for working hours update', { 
           overrideName,
           workingHoursActive 
@@ -353,9 +313,10 @@ export class DatabaseService {
         return null;
       }
 
-      const updatedMapping = await this.getMapping(overrideName);
+      const updatedMapping = await this.getMapping(organizationId, overrideName);
       
       logger.info('Working hours updated successfully', { 
+        organizationId,
         overrideName, 
         workingHoursActive 
       });
@@ -377,6 +338,7 @@ export class DatabaseService {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to update working hours', { 
+        organizationId,
         overrideName, 
         workingHoursActive, 
         error: errorMessage 
@@ -394,9 +356,9 @@ export class DatabaseService {
   }
 
   /**
-   * Remove mappings that are no longer present in WxCC
+   * Remove an organization's mappings that are no longer present in WxCC
    */
-  async cleanupOrphanedMappings(activeOverrideNames: string[]): Promise<number> {
+  async cleanupOrphanedMappings(organizationId: string, activeOverrideNames: string[]): Promise<number> {
     await this.ensureInitialized();
     try {
       if (activeOverrideNames.length === 0) {
@@ -407,13 +369,14 @@ export class DatabaseService {
       const placeholders = activeOverrideNames.map(() => '?').join(',');
       const sql = `
         DELETE FROM wxcc_agent_mappings 
-        WHERE override_name NOT IN (${placeholders})
+        WHERE organization_id = ? AND override_name NOT IN (${placeholders})
       `;
 
-      const result = await this.db.run(sql, activeOverrideNames);
+      const result = await this.db.run(sql, [organizationId, ...activeOverrideNames]);
       
       if (result.changes > 0) {
         logger.info('Cleaned up orphaned mappings', { 
+          organizationId,
           deletedCount: result.changes,
           activeCount: activeOverrideNames.length 
         });
@@ -428,21 +391,21 @@ export class DatabaseService {
   }
 
   /**
-   * Get mappings with active working hours for conflict detection
+   * Get an organization's mappings with active working hours for conflict detection
    */
-  async getActiveWorkingHoursMappings(): Promise<AgentMapping[]> {
+  async getActiveWorkingHoursMappings(organizationId: string): Promise<AgentMapping[]> {
     await this.ensureInitialized();
     try {
       const sql = `
-        SELECT id, override_name as overrideName, agent_name as agentName, 
+        SELECT id, organization_id as organizationId, override_name as overrideName, agent_name as agentName, 
                working_hours_active as workingHoursActive,
                created_at as createdAt, updated_at as updatedAt
         FROM wxcc_agent_mappings 
-        WHERE working_hours_active = 1
+        WHERE organization_id = ? AND working_hours_active = 1
         ORDER BY override_name
       `;
       
-      const results = await this.db.all<any>(sql);
+      const results = await this.db.all<any>(sql, [organizationId]);
       
       // Convert SQLite integers to booleans
       return results.map(result => ({
@@ -456,6 +419,781 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Create a recurring schedule template for a container of an organization
+   */
+  async createRecurringSchedule(organizationId: string, request: RecurringScheduleRequest): Promise<RecurringSchedule> {
+    await this.ensureInitialized();
+    try {
+      const sql = `
+        INSERT INTO wxcc_recurring_schedules
+          (organization_id, container_id, override_name, days_of_week, start_time, end_time, working_hours, valid_from, valid_until)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      const params = [
+        organizationId,
+        request.containerId,
+        request.overrideName,
+        request.daysOfWeek.join(','),
+        request.startTime,
+        request.endTime,
+        request.workingHours ? 1 : 0,
+        request.validFrom || null,
+        request.validUntil || null
+      ];
+
+      prettyLogger.dbOperation({
+        operation: 'INSERT',
+        table: 'wxcc_recurring_schedules',
+        query: sql,
+        params
+      });
+
+      const result = await this.db.run(sql, params);
+      const schedule = await this.getRecurringSchedule(organizationId, result.lastID);
+      if (!schedule) {
+        throw new Error('Failed to create recurring schedule');
+      }
+
+      logger.info('Recurring schedule created', { organizationId, scheduleId: schedule.id, containerId: schedule.containerId });
+
+      return schedule;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create recurring schedule', { organizationId, containerId: request.containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a recurring schedule template of an organization by ID
+   */
+  async getRecurringSchedule(organizationId: string, id: number): Promise<RecurringSchedule | null> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.get<any>(
+        `${RECURRING_SCHEDULE_SELECT} WHERE organization_id = ? AND id = ?`,
+        [organizationId, id]
+      );
+      return result ? this.mapRecurringScheduleRow(result) : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get recurring schedule', { organizationId, id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all recurring schedule templates of an organization, optionally for one container
+   */
+  async getRecurringSchedules(organizationId: string, containerId?: string): Promise<RecurringSchedule[]> {
+    await this.ensureInitialized();
+    try {
+      const results = containerId
+        ? await this.db.all<any>(
+          `${RECURRING_SCHEDULE_SELECT} WHERE organization_id = ? AND container_id = ? ORDER BY id`,
+          [organizationId, containerId]
+        )
+        : await this.db.all<any>(`${RECURRING_SCHEDULE_SELECT} WHERE organization_id = ? ORDER BY id`, [organizationId]);
+
+      return results.map(result => this.mapRecurringScheduleRow(result));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get recurring schedules', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a recurring schedule template of an organization
+   * Returns false if the organization has no template with that ID
+   */
+  async deleteRecurringSchedule(organizationId: string, id: number): Promise<boolean> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.run(
+        'DELETE FROM wxcc_recurring_schedules WHERE organization_id = ? AND id = ?',
+        [organizationId, id]
+      );
+
+      prettyLogger.dbOperation({
+        operation: 'DELETE',
+        table: 'wxcc_recurring_schedules',
+        params: [organizationId, id]
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete recurring schedule', { organizationId, id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a wxcc_recurring_schedules row to a RecurringSchedule
+   */
+  private mapRecurringScheduleRow(row: any): RecurringSchedule {
+    return {
+      ...row,
+      daysOfWeek: String(row.daysOfWeek).split(',').filter(Boolean).map(Number),
+      workingHours: Boolean(row.workingHours),
+      validFrom: row.validFrom || undefined,
+      validUntil: row.validUntil || undefined
+    };
+  }
+
+  /**
+   * Get the coverage rules of an organization's container, or null if it has none
+   */
+  async getCoverageRules(organizationId: string, containerId: string): Promise<CoverageRules | null> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.get<any>(`
+        SELECT container_id as containerId, max_concurrent as maxConcurrent, min_coverage as minCoverage,
+               allowed_windows as allowedWindows, created_at as createdAt, updated_at as updatedAt
+        FROM wxcc_coverage_rules
+        WHERE organization_id = ? AND container_id = ?
+      `, [organizationId, containerId]);
+
+      return result ? { ...result, allowedWindows: JSON.parse(result.allowedWindows) } : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get coverage rules', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the coverage rules of an organization's container
+   */
+  async upsertCoverageRules(organizationId: string, containerId: string, request: CoverageRulesRequest): Promise<CoverageRules> {
+    await this.ensureInitialized();
+    try {
+      const beforeRules = await this.getCoverageRules(organizationId, containerId);
+
+      const sql = `
+        INSERT INTO wxcc_coverage_rules (organization_id, container_id, max_concurrent, min_coverage, allowed_windows)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(organization_id, container_id)
+        DO UPDATE SET
+          max_concurrent = excluded.max_concurrent,
+          min_coverage = excluded.min_coverage,
+          allowed_windows = excluded.allowed_windows,
+          updated_at = CURRENT_TIMESTAMP
+      `;
+      const params = [
+        organizationId,
+        containerId,
+        request.maxConcurrent,
+        request.minCoverage,
+        JSON.stringify(request.allowedWindows || [])
+      ];
+
+      prettyLogger.dbOperation({
+        operation: 'UPSERT',
+        table: 'wxcc_coverage_rules',
+        before: beforeRules,
+        query: sql,
+        params
+      });
+
+      await this.db.run(sql, params);
+
+      const rules = await this.getCoverageRules(organizationId, containerId);
+      if (!rules) {
+        throw new Error('Failed to retrieve coverage rules after upsert');
+      }
+
+      logger.info('Coverage rules saved', { organizationId, containerId, maxConcurrent: rules.maxConcurrent, minCoverage: rules.minCoverage });
+
+      return rules;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to save coverage rules', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the coverage rules of an organization's container
+   * Returns false if the container had no rules
+   */
+  async deleteCoverageRules(organizationId: string, containerId: string): Promise<boolean> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.run(
+        'DELETE FROM wxcc_coverage_rules WHERE organization_id = ? AND container_id = ?',
+        [organizationId, containerId]
+      );
+
+      prettyLogger.dbOperation({
+        operation: 'DELETE',
+        table: 'wxcc_coverage_rules',
+        params: [organizationId, containerId]
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete coverage rules', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the stored WxCC OAuth2 tokens of an organization, or null if none were saved
+   */
+  async getOAuthTokens(organizationId: string): Promise<OAuthTokens | null> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.get<any>(`
+        SELECT access_token as accessToken, refresh_token as refreshToken, expires_at as expiresAt,
+               refresh_token_expires_at as refreshTokenExpiresAt, updated_at as updatedAt
+        FROM wxcc_oauth_tokens
+        WHERE organization_id = ?
+      `, [organizationId]);
+
+      if (!result) return null;
+
+      return {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken ?? undefined,
+        expiresAt: result.expiresAt ?? undefined,
+        refreshTokenExpiresAt: result.refreshTokenExpiresAt ?? undefined,
+        updatedAt: result.updatedAt
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get OAuth tokens', { organizationId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Store the current WxCC OAuth2 tokens of an organization, replacing any previous ones
+   * Token values are never logged
+   */
+  async saveOAuthTokens(organizationId: string, tokens: OAuthTokens): Promise<void> {
+    await this.ensureInitialized();
+    try {
+      await this.db.run(`
+        INSERT INTO wxcc_oauth_tokens (organization_id, access_token, refresh_token, expires_at, refresh_token_expires_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(organization_id)
+        DO UPDATE SET
+          access_token = excluded.access_token,
+          refresh_token = excluded.refresh_token,
+          expires_at = excluded.expires_at,
+          refresh_token_expires_at = excluded.refresh_token_expires_at,
+          updated_at = CURRENT_TIMESTAMP
+      `, [
+        organizationId,
+        tokens.accessToken,
+        tokens.refreshToken ?? null,
+        tokens.expiresAt ?? null,
+        tokens.refreshTokenExpiresAt ?? null
+      ]);
+
+      prettyLogger.dbOperation({
+        operation: 'UPSERT',
+        table: 'wxcc_oauth_tokens',
+        params: [organizationId]
+      });
+
+      logger.info('OAuth tokens saved', { organizationId, expiresAt: tokens.expiresAt });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to save OAuth tokens', { organizationId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove the stored WxCC OAuth2 tokens of an organization
+   */
+  async deleteOAuthTokens(organizationId: string): Promise<void> {
+    await this.ensureInitialized();
+    try {
+      await this.db.run('DELETE FROM wxcc_oauth_tokens WHERE organization_id = ?', [organizationId]);
+      logger.info('OAuth tokens deleted', { organizationId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete OAuth tokens', { organizationId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a registered organization, or null if there is none with this id
+   */
+  async getOrganization(id: string): Promise<Organization | null> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.get<any>(`${ORGANIZATION_SELECT} WHERE id = ?`, [id]);
+      return result ? this.mapOrganizationRow(result) : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get organization', { organizationId: id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all registered organizations
+   */
+  async getOrganizations(): Promise<Organization[]> {
+    await this.ensureInitialized();
+    try {
+      const results = await this.db.all<any>(`${ORGANIZATION_SELECT} ORDER BY id`);
+      return results.map(row => this.mapOrganizationRow(row));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get organizations', { error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Register an organization
+   * Credentials are stored but never logged
+   */
+  async createOrganization(organization: Organization): Promise<Organization> {
+    await this.ensureInitialized();
+    try {
+      await this.db.run(`
+        INSERT INTO wxcc_organizations
+          (id, name, base_url, timezone, access_token, refresh_token, client_id, client_secret, token_url)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        organization.id,
+        organization.name,
+        organization.baseUrl,
+        organization.timezone,
+        organization.accessToken ?? null,
+        organization.refreshToken ?? null,
+        organization.clientId ?? null,
+        organization.clientSecret ?? null,
+        organization.tokenUrl ?? null
+      ]);
+
+      prettyLogger.dbOperation({
+        operation: 'INSERT',
+        table: 'wxcc_organizations',
+        params: [organization.id, organization.name, organization.baseUrl]
+      });
+
+      const created = await this.getOrganization(organization.id);
+      if (!created) {
+        throw new Error('Failed to create organization');
+      }
+
+      logger.info('Organization created', { organizationId: organization.id, name: organization.name });
+      return created;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create organization', { organizationId: organization.id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Change the given fields of an organization
+   * Returns null if there is no organization with this id
+   */
+  async updateOrganization(id: string, changes: UpdateOrganizationRequest): Promise<Organization | null> {
+    await this.ensureInitialized();
+    try {
+      const columns: Record<keyof UpdateOrganizationRequest, string> = {
+        name: 'name',
+        baseUrl: 'base_url',
+        timezone: 'timezone',
+        accessToken: 'access_token',
+        refreshToken: 'refresh_token',
+        clientId: 'client_id',
+        clientSecret: 'client_secret',
+        tokenUrl: 'token_url'
+      };
+
+      const fields = (Object.keys(columns) as (keyof UpdateOrganizationRequest)[])
+        .filter(field => changes[field] !== undefined);
+
+      if (fields.length > 0) {
+        const assignments = fields.map(field => `${columns[field]} = ?`).join(', ');
+        // Empty strings clear optional credentials
+        const params = fields.map(field => changes[field] || null);
+
+        const result = await this.db.run(
+          `UPDATE wxcc_organizations SET ${assignments}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [...params, id]
+        );
+
+        if (result.changes === 0) {
+          return null;
+        }
+
+        prettyLogger.dbOperation({
+          operation: 'UPDATE',
+          table: 'wxcc_organizations',
+          params: [id, ...fields]
+        });
+
+        logger.info('Organization updated', { organizationId: id, updatedFields: fields });
+      }
+
+      return this.getOrganization(id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to update organization', { organizationId: id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an organization; returns false if there was none with this id
+   * Its agent mappings are kept, so registering the organization again restores them
+   */
+  async deleteOrganization(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.run('DELETE FROM wxcc_organizations WHERE id = ?', [id]);
+
+      if (result.changes > 0) {
+        logger.info('Organization deleted', { organizationId: id });
+      }
+
+      return result.changes > 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete organization', { organizationId: id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  private mapOrganizationRow(row: any): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      baseUrl: row.baseUrl,
+      timezone: row.timezone,
+      accessToken: row.accessToken ?? undefined,
+      refreshToken: row.refreshToken ?? undefined,
+      clientId: row.clientId ?? undefined,
+      clientSecret: row.clientSecret ?? undefined,
+      tokenUrl: row.tokenUrl ?? undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  /**
+   * Append an entry to the audit log
+   */
+  async insertAuditEntry(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+    await this.ensureInitialized();
+    try {
+      const sql = `
+        INSERT INTO audit_log
+          (timestamp, organization_id, actor, action, entity_type, override_name, container_id,
+           before_json, after_json, outcome, error)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      const params = [
+        entry.timestamp,
+        entry.organizationId,
+        entry.actor,
+        entry.action,
+        entry.entityType,
+        entry.overrideName,
+        entry.containerId || null,
+        JSON.stringify(entry.before ?? null),
+        JSON.stringify(entry.after ?? null),
+        entry.outcome,
+        entry.error || null
+      ];
+
+      prettyLogger.dbOperation({
+        operation: 'INSERT',
+        table: 'audit_log',
+        query: sql,
+        params
+      });
+
+      const result = await this.db.run(sql, params);
+      return { ...entry, id: result.lastID };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to insert audit entry', { action: entry.action, overrideName: entry.overrideName, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get an organization's audit entries matching the query, newest first
+   */
+  async getAuditEntries(organizationId: string, query: AuditLogQuery): Promise<AuditEntry[]> {
+    await this.ensureInitialized();
+    try {
+      const conditions = ['organization_id = ?'];
+      const params: unknown[] = [organizationId];
+
+      const filters: [string, string | undefined][] = [
+        ['override_name = ?', query.overrideName],
+        ['container_id = ?', query.containerId],
+        ['actor = ?', query.actor],
+        ['timestamp >= ?', query.from],
+        ['timestamp < ?', query.to]
+      ];
+      for (const [condition, value] of filters) {
+        if (value !== undefined) {
+          conditions.push(condition);
+          params.push(value);
+        }
+      }
+
+      const results = await this.db.all<any>(
+        `${AUDIT_LOG_SELECT} WHERE ${conditions.join(' AND ')} ORDER BY timestamp DESC, id DESC LIMIT ? OFFSET ?`,
+        [...params, query.limit, query.offset]
+      );
+
+      return results.map(result => this.mapAuditRow(result));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get audit entries', { organizationId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  private mapAuditRow(row: any): AuditEntry {
+    return {
+      id: row.id,
+      timestamp: row.timestamp,
+      organizationId: row.organizationId,
+      actor: row.actor,
+      action: row.action,
+      entityType: row.entityType,
+      overrideName: row.overrideName,
+      containerId: row.containerId ?? undefined,
+      before: row.beforeJson ? JSON.parse(row.beforeJson) : null,
+      after: row.afterJson ? JSON.parse(row.afterJson) : null,
+      outcome: row.outcome,
+      error: row.error ?? undefined
+    };
+  }
+
+  /**
+   * Append a version to an override's history, numbered after its latest version
+   */
+  async insertOverrideVersion(entry: Omit<OverrideVersion, 'id' | 'version'>): Promise<OverrideVersion> {
+    await this.ensureInitialized();
+    try {
+      // The next version number is read in the same statement, so concurrent inserts cannot share one
+      const sql = `
+        INSERT INTO wxcc_override_versions
+          (organization_id, container_id, override_name, version, working_hours, start_date_time,
+           end_date_time, start_date_time_utc, end_date_time_utc, timezone, container_version,
+           change_type, restored_from, actor, created_at)
+        SELECT ?, ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+        FROM wxcc_override_versions
+        WHERE organization_id = ? AND container_id = ? AND override_name = ?
+      `;
+      const params = [
+        entry.organizationId,
+        entry.containerId,
+        entry.overrideName,
+        entry.workingHours ? 1 : 0,
+        entry.startDateTime,
+        entry.endDateTime,
+        entry.startDateTimeUtc || null,
+        entry.endDateTimeUtc || null,
+        entry.timezone || null,
+        entry.containerVersion ?? null,
+        entry.changeType,
+        entry.restoredFrom ?? null,
+        entry.actor,
+        entry.createdAt,
+        entry.organizationId,
+        entry.containerId,
+        entry.overrideName
+      ];
+
+      prettyLogger.dbOperation({
+        operation: 'INSERT',
+        table: 'wxcc_override_versions',
+        query: sql,
+        params
+      });
+
+      const result = await this.db.run(sql, params);
+      const row = await this.db.get<any>(`${OVERRIDE_VERSION_SELECT} WHERE id = ?`, [result.lastID]);
+      return this.mapOverrideVersionRow(row);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to insert override version', {
+        containerId: entry.containerId,
+        overrideName: entry.overrideName,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the version history of an override, newest first
+   */
+  async getOverrideVersions(organizationId: string, containerId: string, overrideName: string): Promise<OverrideVersion[]> {
+    await this.ensureInitialized();
+    try {
+      const results = await this.db.all<any>(
+        `${OVERRIDE_VERSION_SELECT} WHERE organization_id = ? AND container_id = ? AND override_name = ? ORDER BY version DESC`,
+        [organizationId, containerId, overrideName]
+      );
+      return results.map(result => this.mapOverrideVersionRow(result));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get override versions', { organizationId, containerId, overrideName, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Get one version of an override
+   */
+  async getOverrideVersion(
+    organizationId: string,
+    containerId: string,
+    overrideName: string,
+    version: number
+  ): Promise<OverrideVersion | null> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.get<any>(
+        `${OVERRIDE_VERSION_SELECT} WHERE organization_id = ? AND container_id = ? AND override_name = ? AND version = ?`,
+        [organizationId, containerId, overrideName, version]
+      );
+      return result ? this.mapOverrideVersionRow(result) : null;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get override version', { organizationId, containerId, overrideName, version, error: errorMessage });
+      throw error;
+    }
+  }
+
+  private mapOverrideVersionRow(row: any): OverrideVersion {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      containerId: row.containerId,
+      overrideName: row.overrideName,
+      version: row.version,
+      workingHours: Boolean(row.workingHours),
+      startDateTime: row.startDateTime,
+      endDateTime: row.endDateTime,
+      startDateTimeUtc: row.startDateTimeUtc ?? undefined,
+      endDateTimeUtc: row.endDateTimeUtc ?? undefined,
+      timezone: row.timezone ?? undefined,
+      containerVersion: row.containerVersion ?? undefined,
+      changeType: row.changeType,
+      restoredFrom: row.restoredFrom ?? undefined,
+      actor: row.actor,
+      createdAt: row.createdAt
+    };
+  }
+
+  /**
+   * Get the permissions of an organization's containers, or of one container
+   */
+  async getContainerPermissions(organizationId: string, containerId?: string): Promise<ContainerPermission[]> {
+    await this.ensureInitialized();
+    try {
+      const results = containerId
+        ? await this.db.all<any>(
+          `${CONTAINER_PERMISSION_SELECT} WHERE organization_id = ? AND container_id = ? ORDER BY principal_type, principal`,
+          [organizationId, containerId]
+        )
+        : await this.db.all<any>(
+          `${CONTAINER_PERMISSION_SELECT} WHERE organization_id = ? ORDER BY container_id, principal_type, principal`,
+          [organizationId]
+        );
+      return results as ContainerPermission[];
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to get container permissions', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the permissions of a container in one transaction
+   */
+  async replaceContainerPermissions(
+    organizationId: string,
+    containerId: string,
+    permissions: ContainerPermissionRequest[]
+  ): Promise<ContainerPermission[]> {
+    await this.ensureInitialized();
+    try {
+      const before = await this.getContainerPermissions(organizationId, containerId);
+
+      prettyLogger.dbOperation({
+        operation: 'REPLACE',
+        table: 'wxcc_container_permissions',
+        before,
+        params: [organizationId, containerId, permissions]
+      });
+
+      await this.db.exec('BEGIN');
+      try {
+        await this.db.run(
+          'DELETE FROM wxcc_container_permissions WHERE organization_id = ? AND container_id = ?',
+          [organizationId, containerId]
+        );
+        for (const permission of permissions) {
+          await this.db.run(`
+            INSERT INTO wxcc_container_permissions (organization_id, container_id, principal_type, principal, access)
+            VALUES (?, ?, ?, ?, ?)
+          `, [organizationId, containerId, permission.principalType, permission.principal, permission.access]);
+        }
+        await this.db.exec('COMMIT');
+      } catch (error) {
+        await this.db.exec('ROLLBACK');
+        throw error;
+      }
+
+      return this.getContainerPermissions(organizationId, containerId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to replace container permissions', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every permission of a container, opening it to all roles again
+   * Returns false if the container had no permissions
+   */
+  async deleteContainerPermissions(organizationId: string, containerId: string): Promise<boolean> {
+    await this.ensureInitialized();
+    try {
+      const result = await this.db.run(
+        'DELETE FROM wxcc_container_permissions WHERE organization_id = ? AND container_id = ?',
+        [organizationId, containerId]
+      );
+
+      prettyLogger.dbOperation({
+        operation: 'DELETE',
+        table: 'wxcc_container_permissions',
+        params: [organizationId, containerId]
+      });
+
+      return result.changes > 0;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete container permissions', { organizationId, containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
   /**
    * Close the database connection
    */
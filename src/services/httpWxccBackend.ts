@@ -0,0 +1,216 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { WxccOverrideContainer, NewWxccOverrideContainer } from '../types';
+import { config } from '../config';
+import { tokenService } from './tokenService';
+import { WxccBackend } from './wxccBackend';
+import { getCurrentOrganization } from '../utils/requestContext';
+import { logger, logApiCall } from '../utils/logger';
+import { prettyLogger } from '../utils/prettyLogger';
+
+/**
+ * The WxCC Overrides API over HTTP
+ *
+ * Official WxCC API Documentation:
+ * Base URL: https://api.wxcc-{region}.cisco.com/organization/{org-id}
+ * Reference: WxCC Overrides API v2
+ */
+export class HttpWxccBackend implements WxccBackend {
+  readonly type = 'http';
+  private client: AxiosInstance;
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: config.wxcc.baseUrl,
+      timeout: config.wxcc.timeout,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // Add request interceptor for organization routing, authentication and logging
+    this.client.interceptors.request.use(async (requestConfig) => {
+      // Each organization may live in a different WxCC region
+      requestConfig.baseURL = getCurrentOrganization().baseUrl;
+
+      // Resolved per request, so refreshed tokens are picked up without a restart
+      requestConfig.headers.Authorization = `Bearer ${await tokenService.getAccessToken()}`;
+
+      const startTime = Date.now();
+      (requestConfig as any).metadata = { startTime };
+
+      // Enhanced logging: Log every WxCC API endpoint being called
+      const method = requestConfig.method?.toUpperCase() || 'GET';
+      const fullUrl = `${requestConfig.baseURL}${requestConfig.url}`;
+
+      logger.info('WxCC API Call Starting', {
+        type: 'wxcc_api_call_start',
+        method,
+        url: requestConfig.url,
+        fullUrl,
+        operation: this.getOperationNameFromUrl(requestConfig.url || ''),
+        requestBody: requestConfig.data,
+        timestamp: new Date().toISOString()
+      });
+
+      return requestConfig;
+    });
+
+    // Add response interceptor for logging
+    this.client.interceptors.response.use(
+      (response) => {
+        const endTime = Date.now();
+        const startTime = (response.config as any).metadata?.startTime || endTime;
+        const duration = endTime - startTime;
+
+        const method = response.config.method?.toUpperCase() || 'GET';
+        const fullUrl = `${response.config.baseURL}${response.config.url}`;
+
+        // Enhanced logging with full details
+        logger.info('WxCC API Call Completed', {
+          type: 'wxcc_api_call_success',
+          method,
+          url: response.config.url,
+          fullUrl,
+          duration,
+          status: response.status,
+          operation: this.getOperationNameFromUrl(response.config.url || ''),
+          responseBody: response.data,
+          timestamp: new Date().toISOString()
+        });
+
+        // Pretty logging for development
+        prettyLogger.apiCall({
+          operation: this.getOperationNameFromUrl(response.config.url || ''),
+          method,
+          url: fullUrl,
+          requestBody: response.config.data,
+          responseBody: response.data,
+          duration,
+          status: response.status
+        });
+
+        // Also maintain backward compatibility with existing logApiCall
+        logApiCall(method, fullUrl, duration, response.status);
+
+        return response;
+      },
+      (error) => {
+        const endTime = Date.now();
+        const startTime = error.config?.metadata?.startTime || endTime;
+        const duration = endTime - startTime;
+
+        const method = error.config?.method?.toUpperCase() || 'GET';
+        const fullUrl = `${error.config?.baseURL || ''}${error.config?.url || ''}`;
+
+        // Enhanced error logging
+        logger.error('WxCC API Call Failed', {
+          type: 'wxcc_api_call_error',
+          method,
+          url: error.config?.url,
+          fullUrl,
+          duration,
+          status: error.response?.status,
+          operation: this.getOperationNameFromUrl(error.config?.url || ''),
+          error: error.message,
+          requestBody: error.config?.data,
+          responseBody: error.response?.data,
+          responseHeaders: error.response?.headers,
+          timestamp: new Date().toISOString()
+        });
+
+        // Pretty error logging
+        prettyLogger.error('WxCC API call failed', {
+          operation: this.getOperationNameFromUrl(error.config?.url || ''),
+          method,
+          url: fullUrl,
+          status: error.response?.status,
+          error: error.message,
+          duration
+        });
+
+        // Also maintain backward compatibility
+        logApiCall(method, fullUrl, duration, error.response?.status);
+
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  /**
+   * Helper method to extract operation name from URL for logging
+   */
+  private getOperationNameFromUrl(url: string): string {
+    if (url.includes('/v2/overrides') && !url.includes('/overrides/')) return 'list_overrides';
+    if (url.includes('/overrides/') && url.split('/').length > 4) return 'get_override_by_id';
+    if (url.includes('/overrides/') && url.split('/').length === 4) return 'update_override_by_id';
+    return 'unknown_operation';
+  }
+
+  /**
+   * Endpoint: GET https://api.wxcc-eu2.cisco.com/organization/{org-id}/v2/overrides
+   * Reference: WxCC Overrides API v2 - List Overrides resources
+   */
+  async listContainers(organizationId: string): Promise<WxccOverrideContainer[]> {
+    const response: AxiosResponse<{
+      data?: WxccOverrideContainer[];
+      items?: WxccOverrideContainer[]
+    }> = await this.client.get(`${this.organizationPath(organizationId)}/v2/overrides`);
+
+    // Debug logging: Log raw API response data for diagnosis
+    logger.info('WxCC API raw response received', {
+      operation: 'list_containers',
+      rawResponseData: response.data,
+      statusCode: response.status,
+      headers: response.headers
+    });
+
+    return response.data.data || response.data.items || [];
+  }
+
+  /**
+   * Endpoint: GET https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides/{id}
+   * Reference: WxCC Overrides API - Get specific Overrides resource by ID
+   */
+  async getContainer(organizationId: string, containerId: string): Promise<WxccOverrideContainer> {
+    const response: AxiosResponse<WxccOverrideContainer> = await this.client.get(
+      `${this.organizationPath(organizationId)}/overrides/${containerId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Endpoint: POST https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides
+   * Reference: WxCC Overrides API - Create a new Overrides resource
+   */
+  async createContainer(organizationId: string, container: NewWxccOverrideContainer): Promise<WxccOverrideContainer> {
+    const response: AxiosResponse<WxccOverrideContainer> = await this.client.post(
+      `${this.organizationPath(organizationId)}/overrides`,
+      container
+    );
+    return response.data;
+  }
+
+  /**
+   * Endpoint: PUT https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides/{id}
+   * Reference: WxCC Overrides API - Update specific Overrides resource by ID
+   */
+  async putContainer(organizationId: string, container: WxccOverrideContainer): Promise<WxccOverrideContainer> {
+    const response: AxiosResponse<WxccOverrideContainer> = await this.client.put(
+      `${this.organizationPath(organizationId)}/overrides/${container.id}`,
+      container
+    );
+    return response.data;
+  }
+
+  /**
+   * Endpoint: DELETE https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides/{id}
+   * Reference: WxCC Overrides API - Delete specific Overrides resource by ID
+   */
+  async deleteContainer(organizationId: string, containerId: string): Promise<void> {
+    await this.client.delete(`${this.organizationPath(organizationId)}/overrides/${containerId}`);
+  }
+
+  private organizationPath(organizationId: string): string {
+    return `/organization/${organizationId}`;
+  }
+}
@@ -1,27 +1,34 @@
 import { databaseService } from './databaseService';
 import { overrideService } from './overrideService';
+import { auditService } from './auditService';
+import { permissionService } from './permissionService';
 import { 
+  AgentMapping,
   OverrideMappingResponse, 
   MappingRequest, 
   WorkingHoursToggleRequest,
   Agent,
   ValidationResult,
-  ScheduleValidationError
+  ScheduleValidationError,
+  ContainerListResult
 } from '../types';
 import { logger } from '../utils/logger';
+import { ScheduleConflictError, NotFoundError } from '../utils/errors';
 import { prettyLogger } from '../utils/prettyLogger';
+import { getCurrentOrganization } from '../utils/requestContext';
 
 export class MappingService {
   
   /**
-   * Get all override mappings with WxCC data context
+   * Get the override mappings of the containers the caller may read, with WxCC data context
+   * Containers that could not be loaded are reported as failures instead of being dropped
    */
-  async getAllMappings(): Promise<OverrideMappingResponse[]> {
+  async getAllMappings(): Promise<ContainerListResult<OverrideMappingResponse[]>> {
     try {
       logger.info('Fetching all override mappings', { operation: 'get_all_mappings' });
 
       // Get all containers and their agents from WxCC
-      const containers = await overrideService.getAllContainersWithAgents();
+      const { data: containers, cache, failures } = await overrideService.loadAllContainers();
       
       // Collect all unique override names from WxCC
       const wxccOverrides = new Map<string, Agent>();
@@ -32,7 +39,7 @@ export class MappingService {
       }
 
       // Get all mappings from database
-      const mappings = await databaseService.getAllMappings();
+      const mappings = await databaseService.getAllMappings(getCurrentOrganization().id);
       
       // Create mapping lookup for performance
       const mappingLookup = new Map(
@@ -57,10 +64,16 @@ export class MappingService {
         });
       }
 
-      // Clean up orphaned mappings
+      // Clean up orphaned mappings, but only against a complete list: the overrides of a
+      // container that failed to load are unknown, not gone
       const activeOverrideNames = Array.from(wxccOverrides.keys());
-      if (activeOverrideNames.length > 0) {
-        const cleanedCount = await databaseService.cleanupOrphanedMappings(activeOverrideNames);
+      if (failures.length > 0) {
+        logger.warn('Skipped orphaned mapping cleanup, some containers could not be loaded', {
+          operation: 'get_all_mappings',
+          failedContainerIds: failures.map(failure => failure.containerId)
+        });
+      } else if (activeOverrideNames.length > 0) {
+        const cleanedCount = await databaseService.cleanupOrphanedMappings(getCurrentOrganization().id, activeOverrideNames);
         if (cleanedCount > 0) {
           logger.info('Cleaned up orphaned mappings during fetch', { cleanedCount });
         }
@@ -68,10 +81,18 @@ export class MappingService {
 
       logger.info('Successfully fetched all mappings', { 
         totalOverrides: responses.length,
-        mappedCount: responses.filter(r => r.isMapped).length
+        mappedCount: responses.filter(r => r.isMapped).length,
+        failureCount: failures.length
       });
 
-      return responses.sort((a, b) => a.overrideName.localeCompare(b.overrideName));
+      // Orphans are cleaned up against every container, but only readable ones are returned
+      const readable = await permissionService.filterReadable(responses, response => response.containerId);
+
+      return {
+        data: readable.sort((a, b) => a.overrideName.localeCompare(b.overrideName)),
+        cache,
+        failures: await permissionService.filterReadable(failures, failure => failure.containerId)
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to get all mappings', { error: errorMessage });
@@ -83,6 +104,8 @@ export class MappingService {
    * Create or update an agent mapping
    */
   async createOrUpdateMapping(request: MappingRequest): Promise<OverrideMappingResponse> {
+    let beforeMapping: AgentMapping | null = null;
+
     try {
       logger.info('Creating/updating agent mapping', { 
         overrideName: request.overrideName,
@@ -104,14 +127,17 @@ export class MappingService {
         overrideName: request.overrideName
       });
 
+      // Get WxCC context for the permission check and the response
+      const wxccAgent = await this.getWxccAgentByOverrideName(request.overrideName);
+      if (wxccAgent) {
+        await permissionService.assertContainerAccess(wxccAgent.containerId, 'write');
+      }
+
       // Get current state before update
-      const beforeMapping = await databaseService.getMapping(request.overrideName);
+      beforeMapping = await databaseService.getMapping(getCurrentOrganization().id, request.overrideName);
 
       // Create/update the mapping
-      const mapping = await databaseService.upsertMapping(request);
-
-      // Get WxCC context for response
-      const wxccAgent = await this.getWxccAgentByOverrideName(request.overrideName);
+      const mapping = await databaseService.upsertMapping(getCurrentOrganization().id, request);
 
       const response = {
         overrideName: mapping.overrideName,
@@ -136,6 +162,16 @@ export class MappingService {
         } : null
       });
 
+      await auditService.record({
+        action: 'upsert_mapping',
+        entityType: 'mapping',
+        overrideName: request.overrideName,
+        containerId: wxccAgent?.containerId,
+        before: beforeMapping && this.toAuditMapping(beforeMapping),
+        after: this.toAuditMapping(mapping),
+        outcome: 'success'
+      });
+
       return response;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -150,6 +186,16 @@ export class MappingService {
         agentName: request.agentName,
         error: errorMessage
       });
+
+      await auditService.record({
+        action: 'upsert_mapping',
+        entityType: 'mapping',
+        overrideName: request.overrideName,
+        before: beforeMapping && this.toAuditMapping(beforeMapping),
+        after: { agentName: request.agentName },
+        outcome: 'failure',
+        error: errorMessage
+      });
       
       throw error;
     }
@@ -157,9 +203,13 @@ export class MappingService {
 
   /**
    * Toggle working hours for a mapped override with overlap validation
+   *
+   * The override is switched in WxCC first, and the local flag only once WxCC has accepted
+   * the change. If the flag then cannot be stored, the override is switched back in WxCC.
    */
   async updateWorkingHours(request: WorkingHoursToggleRequest): Promise<OverrideMappingResponse> {
     let beforeState: boolean | null = null;
+    let existingMapping: AgentMapping | null = null;
     let operationContext: any = {};
     let validationErrors: string[] = [];
     
@@ -173,7 +223,7 @@ export class MappingService {
       });
 
       // Check if mapping exists and get current state
-      const existingMapping = await databaseService.getMapping(request.overrideName);
+      existingMapping = await databaseService.getMapping(getCurrentOrganization().id, request.overrideName);
       if (!existingMapping) {
         const error = `No mapping found for override name: ${request.overrideName}`;
         logger.error('Working hours toggle failed - mapping not found', { 
@@ -188,11 +238,15 @@ export class MappingService {
           error
         });
         
-        throw new Error(error);
+        throw new NotFoundError(error, { overrideName: request.overrideName });
       }
 
       // Capture before state for logging
       beforeState = existingMapping.workingHoursActive;
+
+      // The toggle changes the override's container, so the caller needs write access to it
+      const wxccAgent = await this.validateOverrideExists(request.overrideName);
+      await permissionService.assertContainerAccess(wxccAgent.containerId, 'write');
       
       // Build operation context
       operationContext = {
@@ -214,7 +268,6 @@ export class MappingService {
         const validationResult = await this.validateWorkingHoursActivation(request.overrideName);
         if (!validationResult.isValid) {
           validationErrors = validationResult.errors.map(e => e.message);
-          const errorMessages = validationErrors.join(', ');
           
           // Enhanced validation error logging
           logger.error('Working hours validation failed', { 
@@ -233,35 +286,48 @@ export class MappingService {
             validationErrors
           );
           
-          throw new Error(`Validation failed: ${errorMessages}`);
+          throw new ScheduleConflictError(validationResult.errors);
         }
       }
 
-      // Get WxCC context for enhanced logging
-      const wxccAgent = await this.getWxccAgentByOverrideName(request.overrideName);
-      if (wxccAgent) {
-        operationContext.wxccContext = {
-          containerId: wxccAgent.containerId,
-          containerName: wxccAgent.containerName,
-          startDateTime: wxccAgent.startDateTime,
-          endDateTime: wxccAgent.endDateTime
-        };
-      }
+      // WxCC context for enhanced logging
+      operationContext.wxccContext = {
+        containerId: wxccAgent.containerId,
+        containerName: wxccAgent.containerName,
+        startDateTime: wxccAgent.startDateTime,
+        endDateTime: wxccAgent.endDateTime,
+        workingHours: wxccAgent.workingHours
+      };
 
-      // Update working hours status
-      const updatedMapping = await databaseService.updateWorkingHours(
-        request.overrideName, 
+      // Switch the override in WxCC, which is what routing follows; the coverage rules are
+      // checked there, in both directions
+      const updatedAgent = await overrideService.setAgentWorkingHours(
+        wxccAgent.containerId,
+        request.overrideName,
         request.workingHoursActive
       );
 
-      if (!updatedMapping) {
-        const error = 'Failed to update working hours status in database';
-        logger.error('Database update failed for working hours', { 
-          overrideName: request.overrideName,
-          error,
-          operation: 'update_working_hours'
-        });
-        throw new Error(error);
+      // Update working hours status, switching WxCC back if it cannot be stored
+      let updatedMapping: AgentMapping | null;
+      try {
+        updatedMapping = await databaseService.updateWorkingHours(
+          getCurrentOrganization().id,
+          request.overrideName, 
+          request.workingHoursActive
+        );
+
+        if (!updatedMapping) {
+          const error = 'Failed to update working hours status in database';
+          logger.error('Database update failed for working hours', { 
+            overrideName: request.overrideName,
+            error,
+            operation: 'update_working_hours'
+          });
+          throw new Error(error);
+        }
+      } catch (error) {
+        operationContext.wxccReverted = await this.revertWxccWorkingHours(wxccAgent);
+        throw error;
       }
 
       // Build response
@@ -270,10 +336,10 @@ export class MappingService {
         agentName: updatedMapping.agentName,
         workingHoursActive: updatedMapping.workingHoursActive,
         isMapped: true,
-        startDateTime: wxccAgent?.startDateTime,
-        endDateTime: wxccAgent?.endDateTime,
-        containerId: wxccAgent?.containerId,
-        containerName: wxccAgent?.containerName
+        startDateTime: updatedAgent.startDateTime,
+        endDateTime: updatedAgent.endDateTime,
+        containerId: updatedAgent.containerId,
+        containerName: updatedAgent.containerName
       };
 
       // Success logging - both JSON and pretty logs
@@ -299,6 +365,16 @@ export class MappingService {
         }
       );
 
+      await auditService.record({
+        action: 'update_working_hours',
+        entityType: 'mapping',
+        overrideName: request.overrideName,
+        containerId: wxccAgent?.containerId,
+        before: this.toAuditMapping(existingMapping),
+        after: this.toAuditMapping(updatedMapping),
+        outcome: 'success'
+      });
+
       return response;
       
     } catch (error) {
@@ -323,26 +399,81 @@ export class MappingService {
         error: errorMessage,
         context: operationContext
       });
+
+      await auditService.record({
+        action: 'update_working_hours',
+        entityType: 'mapping',
+        overrideName: request.overrideName,
+        containerId: operationContext.wxccContext?.containerId,
+        before: existingMapping && this.toAuditMapping(existingMapping),
+        after: { workingHoursActive: request.workingHoursActive },
+        outcome: 'failure',
+        error: errorMessage
+      });
       
       throw error;
     }
   }
 
   /**
-   * Validate that an override name exists in WxCC
+   * Switch an override's working hours in WxCC back to what they were before a toggle
+   * whose local update failed. Returns whether that succeeded; if not, WxCC and the
+   * mapping disagree until the next toggle.
+   */
+  private async revertWxccWorkingHours(before: Agent): Promise<boolean> {
+    try {
+      await overrideService.revertAgentWorkingHours(before.containerId, before.agentId, before.workingHours);
+
+      logger.warn('Reverted WxCC working hours after the mapping update failed', {
+        operation: 'update_working_hours',
+        overrideName: before.agentId,
+        containerId: before.containerId,
+        workingHours: before.workingHours
+      });
+      return true;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to revert WxCC working hours', {
+        operation: 'update_working_hours',
+        overrideName: before.agentId,
+        containerId: before.containerId,
+        workingHours: before.workingHours,
+        error: errorMessage
+      });
+      prettyLogger.error('Working hours revert failed, WxCC and the mapping disagree', {
+        overrideName: before.agentId,
+        containerId: before.containerId,
+        error: errorMessage
+      });
+      return false;
+    }
+  }
+
+  /**
+   * The parts of a mapping recorded in the audit log
+   */
+  private toAuditMapping(mapping: AgentMapping): Record<string, unknown> {
+    return {
+      agentName: mapping.agentName,
+      workingHoursActive: mapping.workingHoursActive
+    };
+  }
+
+  /**
+   * Validate that an override name exists in WxCC, returning its agent
    */
-  private async validateOverrideExists(overrideName: string): Promise<void> {
+  private async validateOverrideExists(overrideName: string): Promise<Agent> {
     const containers = await overrideService.getAllContainersWithAgents();
     
     for (const container of containers) {
       for (const agent of container.agents) {
         if (agent.agentId === overrideName) {
-          return; // Found it
+          return agent;
         }
       }
     }
     
-    throw new Error(`Override name '${overrideName}' not found in WxCC`);
+    throw new NotFoundError(`Override name '${overrideName}' not found in WxCC`, { overrideName });
   }
 
   /**
@@ -0,0 +1,204 @@
+import { databaseService } from './databaseService';
+import { overrideService } from './overrideService';
+import { tokenService } from './tokenService';
+import {
+  Organization,
+  OrganizationResponse,
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest
+} from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { prettyLogger } from '../utils/prettyLogger';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { getDefaultOrganization } from '../utils/requestContext';
+import { DEFAULT_TIMEZONE } from '../utils/dateFormat';
+
+// Fields whose change invalidates the tokens and container data held for an organization
+const CONNECTION_FIELDS: (keyof UpdateOrganizationRequest)[] = [
+  'baseUrl', 'accessToken', 'refreshToken', 'clientId', 'clientSecret', 'tokenUrl'
+];
+
+export class OrganizationService {
+
+  /**
+   * Get all registered organizations
+   */
+  async getOrganizations(): Promise<OrganizationResponse[]> {
+    const organizations = await databaseService.getOrganizations();
+    return organizations.map(organization => this.toResponse(organization, 'database'));
+  }
+
+  /**
+   * Get a registered organization for display
+   */
+  async getOrganization(id: string): Promise<OrganizationResponse> {
+    const organization = await this.resolveOrganization(id);
+    if (!organization) {
+      throw new NotFoundError(`Organization ${id} not found`, { organizationId: id });
+    }
+    return this.toResponse(organization, this.isEnvironmentOrganization(organization) ? 'environment' : 'database');
+  }
+
+  /**
+   * Find the organization an org-scoped request is made for, with its credentials
+   *
+   * Registered organizations come first. The organization configured through WXCC_ORG_ID
+   * is also reachable by its id, so single-org deployments can move to org-scoped routes
+   * without registering it.
+   */
+  async resolveOrganization(id: string): Promise<Organization | null> {
+    const organization = await databaseService.getOrganization(id);
+    if (organization) {
+      return organization;
+    }
+
+    return config.wxcc.organizationId && id === config.wxcc.organizationId ? getDefaultOrganization() : null;
+  }
+
+  /**
+   * Register an organization
+   */
+  async createOrganization(request: CreateOrganizationRequest): Promise<OrganizationResponse> {
+    try {
+      logger.info('Creating organization', {
+        operation: 'create_organization',
+        organizationId: request.id,
+        name: request.name,
+        baseUrl: request.baseUrl
+      });
+
+      if (await databaseService.getOrganization(request.id)) {
+        throw new ConflictError(`Organization ${request.id} already exists`, { organizationId: request.id });
+      }
+
+      this.assertCredentials(request);
+
+      const organization = await databaseService.createOrganization({
+        ...request,
+        timezone: request.timezone || DEFAULT_TIMEZONE
+      });
+
+      // Tokens may have been loaded for this id before, e.g. as the environment organization
+      tokenService.reset(organization.id);
+
+      prettyLogger.success('Organization created', {
+        organizationId: organization.id,
+        name: organization.name
+      });
+
+      return this.toResponse(organization, 'database');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create organization', { organizationId: request.id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Change a registered organization
+   * New credentials or a new base URL drop the tokens and container data held for it
+   */
+  async updateOrganization(id: string, request: UpdateOrganizationRequest): Promise<OrganizationResponse> {
+    try {
+      logger.info('Updating organization', {
+        operation: 'update_organization',
+        organizationId: id,
+        updatedFields: Object.keys(request)
+      });
+
+      const existing = await databaseService.getOrganization(id);
+      if (!existing) {
+        throw new NotFoundError(`Organization ${id} not found`, { organizationId: id });
+      }
+
+      // Empty strings clear optional credentials
+      const merged = { ...existing, ...request };
+      this.assertCredentials({
+        accessToken: merged.accessToken || undefined,
+        refreshToken: merged.refreshToken || undefined,
+        clientId: merged.clientId || undefined,
+        clientSecret: merged.clientSecret || undefined
+      });
+
+      const organization = await databaseService.updateOrganization(id, request);
+      if (!organization) {
+        throw new NotFoundError(`Organization ${id} not found`, { organizationId: id });
+      }
+
+      if (CONNECTION_FIELDS.some(field => request[field] !== undefined)) {
+        if (request.refreshToken !== undefined) {
+          // A stored rotated refresh token would otherwise win over the new one
+          await databaseService.deleteOAuthTokens(id);
+        }
+        tokenService.reset(id);
+        overrideService.clearCache();
+      }
+
+      return this.toResponse(organization, 'database');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to update organization', { organizationId: id, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a registered organization along with its stored tokens
+   * Agent mappings are kept, so registering the organization again restores them
+   */
+  async deleteOrganization(id: string): Promise<void> {
+    const deleted = await databaseService.deleteOrganization(id);
+    if (!deleted) {
+      throw new NotFoundError(`Organization ${id} not found`, { organizationId: id });
+    }
+
+    await databaseService.deleteOAuthTokens(id);
+    tokenService.reset(id);
+    overrideService.clearCache();
+
+    logger.info('Organization deleted', { operation: 'delete_organization', organizationId: id });
+  }
+
+  /**
+   * An organization needs an access token or a refresh token, and client credentials
+   * to use a refresh token, unless WxCC calls go to the simulator
+   */
+  private assertCredentials(credentials: Pick<Organization, 'accessToken' | 'refreshToken' | 'clientId' | 'clientSecret'>): void {
+    if (config.wxcc.backend === 'simulator') return;
+
+    if (!credentials.accessToken && !credentials.refreshToken) {
+      throw new ValidationError('Validation failed: an accessToken or refreshToken is required');
+    }
+
+    if (credentials.refreshToken && (!credentials.clientId || !credentials.clientSecret)) {
+      throw new ValidationError('Validation failed: clientId and clientSecret are required with a refreshToken');
+    }
+  }
+
+  private isEnvironmentOrganization(organization: Organization): boolean {
+    return organization.createdAt === undefined && organization.id === config.wxcc.organizationId;
+  }
+
+  /**
+   * Organization as returned by the API: credentials are reported, never returned
+   */
+  private toResponse(organization: Organization, source: OrganizationResponse['source']): OrganizationResponse {
+    return {
+      id: organization.id,
+      name: organization.name,
+      baseUrl: organization.baseUrl,
+      timezone: organization.timezone,
+      tokenUrl: organization.tokenUrl,
+      hasAccessToken: Boolean(organization.accessToken),
+      hasRefreshToken: Boolean(organization.refreshToken),
+      hasClientCredentials: Boolean(organization.clientId && organization.clientSecret),
+      source,
+      createdAt: organization.createdAt,
+      updatedAt: organization.updatedAt
+    };
+  }
+}
+
+// Export singleton instance
+export const organizationService = new OrganizationService();
@@ -1,69 +1,129 @@
-import { isAfter, isBefore, parseISO, isWithinInterval } from 'date-fns';
+import { isAfter, isBefore, isWithinInterval, isValid, max, min, differenceInMinutes } from 'date-fns';
 import {
   Agent,
   AgentStatus,
   OverrideContainer,
+  WxccOverride,
   WxccOverrideContainer,
   ValidationResult,
   ScheduleValidationError,
   UpdateAgentRequest,
+  CreateAgentRequest,
+  CreateContainerRequest,
+  UpdateContainerRequest,
+  CloneContainerRequest,
+  BulkUpdateRequest,
+  BulkUpdateItem,
+  BulkUpdateItemResult,
+  BulkUpdateResult,
   ContainerResponse,
-  AgentResponse
+  AgentResponse,
+  CoverageRules,
+  CacheStatus,
+  CachedResult,
+  ContainerListResult,
+  ContainerLoadFailure,
+  CircuitBreakerStatus,
+  WxccBackendType,
+  OverrideVersion,
+  OverrideVersionChange
 } from '../types';
 import { wxccApiClient } from './wxccApiClient';
+import { databaseService } from './databaseService';
+import { auditService } from './auditService';
+import { permissionService } from './permissionService';
+import { config } from '../config';
 import { logger, logValidationError, logScheduleConflict } from '../utils/logger';
 import { prettyLogger } from '../utils/prettyLogger';
-import { toWxccFormat, convertObjectDatesToWxcc } from '../utils/dateFormat';
+import { ScheduleValidationFailedError, NotFoundError, UpstreamError } from '../utils/errors';
+import { buildTimeline, expandWeeklyWindows, DEFAULT_COVERAGE_RULES, TimelineSegment } from '../utils/coverage';
+import { convertObjectDatesToWxcc, parseInTimezone, toWxccFormat, wxccToUtcIso, DEFAULT_TIMEZONE } from '../utils/dateFormat';
+import { TtlCache } from '../utils/ttlCache';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getCurrentOrganization, getCurrentActor } from '../utils/requestContext';
 
 export class OverrideService {
+  // Raw WxCC container details, mapped on every read so agent status stays current
+  // Both caches are keyed by organization, so tenants never see each other's containers
+  private containerCache = new TtlCache<WxccOverrideContainer>(config.cache.containerTtl);
+  private containerListCache = new TtlCache<string[]>(config.cache.containerTtl);
   
   /**
    * Fetch all containers with their agents from WxCC API
    */
   async getAllContainersWithAgents(): Promise<OverrideContainer[]> {
+    return (await this.loadAllContainers()).data;
+  }
+
+  /**
+   * Fetch all containers with their agents, reporting whether WxCC had to be called
+   * and which containers could not be loaded
+   * 
+   * The container list and each container's details are cached separately. Details
+   * are fetched in parallel, at most `config.api.fetchConcurrency` at a time.
+   */
+  async loadAllContainers(): Promise<ContainerListResult<OverrideContainer[]>> {
     try {
       logger.info('Fetching all containers with agents', { operation: 'get_all_containers' });
 
-      // First, get all container basic info
-      const containerList = await wxccApiClient.listOverrideContainers();
+      // First, get all container ids
+      const listKey = getCurrentOrganization().id;
+      const cachedIds = this.containerListCache.get(listKey);
+      let cache: CacheStatus = cachedIds ? 'hit' : 'miss';
+      const containerIds = cachedIds
+        || (await wxccApiClient.listOverrideContainers()).map(containerBasic => containerBasic.id);
+      if (!cachedIds) {
+        this.containerListCache.set(listKey, containerIds);
+      }
       
       // Then, fetch detailed info for each container to get sub-overrides (agents)
+      const settled = await mapWithConcurrency(
+        containerIds,
+        config.api.fetchConcurrency,
+        containerId => this.loadContainerDetail(containerId)
+      );
+
       const containersWithAgents: OverrideContainer[] = [];
-      
-      for (const containerBasic of containerList) {
-        try {
-          const containerDetail = await wxccApiClient.getOverrideContainerById(containerBasic.id);
-          const agents = this.mapWxccOverridesToAgents(containerDetail);
-          
-          containersWithAgents.push({
-            id: containerDetail.id,
-            name: containerDetail.name,
-            description: containerDetail.description,
-            createdAt: containerDetail.createdTime,
-            updatedAt: containerDetail.lastModifiedTime,
-            agents
-          });
-          
-          logger.info('Processed container', {
-            containerId: containerDetail.id,
-            agentCount: agents.length
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const failures: ContainerLoadFailure[] = [];
+
+      settled.forEach((result, index) => {
+        const containerId = containerIds[index];
+
+        if (result.status === 'rejected') {
+          // Continue with other containers even if one fails, but report it
+          const errorMessage = result.reason instanceof Error ? result.reason.message : 'Unknown error';
           logger.error('Failed to fetch container details', {
-            containerId: containerBasic.id,
+            containerId,
             error: errorMessage
           });
-          // Continue with other containers even if one fails
+          failures.push({ containerId, error: errorMessage });
+          cache = 'miss';
+          return;
         }
+
+        const container = this.mapWxccContainer(result.value.data);
+        if (result.value.cache === 'miss') cache = 'miss';
+
+        containersWithAgents.push(container);
+
+        logger.info('Processed container', {
+          containerId,
+          agentCount: container.agents.length
+        });
+      });
+
+      if (containerIds.length > 0 && failures.length === containerIds.length) {
+        throw new UpstreamError(`Failed to fetch details for all ${containerIds.length} containers: ${failures[0].error}`);
       }
 
       logger.info('Successfully fetched all containers', {
         operation: 'get_all_containers',
-        containerCount: containersWithAgents.length
+        containerCount: containersWithAgents.length,
+        failureCount: failures.length,
+        cache
       });
 
-      return containersWithAgents;
+      return { data: containersWithAgents, cache, failures };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to fetch containers with agents', { error: errorMessage });
@@ -75,20 +135,19 @@ export class OverrideService {
    * Get a specific container with its agents
    */
   async getContainerById(containerId: string): Promise<OverrideContainer> {
+    return (await this.loadContainer(containerId)).data;
+  }
+
+  /**
+   * Get a specific container with its agents, reporting whether WxCC had to be called
+   */
+  async loadContainer(containerId: string): Promise<CachedResult<OverrideContainer>> {
     try {
       logger.info('Fetching container by ID', { containerId, operation: 'get_container_by_id' });
 
-      const containerDetail = await wxccApiClient.getOverrideContainerById(containerId);
-      const agents = this.mapWxccOverridesToAgents(containerDetail);
+      const { data: containerDetail, cache } = await this.loadContainerDetail(containerId);
 
-      return {
-        id: containerDetail.id,
-        name: containerDetail.name,
-        description: containerDetail.description,
-        createdAt: containerDetail.createdTime,
-        updatedAt: containerDetail.lastModifiedTime,
-        agents
-      };
+      return { data: this.mapWxccContainer(containerDetail), cache };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       logger.error('Failed to fetch container by ID', { containerId, error: errorMessage });
@@ -98,18 +157,25 @@ export class OverrideService {
 
   /**
    * Update an agent's schedule with validation
+   * `restoredFrom` marks the update as the restore of that version of the override
    */
   async updateAgentSchedule(
     containerId: string,
     agentId: string,
-    updateData: UpdateAgentRequest
+    updateData: UpdateAgentRequest,
+    expectedVersion?: number,
+    restoredFrom?: number
   ): Promise<Agent> {
+    const auditAction = restoredFrom === undefined ? 'update_agent_schedule' : 'restore_agent_schedule';
+    let before: Agent | null = null;
+
     try {
       logger.info('Updating agent schedule', {
         operation: 'update_agent_schedule',
         containerId,
         agentId,
-        updateData
+        updateData,
+        expectedVersion
       });
 
       prettyLogger.info('Starting agent schedule update', {
@@ -127,15 +193,8 @@ export class OverrideService {
         endFormat: typeof updateData.endDateTime
       });
 
-      // Convert dates to WxCC format before validation and API calls
-      const wxccFormattedData = convertObjectDatesToWxcc(updateData, ['startDateTime', 'endDateTime']);
-      
-      prettyLogger.success('Converted dates to WxCC format', {
-        original_start: updateData.startDateTime,
-        original_end: updateData.endDateTime,
-        wxcc_start: wxccFormattedData.startDateTime,
-        wxcc_end: wxccFormattedData.endDateTime
-      });
+      // Schedule before the change, for the audit log; validation reads the same cached container
+      before = (await this.getContainerById(containerId)).agents.find(agent => agent.agentId === agentId) ?? null;
 
       // Validate the schedule update (using original data for validation logic)
       const validationResult = await this.validateAgentScheduleUpdate(containerId, agentId, updateData);
@@ -147,18 +206,30 @@ export class OverrideService {
           containerId,
           errors: validationResult.errors
         });
-        throw new Error(`Validation failed: ${validationResult.errors.map(e => e.message).join(', ')}`);
+        throw new ScheduleValidationFailedError(validationResult.errors);
       }
 
       prettyLogger.success('Schedule validation passed', { agentId, containerId });
 
+      // Convert dates to WxCC format, as wall-clock time in the container timezone
+      const timezone = validationResult.timezone || DEFAULT_TIMEZONE;
+      const wxccFormattedData = convertObjectDatesToWxcc(updateData, ['startDateTime', 'endDateTime'], timezone);
+      
+      prettyLogger.success('Converted dates to WxCC format', {
+        original_start: updateData.startDateTime,
+        original_end: updateData.endDateTime,
+        wxcc_start: wxccFormattedData.startDateTime,
+        wxcc_end: wxccFormattedData.endDateTime,
+        timezone
+      });
+
       // Update via WxCC API using formatted dates
-      const updatedOverride = await wxccApiClient.updateOverride(containerId, agentId, {
+      const updatedOverride = await this.writeContainer(containerId, () => wxccApiClient.updateOverride(containerId, agentId, {
         name: agentId,
         workingHours: wxccFormattedData.workingHours,
         startDateTime: wxccFormattedData.startDateTime,
         endDateTime: wxccFormattedData.endDateTime
-      });
+      }, expectedVersion));
 
       prettyLogger.success('WxCC API update successful', {
         agentId,
@@ -174,13 +245,8 @@ export class OverrideService {
       const container = await wxccApiClient.getOverrideContainerById(containerId);
       
       const updatedAgent: Agent = {
-        agentId: updatedOverride.name,
-        containerId,
-        containerName: container.name,
-        workingHours: updatedOverride.workingHours,
-        startDateTime: updatedOverride.startDateTime,
-        endDateTime: updatedOverride.endDateTime,
-        status: this.determineAgentStatus(updatedOverride.startDateTime, updatedOverride.endDateTime, updatedOverride.workingHours)
+        ...this.mapWxccOverrideToAgent(updatedOverride, container),
+        containerVersion: container.version
       };
 
       logger.info('Successfully updated agent schedule', {
@@ -199,6 +265,18 @@ export class OverrideService {
         workingHours: updatedAgent.workingHours
       });
 
+      await this.recordScheduleVersion(before, updatedAgent, restoredFrom === undefined ? 'update' : 'restore', restoredFrom);
+
+      await auditService.record({
+        action: auditAction,
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: before && this.toAuditSchedule(before),
+        after: { ...this.toAuditSchedule(updatedAgent), ...(restoredFrom !== undefined && { restoredFrom }) },
+        outcome: 'success'
+      });
+
       return updatedAgent;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -214,181 +292,1416 @@ export class OverrideService {
         error: errorMessage,
         originalData: updateData
       });
+
+      await auditService.record({
+        action: auditAction,
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: before && this.toAuditSchedule(before),
+        after: {
+          ...updateData,
+          ...(expectedVersion !== undefined && { expectedVersion }),
+          ...(restoredFrom !== undefined && { restoredFrom })
+        },
+        outcome: 'failure',
+        error: errorMessage
+      });
       
       throw error;
     }
   }
 
   /**
-   * Get currently active agents across all containers
+   * Version history of an agent's override in a container, newest first
    */
-  async getActiveAgents(): Promise<AgentResponse[]> {
-    try {
-      logger.info('Fetching currently active agents', { operation: 'get_active_agents' });
+  async getAgentScheduleVersions(containerId: string, agentId: string): Promise<OverrideVersion[]> {
+    logger.info('Fetching agent schedule versions', {
+      operation: 'get_agent_schedule_versions',
+      containerId,
+      agentId
+    });
 
-      const containers = await this.getAllContainersWithAgents();
-      const activeAgents: AgentResponse[] = [];
-      const now = new Date();
-
-      for (const container of containers) {
-        for (const agent of container.agents) {
-          if (this.isAgentCurrentlyActive(agent, now)) {
-            activeAgents.push(this.mapAgentToResponse(agent, true));
-          }
-        }
-      }
+    return databaseService.getOverrideVersions(getCurrentOrganization().id, containerId, agentId);
+  }
 
-      logger.info('Found active agents', {
-        operation: 'get_active_agents',
-        activeCount: activeAgents.length
+  /**
+   * Put an agent's schedule back to an earlier version
+   * The restore is an ordinary update: it is validated for conflicts, honours the
+   * expected container version and becomes the newest version of the override
+   */
+  async restoreAgentSchedule(
+    containerId: string,
+    agentId: string,
+    version: number,
+    expectedVersion?: number
+  ): Promise<Agent> {
+    const target = await databaseService.getOverrideVersion(getCurrentOrganization().id, containerId, agentId, version);
+    if (!target) {
+      throw new NotFoundError(`Version ${version} of agent ${agentId} in container ${containerId} not found`, {
+        containerId,
+        agentId,
+        version
       });
+    }
 
-      return activeAgents;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.error('Failed to fetch active agents', { error: errorMessage });
-      throw error;
+    logger.info('Restoring agent schedule', {
+      operation: 'restore_agent_schedule',
+      containerId,
+      agentId,
+      version,
+      expectedVersion
+    });
+
+    // The UTC instants restore the same moments even if the container timezone has changed since
+    return this.updateAgentSchedule(containerId, agentId, {
+      workingHours: target.workingHours,
+      startDateTime: target.startDateTimeUtc ?? target.startDateTime,
+      endDateTime: target.endDateTimeUtc ?? target.endDateTime
+    }, expectedVersion, version);
+  }
+
+  /**
+   * Switch an agent's working hours on or off in WxCC, keeping its dates
+   * Backs the working-hours toggle of agent mappings. The container coverage rules are checked
+   * here in both directions; schedule conflicts of an activation and the audit entry are left
+   * to the mapping service.
+   */
+  async setAgentWorkingHours(containerId: string, agentId: string, workingHours: boolean): Promise<Agent> {
+    logger.info('Setting agent working hours', {
+      operation: 'set_agent_working_hours',
+      containerId,
+      agentId,
+      workingHours
+    });
+
+    const [container, rules] = await Promise.all([
+      this.getContainerById(containerId),
+      this.getCoverageRules(containerId)
+    ]);
+    const before = container.agents.find(agent => agent.agentId === agentId) ?? null;
+
+    const proposedAgents = container.agents.map(agent => agent.agentId === agentId ? { ...agent, workingHours } : agent);
+    const errors = this.evaluateCoverageRules(rules, container.agents, proposedAgents, agentId, container.timezone);
+
+    if (errors.length > 0) {
+      logValidationError('set_agent_working_hours', errors);
+      throw new ScheduleValidationFailedError(errors);
     }
+
+    const updatedOverride = await this.writeContainer(containerId, () =>
+      wxccApiClient.updateOverride(containerId, agentId, { workingHours })
+    );
+
+    // The new container version needs a fresh read, which must not fail a write WxCC has accepted
+    const containerVersion = await wxccApiClient.getOverrideContainerById(containerId)
+      .then(detail => detail.version, () => undefined);
+    const updatedAgent: Agent = {
+      ...this.mapWxccOverrideToAgent(updatedOverride, container),
+      containerVersion
+    };
+
+    await this.recordScheduleVersion(before, updatedAgent);
+
+    return updatedAgent;
   }
 
   /**
-   * Convert container data to frontend-friendly format
+   * Put an agent's working hours back in WxCC after a toggle that could not be completed
+   * This undoes a write rather than making a change, so the coverage rules are not checked
+   * and no version is recorded; either could leave WxCC switched.
    */
-  async getContainerForFrontend(containerId: string): Promise<ContainerResponse> {
-    const container = await this.getContainerById(containerId);
-    const now = new Date();
+  async revertAgentWorkingHours(containerId: string, agentId: string, workingHours: boolean): Promise<void> {
+    await this.writeContainer(containerId, () =>
+      wxccApiClient.updateOverride(containerId, agentId, { workingHours })
+    );
+  }
 
-    const agents = container.agents.map(agent => this.mapAgentToResponse(agent, this.isAgentCurrentlyActive(agent, now)));
-    const activeAgents = agents.filter(agent => agent.isCurrentlyActive);
+  /**
+   * Add a changed schedule to the override's version history
+   * The first change to an override also records the schedule it replaced, so that
+   * one can be restored too. Like the audit log, a failed write is logged, not thrown.
+   */
+  private async recordScheduleVersion(
+    before: Agent | null,
+    after: Agent,
+    changeType: Exclude<OverrideVersionChange, 'initial'> = 'update',
+    restoredFrom?: number
+  ): Promise<void> {
+    const organizationId = getCurrentOrganization().id;
+    const actor = getCurrentActor();
+    const toVersion = (agent: Agent, changeType: OverrideVersion['changeType']): Omit<OverrideVersion, 'id' | 'version'> => ({
+      organizationId,
+      containerId: after.containerId,
+      overrideName: after.agentId,
+      workingHours: agent.workingHours,
+      startDateTime: agent.startDateTime,
+      endDateTime: agent.endDateTime,
+      startDateTimeUtc: agent.startDateTimeUtc,
+      endDateTimeUtc: agent.endDateTimeUtc,
+      timezone: agent.timezone,
+      containerVersion: agent.containerVersion,
+      changeType,
+      restoredFrom: changeType === 'restore' ? restoredFrom : undefined,
+      actor,
+      createdAt: new Date().toISOString()
+    });
+
+    try {
+      if (before && !(await databaseService.getOverrideVersion(organizationId, after.containerId, after.agentId, 1))) {
+        await databaseService.insertOverrideVersion(toVersion(before, 'initial'));
+      }
+      await databaseService.insertOverrideVersion(toVersion(after, changeType));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to record override version', {
+        operation: 'record_override_version',
+        containerId: after.containerId,
+        agentId: after.agentId,
+        error: errorMessage
+      });
+    }
+  }
 
+  /**
+   * The parts of an agent's schedule recorded in the audit log
+   */
+  private toAuditSchedule(agent: Agent): Record<string, unknown> {
     return {
-      id: container.id,
-      name: container.name,
-      description: container.description,
-      agents,
-      activeAgents,
-      totalAgents: agents.length,
-      activeCount: activeAgents.length
+      workingHours: agent.workingHours,
+      startDateTime: agent.startDateTime,
+      endDateTime: agent.endDateTime,
+      startDateTimeUtc: agent.startDateTimeUtc,
+      endDateTimeUtc: agent.endDateTimeUtc,
+      timezone: agent.timezone,
+      containerVersion: agent.containerVersion
     };
   }
 
   /**
-   * Validate agent schedule update for overlapping schedules
+   * Update many agent schedules across one or more containers
+   * 
+   * The whole batch is validated together against a single read of each
+   * container, including conflicts between the new entries themselves. Valid
+   * updates are then written with one PUT per container. With `atomic`, nothing
+   * is applied if any item fails, and containers already written are restored
+   * if a later container write fails.
    */
-  private async validateAgentScheduleUpdate(
-    containerId: string,
-    agentId: string,
-    updateData: UpdateAgentRequest
-  ): Promise<ValidationResult> {
-    const errors: ScheduleValidationError[] = [];
+  async bulkUpdateAgentSchedules(request: BulkUpdateRequest): Promise<BulkUpdateResult> {
+    const { updates, atomic = false } = request;
 
-    // Validate date format and logic
-    try {
-      const startDate = parseISO(updateData.startDateTime);
-      const endDate = parseISO(updateData.endDateTime);
+    logger.info('Starting bulk agent schedule update', {
+      operation: 'bulk_update_agent_schedules',
+      itemCount: updates.length,
+      atomic
+    });
 
-      if (isAfter(startDate, endDate)) {
-        errors.push({
-          field: 'startDateTime',
-          message: 'Start date must be before end date',
-          agentId
-        });
+    const results: BulkUpdateItemResult[] = updates.map(item => ({
+      containerId: item.containerId,
+      agentId: item.agentId,
+      success: false,
+      errors: []
+    }));
+
+    // Group item indexes by container so each container is read and written once
+    const indexesByContainer = new Map<string, number[]>();
+    updates.forEach((item, index) => {
+      const indexes = indexesByContainer.get(item.containerId) || [];
+      indexes.push(index);
+      indexesByContainer.set(item.containerId, indexes);
+    });
+
+    const containers = new Map<string, OverrideContainer>();
+    const proposedAgentsByContainer = new Map<string, Agent[]>();
+
+    for (const [containerId, indexes] of indexesByContainer.entries()) {
+      try {
+        await permissionService.assertContainerAccess(containerId, 'write');
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        indexes.forEach(index => results[index].errors!.push({
+          field: 'containerId',
+          message: errorMessage,
+          agentId: updates[index].agentId
+        }));
+        continue;
       }
 
-      if (isBefore(endDate, new Date())) {
-        errors.push({
-          field: 'endDateTime',
-          message: 'End date cannot be in the past',
-          agentId
-        });
+      try {
+        const [container, rules] = await Promise.all([
+          this.getContainerById(containerId),
+          this.getCoverageRules(containerId)
+        ]);
+        containers.set(containerId, container);
+        proposedAgentsByContainer.set(
+          containerId,
+          this.validateBulkContainerItems(container, rules, indexes.map(index => updates[index]), indexes.map(index => results[index]))
+        );
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        indexes.forEach(index => results[index].errors!.push({
+          field: 'containerId',
+          message: `Container ${containerId} could not be loaded: ${errorMessage}`,
+          agentId: updates[index].agentId
+        }));
       }
-    } catch (error) {
-      errors.push({
-        field: 'dateTime',
-        message: 'Invalid date format. Use ISO 8601 format',
-        agentId
-      });
     }
 
-    // If workingHours is true, check for overlapping schedules with other active agents
-    if (updateData.workingHours) {
-      const container = await this.getContainerById(containerId);
-      const conflictingAgent = this.findScheduleConflict(container.agents, agentId, updateData);
+    if (config.scheduling.conflictPolicy === 'cross-container') {
+      await this.validateBulkCrossContainer(updates, results, containers, proposedAgentsByContainer);
+    }
 
-      if (conflictingAgent) {
-        logScheduleConflict(agentId, conflictingAgent.agentId, containerId);
-        errors.push({
-          field: 'schedule',
-          message: `Schedule conflicts with agent ${conflictingAgent.agentId}`,
-          agentId,
-          conflictingAgentId: conflictingAgent.agentId
+    const invalidCount = results.filter(result => result.errors!.length > 0).length;
+
+    if (atomic && invalidCount > 0) {
+      logValidationError('bulk_update_agent_schedules', results.flatMap(result => result.errors!));
+      results
+        .filter(result => result.errors!.length === 0)
+        .forEach(result => result.errors!.push({
+          field: 'batch',
+          message: 'Not applied because other items in the batch failed validation',
+          agentId: result.agentId
+        }));
+
+      return this.summariseBulkResults(false, results);
+    }
+
+    // Write each container once, keeping the original schedules for atomic rollback
+    const writtenContainers: { containerId: string; originals: Agent[]; indexes: number[] }[] = [];
+
+    for (const [containerId, indexes] of indexesByContainer.entries()) {
+      const container = containers.get(containerId);
+      const validIndexes = indexes.filter(index => results[index].errors!.length === 0);
+      if (!container || validIndexes.length === 0) continue;
+
+      try {
+        const updatedOverrides = await this.writeContainer(containerId, () => wxccApiClient.updateOverrides(
+          containerId,
+          validIndexes.map(index => {
+            const item = convertObjectDatesToWxcc(updates[index], ['startDateTime', 'endDateTime'], container.timezone);
+            return {
+              agentId: item.agentId,
+              overrideData: {
+                name: item.agentId,
+                workingHours: item.workingHours,
+                startDateTime: item.startDateTime,
+                endDateTime: item.endDateTime
+              }
+            };
+          }),
+          container.version
+        ));
+
+        validIndexes.forEach((index, position) => {
+          const override = updatedOverrides[position];
+          results[index].success = true;
+          results[index].agent = this.mapWxccOverrideToAgent(override, container);
+        });
+
+        writtenContainers.push({
+          containerId,
+          indexes: validIndexes,
+          originals: container.agents.filter(agent => validIndexes.some(index => updates[index].agentId === agent.agentId))
         });
+
+        for (const index of validIndexes) {
+          const before = container.agents.find(agent => agent.agentId === updates[index].agentId);
+          await this.recordScheduleVersion(before ?? null, results[index].agent!);
+          await auditService.record({
+            action: 'bulk_update_agent_schedule',
+            entityType: 'override',
+            overrideName: updates[index].agentId,
+            containerId,
+            before: before ? this.toAuditSchedule(before) : null,
+            after: this.toAuditSchedule(results[index].agent!),
+            outcome: 'success'
+          });
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Bulk update failed for container', { containerId, error: errorMessage });
+
+        validIndexes.forEach(index => results[index].errors!.push({
+          field: 'wxcc',
+          message: errorMessage,
+          agentId: updates[index].agentId
+        }));
+
+        for (const index of validIndexes) {
+          const { agentId, workingHours, startDateTime, endDateTime } = updates[index];
+          const before = container.agents.find(agent => agent.agentId === agentId);
+          await auditService.record({
+            action: 'bulk_update_agent_schedule',
+            entityType: 'override',
+            overrideName: agentId,
+            containerId,
+            before: before ? this.toAuditSchedule(before) : null,
+            after: { workingHours, startDateTime, endDateTime },
+            outcome: 'failure',
+            error: errorMessage
+          });
+        }
+
+        if (atomic) {
+          await this.rollbackBulkWrites(writtenContainers, results);
+          return this.summariseBulkResults(false, results);
+        }
       }
     }
 
-    return {
-      isValid: errors.length === 0,
-      errors
-    };
+    const summary = this.summariseBulkResults(results.some(result => result.success), results);
+
+    logger.info('Bulk agent schedule update completed', {
+      operation: 'bulk_update_agent_schedules',
+      successCount: summary.successCount,
+      failureCount: summary.failureCount
+    });
+
+    return summary;
   }
 
   /**
-   * Find schedule conflicts with other active agents
+   * Add a new agent override to a container with validation
    */
-  private findScheduleConflict(
-    existingAgents: Agent[],
-    updatingAgentId: string,
-    updateData: UpdateAgentRequest
-  ): Agent | null {
-    const updateStart = parseISO(updateData.startDateTime);
-    const updateEnd = parseISO(updateData.endDateTime);
+  async createAgentSchedule(containerId: string, createData: CreateAgentRequest): Promise<Agent> {
+    const { agentId, ...requested } = createData;
 
-    for (const agent of existingAgents) {
-      // Skip the agent being updated
-      if (agent.agentId === updatingAgentId) continue;
+    try {
+      logger.info('Creating agent schedule', {
+        operation: 'create_agent_schedule',
+        containerId,
+        agentId,
+        createData
+      });
+
+      const scheduleData: UpdateAgentRequest = {
+        workingHours: createData.workingHours,
+        startDateTime: createData.startDateTime,
+        endDateTime: createData.endDateTime
+      };
+
+      // Same date and overlap rules as an update; the new agent is not yet in the container
+      const validationResult = await this.validateAgentScheduleUpdate(containerId, agentId, scheduleData);
       
-      // Only check conflicts with agents that have workingHours: true
-      if (!agent.workingHours) continue;
+      if (!validationResult.isValid) {
+        logValidationError('create_agent_schedule', validationResult.errors);
+        throw new ScheduleValidationFailedError(validationResult.errors);
+      }
 
-      const agentStart = parseISO(agent.startDateTime);
-      const agentEnd = parseISO(agent.endDateTime);
+      const wxccFormattedData = convertObjectDatesToWxcc(scheduleData, ['startDateTime', 'endDateTime'], validationResult.timezone);
 
-      // Check for overlap: schedules overlap if one starts before the other ends
-      const hasOverlap = 
-        isBefore(updateStart, agentEnd) && isAfter(updateEnd, agentStart);
+      const createdOverride = await this.writeContainer(containerId, () => wxccApiClient.createOverride(containerId, {
+        name: agentId,
+        workingHours: wxccFormattedData.workingHours,
+        startDateTime: wxccFormattedData.startDateTime,
+        endDateTime: wxccFormattedData.endDateTime
+      }));
 
-      if (hasOverlap) {
-        return agent;
-      }
-    }
+      // Fetch container details to get container name
+      const container = await wxccApiClient.getOverrideContainerById(containerId);
+
+      const createdAgent: Agent = this.mapWxccOverrideToAgent(createdOverride, container);
+      await this.recordScheduleVersion(null, { ...createdAgent, containerVersion: container.version }, 'create');
+
+      logger.info('Successfully created agent schedule', {
+        containerId,
+        agentId,
+        status: createdAgent.status
+      });
+
+      prettyLogger.success('Agent schedule created', {
+        agentId,
+        containerId,
+        containerName: createdAgent.containerName,
+        status: createdAgent.status
+      });
+
+      await auditService.record({
+        action: 'create_agent_schedule',
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: null,
+        after: this.toAuditSchedule(createdAgent),
+        outcome: 'success'
+      });
+
+      return createdAgent;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create agent schedule', {
+        containerId,
+        agentId,
+        error: errorMessage
+      });
 
-    return null;
+      await auditService.record({
+        action: 'create_agent_schedule',
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: null,
+        after: requested,
+        outcome: 'failure',
+        error: errorMessage
+      });
+      throw error;
+    }
   }
 
   /**
-   * Map WxCC overrides to internal Agent format
+   * Remove an agent override from a container
+   * Rejected if it would leave the container below its minimum coverage
    */
-  private mapWxccOverridesToAgents(container: WxccOverrideContainer): Agent[] {
-    if (!container.overrides) return [];
+  async deleteAgentSchedule(containerId: string, agentId: string): Promise<void> {
+    let before: Agent | null = null;
 
-    return container.overrides.map(override => ({
-      agentId: override.name,
-      containerId: container.id,
-      containerName: container.name,
-      workingHours: override.workingHours,
-      startDateTime: override.startDateTime,
-      endDateTime: override.endDateTime,
-      status: this.determineAgentStatus(override.startDateTime, override.endDateTime, override.workingHours)
-    }));
+    try {
+      logger.info('Deleting agent schedule', {
+        operation: 'delete_agent_schedule',
+        containerId,
+        agentId
+      });
+
+      // Schedule before the deletion, for the audit log; the coverage check reads the same cached container
+      const [container, rules] = await Promise.all([
+        this.getContainerById(containerId),
+        this.getCoverageRules(containerId)
+      ]);
+      before = container.agents.find(agent => agent.agentId === agentId) ?? null;
+
+      if (rules.minCoverage > 0) {
+        const remainingAgents = container.agents.filter(agent => agent.agentId !== agentId);
+        const errors = this.evaluateCoverageRules(rules, container.agents, remainingAgents, agentId, container.timezone);
+
+        if (errors.length > 0) {
+          logValidationError('delete_agent_schedule', errors);
+          throw new ScheduleValidationFailedError(errors);
+        }
+      }
+
+      await this.writeContainer(containerId, () => wxccApiClient.deleteOverride(containerId, agentId));
+
+      prettyLogger.success('Agent schedule deleted', { agentId, containerId });
+
+      // The deleted schedule is kept as the override's last version
+      if (before) {
+        await this.recordScheduleVersion(null, before, 'delete');
+      }
+
+      await auditService.record({
+        action: 'delete_agent_schedule',
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: before && this.toAuditSchedule(before),
+        after: null,
+        outcome: 'success'
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete agent schedule', {
+        containerId,
+        agentId,
+        error: errorMessage
+      });
+
+      await auditService.record({
+        action: 'delete_agent_schedule',
+        entityType: 'override',
+        overrideName: agentId,
+        containerId,
+        before: before && this.toAuditSchedule(before),
+        after: null,
+        outcome: 'failure',
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get currently active agents across the containers the caller may read
+   */
+  async getActiveAgents(): Promise<ContainerListResult<AgentResponse[]>> {
+    try {
+      logger.info('Fetching currently active agents', { operation: 'get_active_agents' });
+
+      const { data: allContainers, cache, failures } = await this.loadAllContainers();
+      const containers = await permissionService.filterReadable(allContainers, container => container.id);
+      const activeAgents: AgentResponse[] = [];
+      const now = new Date();
+
+      for (const container of containers) {
+        for (const agent of container.agents) {
+          if (this.isAgentCurrentlyActive(agent, now)) {
+            activeAgents.push(this.mapAgentToResponse(agent, true));
+          }
+        }
+      }
+
+      logger.info('Found active agents', {
+        operation: 'get_active_agents',
+        activeCount: activeAgents.length
+      });
+
+      return {
+        data: activeAgents,
+        cache,
+        failures: await permissionService.filterReadable(failures, failure => failure.containerId)
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to fetch active agents', { error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * State of the connection to WxCC, for the health check
+   */
+  getWxccHealth(): {
+    backend: WxccBackendType;
+    circuitBreaker: CircuitBreakerStatus;
+    organizations: Record<string, CircuitBreakerStatus>;
+  } {
+    return {
+      backend: wxccApiClient.backendType,
+      circuitBreaker: wxccApiClient.getCircuitBreakerStatus(),
+      organizations: wxccApiClient.getCircuitBreakerStatuses()
+    };
+  }
+
+  /**
+   * Drop all cached container data, e.g. after an organization's WxCC settings changed
+   */
+  clearCache(): void {
+    this.containerCache.clear();
+    this.containerListCache.clear();
+  }
+
+  /**
+   * Convert container data to frontend-friendly format
+   */
+  async getContainerForFrontend(containerId: string): Promise<CachedResult<ContainerResponse>> {
+    const { data: container, cache } = await this.loadContainer(containerId);
+    return { data: this.mapContainerToResponse(container), cache };
+  }
+
+  /**
+   * Convert the containers the caller may read to frontend-friendly format
+   */
+  async getAllContainersForFrontend(): Promise<ContainerListResult<ContainerResponse[]>> {
+    const { data: containers, cache, failures } = await this.loadAllContainers();
+    const readable = await permissionService.filterReadable(containers, container => container.id);
+
+    return {
+      data: readable.map(container => this.mapContainerToResponse(container)),
+      cache,
+      failures: await permissionService.filterReadable(failures, failure => failure.containerId)
+    };
+  }
+
+  /**
+   * Create a new, empty override container
+   */
+  async createContainer(createData: CreateContainerRequest): Promise<ContainerResponse> {
+    try {
+      logger.info('Creating override container', {
+        operation: 'create_container',
+        createData
+      });
+
+      const created = await this.writeContainer(undefined, () => wxccApiClient.createOverrideContainer(createData));
+
+      prettyLogger.success('Override container created', {
+        containerId: created.id,
+        name: created.name,
+        timezone: created.timezone
+      });
+
+      return this.mapContainerToResponse(this.mapWxccContainer(created));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create override container', { name: createData.name, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Edit a container's name, description and/or timezone
+   */
+  async updateContainer(containerId: string, updateData: UpdateContainerRequest): Promise<ContainerResponse> {
+    try {
+      logger.info('Updating override container', {
+        operation: 'update_container',
+        containerId,
+        updateData
+      });
+
+      const updated = await this.writeContainer(containerId, () => wxccApiClient.updateOverrideContainer(containerId, updateData));
+
+      prettyLogger.success('Override container updated', {
+        containerId,
+        updatedFields: Object.keys(updateData)
+      });
+
+      return this.mapContainerToResponse(this.mapWxccContainer(updated));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to update override container', { containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a copy of an existing container, including all of its overrides
+   */
+  async cloneContainer(sourceContainerId: string, cloneData: CloneContainerRequest): Promise<ContainerResponse> {
+    try {
+      logger.info('Cloning override container', {
+        operation: 'clone_container',
+        sourceContainerId,
+        cloneData
+      });
+
+      const source = await wxccApiClient.getOverrideContainerById(sourceContainerId);
+      const sourceTimezone = source.timezone || getCurrentOrganization().timezone;
+      const timezone = cloneData.timezone || sourceTimezone;
+
+      // Overrides keep their instants, so in another timezone their wall-clock times change
+      const toTimezone = (wxccDate: string) => timezone === sourceTimezone
+        ? wxccDate
+        : toWxccFormat(wxccToUtcIso(wxccDate, sourceTimezone), timezone);
+
+      const cloned = await this.writeContainer(undefined, () => wxccApiClient.createOverrideContainer(
+        {
+          name: cloneData.name,
+          description: cloneData.description ?? source.description,
+          timezone
+        },
+        (source.overrides || []).map(override => ({
+          ...override,
+          startDateTime: toTimezone(override.startDateTime),
+          endDateTime: toTimezone(override.endDateTime)
+        }))
+      ));
+
+      prettyLogger.success('Override container cloned', {
+        sourceContainerId,
+        containerId: cloned.id,
+        name: cloned.name,
+        overrideCount: cloned.overrides?.length || 0
+      });
+
+      return this.mapContainerToResponse(this.mapWxccContainer(cloned));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to clone override container', { sourceContainerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an override container and all of its overrides
+   */
+  async deleteContainer(containerId: string): Promise<void> {
+    try {
+      logger.info('Deleting override container', {
+        operation: 'delete_container',
+        containerId
+      });
+
+      await this.writeContainer(containerId, () => wxccApiClient.deleteOverrideContainer(containerId));
+
+      prettyLogger.success('Override container deleted', { containerId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to delete override container', { containerId, error: errorMessage });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate agent schedule update for overlapping schedules
+   * Dates without an offset are read in the container timezone, which is returned
+   * with the result so callers convert the dates the same way
+   */
+  private async validateAgentScheduleUpdate(
+    containerId: string,
+    agentId: string,
+    updateData: UpdateAgentRequest
+  ): Promise<ValidationResult & { timezone: string }> {
+    const [container, rules] = await Promise.all([
+      this.getContainerById(containerId),
+      this.getCoverageRules(containerId)
+    ]);
+    const timezone = container.timezone || DEFAULT_TIMEZONE;
+    const dateErrors = this.validateScheduleDates(agentId, updateData, timezone);
+    const errors: ScheduleValidationError[] = [...dateErrors];
+
+    // Containers allowing a single agent at a time report each clashing agent individually
+    if (updateData.workingHours && rules.maxConcurrent <= 1) {
+      errors.push(...this.findScheduleConflicts(container.agents, agentId, updateData, timezone));
+    }
+
+    if (dateErrors.length === 0) {
+      const proposedAgents = this.applyScheduleToAgents(container, agentId, updateData);
+      errors.push(...this.evaluateCoverageRules(rules, container.agents, proposedAgents, agentId, timezone));
+    }
+
+    // If workingHours is true, check for overlapping schedules of the same agent elsewhere
+    if (updateData.workingHours) {
+
+      if (config.scheduling.conflictPolicy === 'cross-container') {
+        const [allContainers, getLinkedOverrideNames] = await Promise.all([
+          this.loadContainersForConflictCheck(),
+          this.loadLinkedOverrideNames()
+        ]);
+
+        errors.push(...this.findCrossContainerConflicts(
+          allContainers,
+          containerId,
+          agentId,
+          updateData,
+          getLinkedOverrideNames(agentId),
+          timezone
+        ));
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      timezone
+    };
+  }
+
+  /**
+   * Validate the bulk items for one container against its current agents and each other
+   */
+  private validateBulkContainerItems(
+    container: OverrideContainer,
+    rules: CoverageRules,
+    items: BulkUpdateItem[],
+    results: BulkUpdateItemResult[]
+  ): Agent[] {
+    const seenAgentIds = new Set<string>();
+
+    items.forEach((item, position) => {
+      const errors = results[position].errors!;
+
+      if (seenAgentIds.has(item.agentId)) {
+        errors.push({
+          field: 'agentId',
+          message: `Agent ${item.agentId} appears more than once for container ${container.id}`,
+          agentId: item.agentId
+        });
+      }
+      seenAgentIds.add(item.agentId);
+
+      if (!container.agents.some(agent => agent.agentId === item.agentId)) {
+        errors.push({
+          field: 'agentId',
+          message: `Agent ${item.agentId} not found in container ${container.id}`,
+          agentId: item.agentId
+        });
+      }
+
+      errors.push(...this.validateScheduleDates(item.agentId, item, container.timezone));
+    });
+
+    // Valid items as they will be stored: minute precision, wall-clock in the container timezone
+    const storedItems = items.map((item, position) => results[position].errors!.length > 0
+      ? item
+      : convertObjectDatesToWxcc(item, ['startDateTime', 'endDateTime'], container.timezone));
+
+    // The container as it would look with every valid item of the batch applied
+    const proposedAgents: Agent[] = container.agents.map(agent => {
+      const position = items.findIndex(item => item.agentId === agent.agentId);
+      if (position === -1 || results[position].errors!.length > 0) return agent;
+
+      const item = storedItems[position];
+      return {
+        ...agent,
+        workingHours: item.workingHours,
+        startDateTime: item.startDateTime,
+        endDateTime: item.endDateTime
+      };
+    });
+
+    storedItems.forEach((item, position) => {
+      if (results[position].errors!.length > 0) return;
+
+      if (item.workingHours && rules.maxConcurrent <= 1) {
+        results[position].errors!.push(...this.findScheduleConflicts(proposedAgents, item.agentId, item, container.timezone));
+      }
+
+      results[position].errors!.push(
+        ...this.evaluateCoverageRules(rules, container.agents, proposedAgents, item.agentId, container.timezone)
+      );
+    });
+
+    return proposedAgents;
+  }
+
+  /**
+   * Every container, for the cross-container conflict policy
+   * A container that could not be loaded may hold a conflicting schedule, so the check
+   * fails rather than pass on the containers that did load.
+   */
+  private async loadContainersForConflictCheck(): Promise<OverrideContainer[]> {
+    const { data, failures } = await this.loadAllContainers();
+
+    if (failures.length > 0) {
+      throw new UpstreamError(
+        `Schedule conflicts could not be checked across containers: ${failures.map(failure => failure.containerId).join(', ')} could not be loaded`
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Check valid bulk items against overrides of the same agent in other containers
+   * Containers in the batch are checked as they would look with the batch applied
+   */
+  private async validateBulkCrossContainer(
+    updates: BulkUpdateItem[],
+    results: BulkUpdateItemResult[],
+    containers: Map<string, OverrideContainer>,
+    proposedAgentsByContainer: Map<string, Agent[]>
+  ): Promise<void> {
+    const pending = updates
+      .map((item, index) => ({ item, index }))
+      .filter(({ item, index }) => item.workingHours && results[index].errors!.length === 0);
+
+    if (pending.length === 0) return;
+
+    let allContainers: OverrideContainer[];
+    let getLinkedOverrideNames: (overrideName: string) => Set<string>;
+    try {
+      [allContainers, getLinkedOverrideNames] = await Promise.all([
+        this.loadContainersForConflictCheck(),
+        this.loadLinkedOverrideNames()
+      ]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      pending.forEach(({ item, index }) => results[index].errors!.push({
+        field: 'schedule',
+        message: errorMessage,
+        agentId: item.agentId
+      }));
+      return;
+    }
+
+    const proposedContainers = allContainers.map(container => ({
+      ...container,
+      agents: proposedAgentsByContainer.get(container.id) || container.agents
+    }));
+
+    for (const { item, index } of pending) {
+      results[index].errors!.push(...this.findCrossContainerConflicts(
+        proposedContainers,
+        item.containerId,
+        item.agentId,
+        item,
+        getLinkedOverrideNames(item.agentId),
+        containers.get(item.containerId)?.timezone
+      ));
+    }
+  }
+
+  /**
+   * Restore containers already written by an atomic bulk update that later failed
+   */
+  private async rollbackBulkWrites(
+    writtenContainers: { containerId: string; originals: Agent[]; indexes: number[] }[],
+    results: BulkUpdateItemResult[]
+  ): Promise<void> {
+    for (const { containerId, originals, indexes } of writtenContainers) {
+      try {
+        await this.writeContainer(containerId, () => wxccApiClient.updateOverrides(containerId, originals.map(agent => ({
+          agentId: agent.agentId,
+          overrideData: {
+            workingHours: agent.workingHours,
+            startDateTime: agent.startDateTime,
+            endDateTime: agent.endDateTime
+          }
+        }))));
+
+        for (const index of indexes) {
+          const original = originals.find(agent => agent.agentId === results[index].agentId);
+          if (original) {
+            await this.recordScheduleVersion(results[index].agent!, original, 'rollback');
+          }
+          await auditService.record({
+            action: 'rollback_agent_schedule',
+            entityType: 'override',
+            overrideName: results[index].agentId,
+            containerId,
+            before: this.toAuditSchedule(results[index].agent!),
+            after: original ? this.toAuditSchedule(original) : null,
+            outcome: 'success'
+          });
+        }
+
+        indexes.forEach(index => {
+          results[index].success = false;
+          results[index].agent = undefined;
+          results[index].errors!.push({
+            field: 'batch',
+            message: 'Rolled back because another container in the batch failed to update',
+            agentId: results[index].agentId
+          });
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to roll back bulk update for container', { containerId, error: errorMessage });
+
+        for (const index of indexes) {
+          const original = originals.find(agent => agent.agentId === results[index].agentId);
+          await auditService.record({
+            action: 'rollback_agent_schedule',
+            entityType: 'override',
+            overrideName: results[index].agentId,
+            containerId,
+            before: this.toAuditSchedule(results[index].agent!),
+            after: original ? this.toAuditSchedule(original) : null,
+            outcome: 'failure',
+            error: errorMessage
+          });
+        }
+        prettyLogger.error('Bulk update rollback failed, container left with new schedules', {
+          containerId,
+          error: errorMessage
+        });
+      }
+    }
+
+    // Items that were never attempted in the aborted batch
+    results
+      .filter(result => !result.success && result.errors!.length === 0)
+      .forEach(result => result.errors!.push({
+        field: 'batch',
+        message: 'Not applied because another container in the batch failed to update',
+        agentId: result.agentId
+      }));
+  }
+
+  /**
+   * Build the bulk update summary, dropping empty error lists
+   */
+  private summariseBulkResults(applied: boolean, results: BulkUpdateItemResult[]): BulkUpdateResult {
+    const cleaned = results.map(result => ({
+      ...result,
+      errors: result.errors && result.errors.length > 0 ? result.errors : undefined
+    }));
+
+    return {
+      applied,
+      results: cleaned,
+      successCount: cleaned.filter(result => result.success).length,
+      failureCount: cleaned.filter(result => !result.success).length
+    };
+  }
+
+  /**
+   * Validate date format and logic of a schedule
+   */
+  private validateScheduleDates(
+    agentId: string,
+    updateData: UpdateAgentRequest,
+    timezone: string = DEFAULT_TIMEZONE
+  ): ScheduleValidationError[] {
+    const errors: ScheduleValidationError[] = [];
+
+    try {
+      const startDate = parseInTimezone(updateData.startDateTime, timezone);
+      const endDate = parseInTimezone(updateData.endDateTime, timezone);
+
+      if (!isValid(startDate) || !isValid(endDate)) {
+        throw new Error('Invalid date');
+      }
+
+      if (isAfter(startDate, endDate)) {
+        errors.push({
+          field: 'startDateTime',
+          message: 'Start date must be before end date',
+          agentId
+        });
+      }
+
+      if (isBefore(endDate, new Date())) {
+        errors.push({
+          field: 'endDateTime',
+          message: 'End date cannot be in the past',
+          agentId
+        });
+      }
+    } catch (error) {
+      errors.push({
+        field: 'dateTime',
+        message: 'Invalid date format. Use ISO 8601 format',
+        agentId
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find every schedule conflict with other active agents
+   * Schedules are compared as instants, so agents stored in different timezones compare correctly
+   */
+  private findScheduleConflicts(
+    existingAgents: Agent[],
+    updatingAgentId: string,
+    updateData: UpdateAgentRequest,
+    timezone: string = DEFAULT_TIMEZONE
+  ): ScheduleValidationError[] {
+    const updateStart = parseInTimezone(updateData.startDateTime, timezone);
+    const updateEnd = parseInTimezone(updateData.endDateTime, timezone);
+    const errors: ScheduleValidationError[] = [];
+
+    for (const agent of existingAgents) {
+      // Skip the agent being updated
+      if (agent.agentId === updatingAgentId) continue;
+      
+      // Only check conflicts with agents that have workingHours: true
+      if (!agent.workingHours) continue;
+
+      const conflict = this.buildConflictError(updatingAgentId, agent, updateStart, updateEnd, timezone);
+      if (conflict) {
+        errors.push(conflict);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Coverage rules of a container, falling back to the defaults when none are stored
+   */
+  private async getCoverageRules(containerId: string): Promise<CoverageRules> {
+    const rules = await databaseService.getCoverageRules(getCurrentOrganization().id, containerId);
+    return rules || { containerId, ...DEFAULT_COVERAGE_RULES };
+  }
+
+  /**
+   * The agents of a container as they would be with one schedule created or replaced
+   */
+  private applyScheduleToAgents(container: OverrideContainer, agentId: string, updateData: UpdateAgentRequest): Agent[] {
+    const stored = convertObjectDatesToWxcc(updateData, ['startDateTime', 'endDateTime'], container.timezone);
+    const proposedAgent = this.mapWxccOverrideToAgent({
+      name: agentId,
+      workingHours: stored.workingHours,
+      startDateTime: stored.startDateTime,
+      endDateTime: stored.endDateTime
+    }, container);
+
+    return [...container.agents.filter(agent => agent.agentId !== agentId), proposedAgent];
+  }
+
+  /**
+   * Check one agent's change against the container coverage rules
+   * 
+   * - maxConcurrent (above 1): working-hours agents at any time during the new schedule
+   * - allowedWindows: the new schedule must lie inside the container's weekly windows
+   * - minCoverage: wherever the agent's previous schedule is given up, from now on,
+   *   enough other agents must still be working
+   * Pass `afterAgents` without the agent to check its removal.
+   */
+  private evaluateCoverageRules(
+    rules: CoverageRules,
+    beforeAgents: Agent[],
+    afterAgents: Agent[],
+    agentId: string,
+    timezone: string = DEFAULT_TIMEZONE
+  ): ScheduleValidationError[] {
+    const errors: ScheduleValidationError[] = [];
+    const toInterval = (agent: Agent) => ({
+      id: agent.agentId,
+      start: parseInTimezone(agent.startDateTime, agent.timezone || timezone),
+      end: parseInTimezone(agent.endDateTime, agent.timezone || timezone)
+    });
+    const violation = (field: string, message: string, segment: TimelineSegment): ScheduleValidationError => ({
+      field,
+      message: `${message} between ${segment.start.toISOString()} and ${segment.end.toISOString()}`,
+      agentId,
+      overlapStart: segment.start.toISOString(),
+      overlapEnd: segment.end.toISOString(),
+      overlapMinutes: differenceInMinutes(segment.end, segment.start)
+    });
+
+    const workingIntervals = afterAgents.filter(agent => agent.workingHours).map(toInterval);
+    const updatedAgent = afterAgents.find(agent => agent.agentId === agentId);
+    const previousAgent = beforeAgents.find(agent => agent.agentId === agentId);
+
+    if (updatedAgent?.workingHours) {
+      const { start, end } = toInterval(updatedAgent);
+
+      if (rules.maxConcurrent > 1) {
+        buildTimeline(workingIntervals, start, end)
+          .filter(segment => segment.ids.length > rules.maxConcurrent)
+          .forEach(segment => errors.push(violation(
+            'maxConcurrent',
+            `${segment.ids.length} agents would be working at once (maximum ${rules.maxConcurrent})`,
+            segment
+          )));
+      }
+
+      if (rules.allowedWindows.length > 0) {
+        const windows = expandWeeklyWindows(rules.allowedWindows, start, end, timezone)
+          .map((window, index) => ({ ...window, id: `window-${index}` }));
+
+        buildTimeline(windows, start, end)
+          .filter(segment => segment.ids.length === 0)
+          .forEach(segment => errors.push(violation('allowedWindows', 'Schedule is outside the allowed windows', segment)));
+      }
+    }
+
+    if (rules.minCoverage > 0 && previousAgent?.workingHours) {
+      const previous = toInterval(previousAgent);
+      const from = max([previous.start, new Date()]);
+
+      if (from < previous.end) {
+        buildTimeline(workingIntervals, from, previous.end)
+          .filter(segment => segment.ids.length < rules.minCoverage)
+          .forEach(segment => errors.push(violation(
+            'minCoverage',
+            `Coverage would drop to ${segment.ids.length} agents (minimum ${rules.minCoverage})`,
+            segment
+          )));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Find working-hours overrides of the same agent in other containers that overlap the update
+   */
+  private findCrossContainerConflicts(
+    containers: OverrideContainer[],
+    containerId: string,
+    agentId: string,
+    updateData: UpdateAgentRequest,
+    linkedOverrideNames: Set<string>,
+    timezone: string = DEFAULT_TIMEZONE
+  ): ScheduleValidationError[] {
+    const updateStart = parseInTimezone(updateData.startDateTime, timezone);
+    const updateEnd = parseInTimezone(updateData.endDateTime, timezone);
+    const errors: ScheduleValidationError[] = [];
+
+    for (const container of containers) {
+      if (container.id === containerId) continue;
+
+      for (const agent of container.agents) {
+        if (!agent.workingHours || !linkedOverrideNames.has(agent.agentId)) continue;
+
+        const conflict = this.buildConflictError(agentId, agent, updateStart, updateEnd, container.timezone, container);
+        if (conflict) {
+          errors.push(conflict);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Describe the overlap between an update and an existing agent schedule, or null if they do not overlap
+   * Pass the other container when the existing schedule is in a different container from the update
+   */
+  private buildConflictError(
+    agentId: string,
+    existingAgent: Agent,
+    updateStart: Date,
+    updateEnd: Date,
+    timezone: string = DEFAULT_TIMEZONE,
+    otherContainer?: OverrideContainer
+  ): ScheduleValidationError | null {
+    const agentStart = parseInTimezone(existingAgent.startDateTime, existingAgent.timezone || timezone);
+    const agentEnd = parseInTimezone(existingAgent.endDateTime, existingAgent.timezone || timezone);
+
+    // Check for overlap: schedules overlap if one starts before the other ends
+    if (!(isBefore(updateStart, agentEnd) && isAfter(updateEnd, agentStart))) {
+      return null;
+    }
+
+    const overlapStart = max([updateStart, agentStart]);
+    const overlapEnd = min([updateEnd, agentEnd]);
+
+    logScheduleConflict(agentId, existingAgent.agentId, existingAgent.containerId);
+
+    return {
+      field: 'schedule',
+      message: otherContainer
+        ? `Schedule conflicts with agent ${existingAgent.agentId} in container ${otherContainer.name}`
+        : `Schedule conflicts with agent ${existingAgent.agentId}`,
+      agentId,
+      conflictingAgentId: existingAgent.agentId,
+      ...(otherContainer && { conflictingContainerId: otherContainer.id }),
+      overlapStart: overlapStart.toISOString(),
+      overlapEnd: overlapEnd.toISOString(),
+      overlapMinutes: differenceInMinutes(overlapEnd, overlapStart)
+    };
+  }
+
+  /**
+   * Build a lookup from an override name to every override name mapped to the same agent
+   * Agent names are compared ignoring case and surrounding whitespace; an unmapped
+   * override is only linked to itself
+   */
+  private async loadLinkedOverrideNames(): Promise<(overrideName: string) => Set<string>> {
+    const mappings = await databaseService.getAllMappings(getCurrentOrganization().id);
+    const agentKey = (agentName: string) => agentName.trim().toLowerCase();
+
+    const overrideNamesByAgent = new Map<string, string[]>();
+    for (const mapping of mappings) {
+      const names = overrideNamesByAgent.get(agentKey(mapping.agentName)) || [];
+      names.push(mapping.overrideName);
+      overrideNamesByAgent.set(agentKey(mapping.agentName), names);
+    }
+
+    const agentByOverrideName = new Map(mappings.map(mapping => [mapping.overrideName, agentKey(mapping.agentName)]));
+
+    return (overrideName: string) => {
+      const agent = agentByOverrideName.get(overrideName);
+      return new Set([overrideName, ...(agent ? overrideNamesByAgent.get(agent) || [] : [])]);
+    };
+  }
+
+  /**
+   * Get raw container details from the cache, or from WxCC on a miss
+   */
+  private async loadContainerDetail(containerId: string): Promise<CachedResult<WxccOverrideContainer>> {
+    const key = this.containerCacheKey(containerId);
+    const cached = this.containerCache.get(key);
+    if (cached) {
+      return { data: cached, cache: 'hit' };
+    }
+
+    const containerDetail = await wxccApiClient.getOverrideContainerById(containerId);
+    this.containerCache.set(key, containerDetail);
+    return { data: containerDetail, cache: 'miss' };
+  }
+
+  /**
+   * Run a WxCC write and invalidate the cached container, whether or not the write succeeded
+   * Writes without a container id (new containers) only invalidate the container list
+   */
+  private async writeContainer<T>(containerId: string | undefined, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } finally {
+      if (containerId) {
+        this.containerCache.delete(this.containerCacheKey(containerId));
+      }
+      this.containerListCache.delete(getCurrentOrganization().id);
+    }
+  }
+
+  private containerCacheKey(containerId: string): string {
+    return `${getCurrentOrganization().id}:${containerId}`;
+  }
+
+  /**
+   * Map a WxCC container to internal OverrideContainer format
+   */
+  private mapWxccContainer(containerDetail: WxccOverrideContainer): OverrideContainer {
+    return {
+      id: containerDetail.id,
+      name: containerDetail.name,
+      description: containerDetail.description,
+      // Containers without a timezone are read in their organization's timezone
+      timezone: containerDetail.timezone || getCurrentOrganization().timezone,
+      version: containerDetail.version,
+      createdAt: containerDetail.createdTime,
+      updatedAt: containerDetail.lastModifiedTime,
+      agents: this.mapWxccOverridesToAgents(containerDetail)
+    };
+  }
+
+  /**
+   * Map OverrideContainer to ContainerResponse for frontend consumption
+   */
+  private mapContainerToResponse(container: OverrideContainer): ContainerResponse {
+    const now = new Date();
+
+    const agents = container.agents.map(agent => this.mapAgentToResponse(agent, this.isAgentCurrentlyActive(agent, now)));
+    const activeAgents = agents.filter(agent => agent.isCurrentlyActive);
+
+    return {
+      id: container.id,
+      name: container.name,
+      description: container.description,
+      timezone: container.timezone,
+      version: container.version,
+      agents,
+      activeAgents,
+      totalAgents: agents.length,
+      activeCount: activeAgents.length
+    };
+  }
+
+  /**
+   * Map WxCC overrides to internal Agent format
+   */
+  private mapWxccOverridesToAgents(container: WxccOverrideContainer): Agent[] {
+    if (!container.overrides) return [];
+
+    return container.overrides.map(override => this.mapWxccOverrideToAgent(override, container));
+  }
+
+  /**
+   * Map a single WxCC override to internal Agent format
+   * WxCC dates are kept as stored, alongside the UTC instants they denote
+   */
+  private mapWxccOverrideToAgent(
+    override: WxccOverride,
+    container: { id: string; name: string; timezone?: string }
+  ): Agent {
+    const timezone = container.timezone || getCurrentOrganization().timezone || DEFAULT_TIMEZONE;
+
+    return {
+      agentId: override.name,
+      containerId: container.id,
+      containerName: container.name,
+      workingHours: override.workingHours,
+      startDateTime: override.startDateTime,
+      endDateTime: override.endDateTime,
+      startDateTimeUtc: this.safeToUtcIso(override.startDateTime, timezone),
+      endDateTimeUtc: this.safeToUtcIso(override.endDateTime, timezone),
+      timezone,
+      status: this.determineAgentStatus(override.startDateTime, override.endDateTime, override.workingHours, timezone)
+    };
+  }
+
+  /**
+   * UTC instant of a WxCC date, or undefined if WxCC returned something unparseable
+   */
+  private safeToUtcIso(wxccDate: string, timezone: string): string | undefined {
+    try {
+      return wxccToUtcIso(wxccDate, timezone);
+    } catch {
+      return undefined;
+    }
   }
 
   /**
    * Determine agent status based on schedule and working hours
    */
-  private determineAgentStatus(startDateTime: string, endDateTime: string, workingHours: boolean): AgentStatus {
+  private determineAgentStatus(
+    startDateTime: string,
+    endDateTime: string,
+    workingHours: boolean,
+    timezone: string = DEFAULT_TIMEZONE
+  ): AgentStatus {
     const now = new Date();
-    const start = parseISO(startDateTime);
-    const end = parseISO(endDateTime);
+    const start = parseInTimezone(startDateTime, timezone);
+    const end = parseInTimezone(endDateTime, timezone);
 
     if (!workingHours) {
       return AgentStatus.INACTIVE;
@@ -412,8 +1725,8 @@ export class OverrideService {
     if (!agent.workingHours) return false;
     
     try {
-      const start = parseISO(agent.startDateTime);
-      const end = parseISO(agent.endDateTime);
+      const start = parseInTimezone(agent.startDateTime, agent.timezone);
+      const end = parseInTimezone(agent.endDateTime, agent.timezone);
       
       return isWithinInterval(currentTime, { start, end });
     } catch {
@@ -432,6 +1745,9 @@ export class OverrideService {
       workingHours: agent.workingHours,
       startDateTime: agent.startDateTime,
       endDateTime: agent.endDateTime,
+      startDateTimeUtc: agent.startDateTimeUtc,
+      endDateTimeUtc: agent.endDateTimeUtc,
+      timezone: agent.timezone,
       status: agent.status,
       isCurrentlyActive
     };
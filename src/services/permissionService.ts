@@ -0,0 +1,125 @@
+import { databaseService } from './databaseService';
+import { authService } from './authService';
+import { AuthIdentity, ContainerAccess, ContainerPermission, ContainerPermissionRequest } from '../types';
+import { logger } from '../utils/logger';
+import { ContainerAccessDeniedError, NotFoundError } from '../utils/errors';
+import { getCurrentOrganization, getCurrentIdentity } from '../utils/requestContext';
+
+// What the caller may do with a container: nothing, read it, or read and write it
+type AccessLevel = 'none' | ContainerAccess;
+
+const ACCESS_LEVELS: AccessLevel[] = ['none', 'read', 'write'];
+
+/**
+ * Per-container permissions of users and groups, on top of their roles
+ *
+ * A container without permissions is open to every role. Once it has any, only the
+ * users (API key name or JWT `sub`) and groups (JWT `groups`) listed may read it, and
+ * only those with write access may change it. Admins, and requests made without an
+ * identity (authentication disabled, background work), are never restricted.
+ *
+ * Permissions are per organization; every method acts on the organization of the
+ * current request (see getCurrentOrganization).
+ */
+export class PermissionService {
+
+  /**
+   * The permissions of a container
+   */
+  async getPermissions(containerId: string): Promise<ContainerPermission[]> {
+    return databaseService.getContainerPermissions(getCurrentOrganization().id, containerId);
+  }
+
+  /**
+   * Replace the permissions of a container
+   * An empty list opens the container to every role again
+   */
+  async setPermissions(containerId: string, permissions: ContainerPermissionRequest[]): Promise<ContainerPermission[]> {
+    logger.info('Setting container permissions', {
+      operation: 'set_container_permissions',
+      containerId,
+      permissions
+    });
+
+    return databaseService.replaceContainerPermissions(getCurrentOrganization().id, containerId, permissions);
+  }
+
+  /**
+   * Remove the permissions of a container, opening it to every role
+   */
+  async deletePermissions(containerId: string): Promise<void> {
+    const deleted = await databaseService.deleteContainerPermissions(getCurrentOrganization().id, containerId);
+    if (!deleted) {
+      throw new NotFoundError(`No permissions found for container ${containerId}`, { containerId });
+    }
+    logger.info('Container permissions removed', { operation: 'delete_container_permissions', containerId });
+  }
+
+  /**
+   * Throw ContainerAccessDeniedError unless the caller has `access` to the container
+   */
+  async assertContainerAccess(containerId: string, access: ContainerAccess): Promise<void> {
+    const accessOf = await this.loadAccess();
+    if (accessOf && ACCESS_LEVELS.indexOf(accessOf(containerId)) < ACCESS_LEVELS.indexOf(access)) {
+      logger.warn('Container access denied', {
+        type: 'authorization_failed',
+        containerId,
+        requiredAccess: access
+      });
+      throw new ContainerAccessDeniedError(containerId, access);
+    }
+  }
+
+  /**
+   * Keep the items in containers the caller may read
+   * Items without a container are kept.
+   */
+  async filterReadable<T>(items: T[], containerIdOf: (item: T) => string | undefined): Promise<T[]> {
+    const accessOf = await this.loadAccess();
+    if (!accessOf) return items;
+
+    return items.filter(item => {
+      const containerId = containerIdOf(item);
+      return containerId === undefined || accessOf(containerId) !== 'none';
+    });
+  }
+
+  /**
+   * Look up the caller's access to any container of the organization
+   * Returns null when the caller is not restricted, so nothing needs to be read.
+   */
+  private async loadAccess(): Promise<((containerId: string) => AccessLevel) | null> {
+    const identity = getCurrentIdentity();
+    if (!identity || authService.hasRole(identity.role, 'admin')) {
+      return null;
+    }
+
+    const permissionsByContainer = new Map<string, ContainerPermission[]>();
+    for (const permission of await databaseService.getContainerPermissions(getCurrentOrganization().id)) {
+      const permissions = permissionsByContainer.get(permission.containerId) || [];
+      permissions.push(permission);
+      permissionsByContainer.set(permission.containerId, permissions);
+    }
+
+    return (containerId: string) => {
+      const permissions = permissionsByContainer.get(containerId);
+      if (!permissions) return 'write';
+
+      return permissions
+        .filter(permission => this.grantsTo(permission, identity))
+        .reduce<AccessLevel>(
+          (level, permission) => ACCESS_LEVELS.indexOf(permission.access) > ACCESS_LEVELS.indexOf(level) ? permission.access : level,
+          'none'
+        );
+    };
+  }
+
+  private grantsTo(permission: ContainerPermission, identity: AuthIdentity): boolean {
+    return permission.principalType === 'user'
+      ? permission.principal === identity.subject
+      : identity.groups.includes(permission.principal);
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,253 @@
+import { databaseService } from './databaseService';
+import { overrideService } from './overrideService';
+import { permissionService } from './permissionService';
+import {
+  RecurringSchedule,
+  RecurringScheduleRequest,
+  RecurrenceOccurrence,
+  RecurrenceGenerationResult
+} from '../types';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { prettyLogger } from '../utils/prettyLogger';
+import { NotFoundError } from '../utils/errors';
+import { getCurrentOrganization } from '../utils/requestContext';
+import { toWxccFormat, parseInTimezone, DEFAULT_TIMEZONE } from '../utils/dateFormat';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RecurrenceService {
+
+  /**
+   * Get the recurring schedule templates of the containers the caller may read,
+   * optionally for one container
+   */
+  async getSchedules(containerId?: string): Promise<RecurringSchedule[]> {
+    const schedules = await databaseService.getRecurringSchedules(getCurrentOrganization().id, containerId);
+    return permissionService.filterReadable(schedules, schedule => schedule.containerId);
+  }
+
+  /**
+   * Create a recurring schedule template for an existing container
+   */
+  async createSchedule(request: RecurringScheduleRequest): Promise<RecurringSchedule> {
+    try {
+      logger.info('Creating recurring schedule', {
+        operation: 'create_recurring_schedule',
+        containerId: request.containerId,
+        overrideName: request.overrideName,
+        daysOfWeek: request.daysOfWeek
+      });
+
+      // Make sure the target container exists and may be changed before storing a template for it
+      await permissionService.assertContainerAccess(request.containerId, 'write');
+      await overrideService.getContainerById(request.containerId);
+
+      const schedule = await databaseService.createRecurringSchedule(getCurrentOrganization().id, request);
+
+      prettyLogger.success('Recurring schedule created', {
+        scheduleId: schedule.id,
+        containerId: schedule.containerId,
+        overrideName: schedule.overrideName
+      });
+
+      return schedule;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to create recurring schedule', {
+        containerId: request.containerId,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a recurring schedule template
+   * Overrides already generated from it are left in place
+   */
+  async deleteSchedule(id: number): Promise<void> {
+    const schedule = await databaseService.getRecurringSchedule(getCurrentOrganization().id, id);
+    if (!schedule) {
+      throw new NotFoundError(`Recurring schedule ${id} not found`, { scheduleId: id });
+    }
+
+    await permissionService.assertContainerAccess(schedule.containerId, 'write');
+    await databaseService.deleteRecurringSchedule(getCurrentOrganization().id, id);
+    logger.info('Recurring schedule deleted', { scheduleId: id });
+  }
+
+  /**
+   * Expand a template into concrete overrides for a rolling horizon starting now
+   * 
+   * Each occurrence is validated like a normal schedule update. Occurrences that
+   * already exist in the container are left alone, and occurrences that conflict
+   * with existing working-hours overrides are reported instead of created.
+   */
+  async generateOverrides(
+    scheduleId: number,
+    options: { horizonDays?: number; dryRun?: boolean } = {}
+  ): Promise<RecurrenceGenerationResult> {
+    const horizonDays = options.horizonDays ?? config.recurrence.horizonDays;
+    const dryRun = options.dryRun ?? false;
+
+    try {
+      const schedule = await databaseService.getRecurringSchedule(getCurrentOrganization().id, scheduleId);
+      if (!schedule) {
+        throw new NotFoundError(`Recurring schedule ${scheduleId} not found`, { scheduleId });
+      }
+
+      await permissionService.assertContainerAccess(schedule.containerId, 'write');
+
+      logger.info('Generating overrides from recurring schedule', {
+        operation: 'generate_recurring_overrides',
+        scheduleId,
+        containerId: schedule.containerId,
+        horizonDays,
+        dryRun
+      });
+
+      const container = await overrideService.getContainerById(schedule.containerId);
+
+      const horizonStart = new Date();
+      const horizonEnd = new Date(horizonStart.getTime() + horizonDays * DAY_MS);
+      const occurrences = this.expandOccurrences(schedule, horizonStart, horizonEnd, container.timezone);
+
+      const existingNames = new Set(container.agents.map(agent => agent.agentId));
+
+      const result: RecurrenceGenerationResult = {
+        scheduleId,
+        containerId: schedule.containerId,
+        horizonStart: horizonStart.toISOString(),
+        horizonEnd: horizonEnd.toISOString(),
+        dryRun,
+        created: [],
+        existing: [],
+        conflicts: []
+      };
+
+      for (const occurrence of occurrences) {
+        if (existingNames.has(occurrence.agentId)) {
+          result.existing.push(occurrence);
+          continue;
+        }
+
+        const scheduleData = {
+          workingHours: schedule.workingHours,
+          startDateTime: occurrence.startDateTime,
+          endDateTime: occurrence.endDateTime
+        };
+
+        const validation = await overrideService.validateScheduleConflictForOverride(
+          occurrence.agentId,
+          schedule.containerId,
+          scheduleData
+        );
+
+        if (!validation.isValid) {
+          result.conflicts.push({ ...occurrence, errors: validation.errors });
+          continue;
+        }
+
+        if (!dryRun) {
+          try {
+            await overrideService.createAgentSchedule(schedule.containerId, {
+              agentId: occurrence.agentId,
+              ...scheduleData
+            });
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            result.conflicts.push({
+              ...occurrence,
+              errors: [{ field: 'wxcc', message: errorMessage, agentId: occurrence.agentId }]
+            });
+            continue;
+          }
+        }
+
+        result.created.push(occurrence);
+      }
+
+      logger.info('Recurring schedule generation completed', {
+        operation: 'generate_recurring_overrides',
+        scheduleId,
+        createdCount: result.created.length,
+        existingCount: result.existing.length,
+        conflictCount: result.conflicts.length,
+        dryRun
+      });
+
+      if (result.conflicts.length > 0) {
+        prettyLogger.warning('Recurring schedule occurrences conflict with existing overrides', {
+          scheduleId,
+          conflicts: result.conflicts.map(conflict => conflict.agentId)
+        });
+      }
+
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to generate overrides from recurring schedule', {
+        scheduleId,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List the occurrences of a template that overlap [from, to)
+   * Days, times and validity dates are wall-clock values in the container timezone,
+   * so a 09:00 shift stays at 09:00 local time across DST changes
+   */
+  expandOccurrences(
+    schedule: RecurringSchedule,
+    from: Date,
+    to: Date,
+    timezone: string = DEFAULT_TIMEZONE
+  ): RecurrenceOccurrence[] {
+    const occurrences: RecurrenceOccurrence[] = [];
+
+    // Walk calendar days in the container timezone, starting a day early so an
+    // overnight occurrence that began yesterday is included
+    const firstDay = Date.parse(`${toWxccFormat(from, timezone).slice(0, 10)}T00:00:00Z`) - DAY_MS;
+    const lastDay = Date.parse(`${toWxccFormat(to, timezone).slice(0, 10)}T00:00:00Z`);
+
+    for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+      const date = new Date(day);
+      const dateKey = date.toISOString().slice(0, 10);
+
+      if (!schedule.daysOfWeek.includes(date.getUTCDay())) continue;
+      if (schedule.validFrom && dateKey < schedule.validFrom) continue;
+      if (schedule.validUntil && dateKey > schedule.validUntil) continue;
+
+      const start = parseInTimezone(`${dateKey}T${schedule.startTime}`, timezone);
+      let end = parseInTimezone(`${dateKey}T${schedule.endTime}`, timezone);
+      if (end <= start) {
+        // Overnight shift ends on the next local day
+        const nextDateKey = new Date(day + DAY_MS).toISOString().slice(0, 10);
+        end = parseInTimezone(`${nextDateKey}T${schedule.endTime}`, timezone);
+      }
+
+      if (end <= from || start >= to) continue;
+
+      occurrences.push({
+        agentId: this.occurrenceName(schedule, dateKey),
+        startDateTime: start.toISOString(),
+        endDateTime: end.toISOString()
+      });
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Override name for the occurrence of a template on a given day
+   */
+  private occurrenceName(schedule: RecurringSchedule, dateKey: string): string {
+    return `${schedule.overrideName} ${dateKey}`;
+  }
+}
+
+// Export singleton instance
+export const recurrenceService = new RecurrenceService();
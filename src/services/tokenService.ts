@@ -0,0 +1,240 @@
+import axios from 'axios';
+import { OAuthTokens, Organization } from '../types';
+import { databaseService } from './databaseService';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { getCurrentOrganization } from '../utils/requestContext';
+
+// Refresh this long before the access token expires, so in-flight calls don't race the expiry
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Token state of one organization
+interface TokenState {
+  tokens?: OAuthTokens;
+  loadPromise?: Promise<void>;
+  refreshPromise?: Promise<string>;
+}
+
+/**
+ * OAuth2 access token lifecycle for WxCC
+ *
+ * With a refresh token and client credentials configured, access tokens are obtained
+ * with the refresh-token grant shortly before they expire, or immediately after WxCC
+ * rejects one. Rotated refresh tokens are persisted in SQLite and take precedence over
+ * the configured refresh token on the next start. Without a refresh token, the access
+ * token is used as-is, as before.
+ *
+ * Tokens are kept per organization; every method acts on the organization of the
+ * current request (see getCurrentOrganization).
+ */
+export class TokenService {
+  private states = new Map<string, TokenState>();
+
+  /**
+   * Get an access token for the next WxCC call, refreshing it first if it is about to expire
+   */
+  async getAccessToken(): Promise<string> {
+    const organization = getCurrentOrganization();
+    const state = await this.load(organization);
+
+    if (this.canRefresh() && this.isExpiring(state)) {
+      return this.refresh();
+    }
+
+    return state.tokens?.accessToken || '';
+  }
+
+  /**
+   * Get a new access token after WxCC rejected `rejectedToken` with 401
+   * If another call has already replaced that token, the replacement is returned
+   * without another refresh. Returns null if tokens cannot be refreshed.
+   */
+  async handleUnauthorized(rejectedToken?: string): Promise<string | null> {
+    const state = await this.load(getCurrentOrganization());
+
+    if (!this.canRefresh()) {
+      return null;
+    }
+
+    if (state.refreshPromise) {
+      return state.refreshPromise;
+    }
+
+    if (rejectedToken !== undefined && state.tokens?.accessToken && state.tokens.accessToken !== rejectedToken) {
+      return state.tokens.accessToken;
+    }
+
+    return this.refresh();
+  }
+
+  /**
+   * Whether tokens can be refreshed: a refresh token plus client credentials
+   */
+  canRefresh(): boolean {
+    const organization = getCurrentOrganization();
+    const state = this.states.get(organization.id);
+    return Boolean(state?.tokens?.refreshToken && organization.clientId && organization.clientSecret);
+  }
+
+  /**
+   * Exchange the refresh token for new tokens and persist them
+   * Concurrent callers share a single request to the token endpoint.
+   */
+  async refresh(): Promise<string> {
+    const organization = getCurrentOrganization();
+    const state = this.getState(organization.id);
+
+    if (!state.refreshPromise) {
+      state.refreshPromise = this.requestTokens(organization, state).finally(() => {
+        state.refreshPromise = undefined;
+      });
+    }
+
+    return state.refreshPromise;
+  }
+
+  /**
+   * Forget the tokens of an organization, e.g. after its credentials were changed
+   * They are loaded again on its next WxCC call.
+   */
+  reset(organizationId: string): void {
+    this.states.delete(organizationId);
+  }
+
+  private getState(organizationId: string): TokenState {
+    let state = this.states.get(organizationId);
+    if (!state) {
+      state = {};
+      this.states.set(organizationId, state);
+    }
+    return state;
+  }
+
+  private async requestTokens(organization: Organization, state: TokenState): Promise<string> {
+    const current = state.tokens;
+
+    try {
+      if (!current?.refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      logger.info('Refreshing WxCC access token', {
+        operation: 'refresh_access_token',
+        organizationId: organization.id,
+        tokenUrl: organization.tokenUrl,
+        expiresAt: current.expiresAt
+      });
+
+      const response = await axios.post(
+        organization.tokenUrl || config.wxcc.tokenUrl!,
+        new URLSearchParams({
+          grant_type: 'refresh_token',
+          client_id: organization.clientId!,
+          client_secret: organization.clientSecret!,
+          refresh_token: current.refreshToken
+        }).toString(),
+        {
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: config.wxcc.timeout
+        }
+      );
+
+      const body = response.data || {};
+      if (typeof body.access_token !== 'string' || !body.access_token) {
+        throw new Error('Token endpoint response did not include an access_token');
+      }
+
+      const now = Date.now();
+      const tokens: OAuthTokens = {
+        accessToken: body.access_token,
+        // Providers that don't rotate refresh tokens omit them from the response
+        refreshToken: body.refresh_token || current.refreshToken,
+        expiresAt: typeof body.expires_in === 'number'
+          ? new Date(now + body.expires_in * 1000).toISOString()
+          : undefined,
+        refreshTokenExpiresAt: typeof body.refresh_token_expires_in === 'number'
+          ? new Date(now + body.refresh_token_expires_in * 1000).toISOString()
+          : current.refreshTokenExpiresAt
+      };
+
+      state.tokens = tokens;
+
+      // The new tokens work either way; a failed save only matters after a restart
+      await databaseService.saveOAuthTokens(organization.id, tokens).catch(saveError => {
+        logger.error('Failed to persist refreshed WxCC tokens', {
+          operation: 'refresh_access_token',
+          organizationId: organization.id,
+          error: saveError instanceof Error ? saveError.message : 'Unknown error'
+        });
+      });
+
+      logger.info('WxCC access token refreshed', {
+        operation: 'refresh_access_token',
+        organizationId: organization.id,
+        expiresAt: tokens.expiresAt,
+        refreshTokenRotated: Boolean(body.refresh_token)
+      });
+
+      return tokens.accessToken;
+    } catch (error) {
+      const errorMessage = axios.isAxiosError(error) && error.response
+        ? `${error.message}: ${JSON.stringify(error.response.data)}`
+        : error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to refresh WxCC access token', {
+        operation: 'refresh_access_token',
+        organizationId: organization.id,
+        error: errorMessage
+      });
+      throw new Error(`Failed to refresh WxCC access token: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Load the stored tokens of an organization once, falling back to its configured ones
+   */
+  private async load(organization: Organization): Promise<TokenState> {
+    const state = this.getState(organization.id);
+    if (!state.loadPromise) {
+      state.loadPromise = this.loadTokens(organization, state);
+    }
+    await state.loadPromise;
+    return state;
+  }
+
+  private async loadTokens(organization: Organization, state: TokenState): Promise<void> {
+    const configured: OAuthTokens = {
+      accessToken: organization.accessToken || '',
+      refreshToken: organization.refreshToken || undefined
+    };
+
+    if (!configured.refreshToken) {
+      state.tokens = configured;
+      return;
+    }
+
+    try {
+      const stored = await databaseService.getOAuthTokens(organization.id);
+      state.tokens = stored?.refreshToken ? stored : configured;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Could not load stored OAuth tokens, using configured tokens', {
+        organizationId: organization.id,
+        error: errorMessage
+      });
+      state.tokens = configured;
+    }
+  }
+
+  /**
+   * Whether the access token is missing or expires within the refresh margin
+   * A token without a known expiry is used until WxCC rejects it
+   */
+  private isExpiring(state: TokenState): boolean {
+    if (!state.tokens?.accessToken) return true;
+    if (!state.tokens.expiresAt) return false;
+    return Date.parse(state.tokens.expiresAt) - Date.now() <= REFRESH_MARGIN_MS;
+  }
+}
+
+// Export singleton instance
+export const tokenService = new TokenService();
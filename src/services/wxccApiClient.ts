@@ -1,134 +1,52 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
-import { WxccOverrideContainer, WxccOverride } from '../types';
+import axios from 'axios';
+import {
+  WxccBackendType,
+  WxccOverrideContainer,
+  WxccOverride,
+  CreateContainerRequest,
+  UpdateContainerRequest,
+  FieldConflict,
+  OverrideUpdate,
+  CircuitBreakerStatus,
+  NewWxccOverrideContainer
+} from '../types';
 import { config } from '../config';
-import { logger, logApiCall, logWxccApiError } from '../utils/logger';
+import { tokenService } from './tokenService';
+import { WxccBackend, createWxccBackend } from './wxccBackend';
+import { getCurrentOrganization } from '../utils/requestContext';
+import { logger, logWxccApiError } from '../utils/logger';
 import { prettyLogger } from '../utils/prettyLogger';
 import { toWxccFormat } from '../utils/dateFormat';
+import {
+  VersionConflictError,
+  CircuitOpenError,
+  ConflictError,
+  NotFoundError,
+  UpstreamError
+} from '../utils/errors';
+import { CircuitBreaker } from '../utils/circuitBreaker';
+import { backoffDelay, parseRetryAfter } from '../utils/retry';
 
-export class WxccApiClient {
-  private client: AxiosInstance;
-
-  constructor() {
-    this.client = axios.create({
-      baseURL: config.wxcc.baseUrl,
-      timeout: config.wxcc.timeout,
-      headers: {
-        'Authorization': `Bearer ${config.wxcc.accessToken}`,
-        'Content-Type': 'application/json'
-      }
-    });
+// Attempts to apply an override update when the container keeps changing underneath us
+const MAX_VERSION_ATTEMPTS = 3;
 
-    // Add request interceptor for logging
-    this.client.interceptors.request.use((requestConfig) => {
-      const startTime = Date.now();
-      (requestConfig as any).metadata = { startTime };
-      
-      // Enhanced logging: Log every WxCC API endpoint being called
-      const method = requestConfig.method?.toUpperCase() || 'GET';
-      const fullUrl = `${requestConfig.baseURL}${requestConfig.url}`;
-      
-      logger.info('WxCC API Call Starting', {
-        type: 'wxcc_api_call_start',
-        method,
-        url: requestConfig.url,
-        fullUrl,
-        operation: this.getOperationNameFromUrl(requestConfig.url || ''),
-        requestBody: requestConfig.data,
-        timestamp: new Date().toISOString()
-      });
-      
-      return requestConfig;
-    });
+// Container versions remembered per container for stale-write detection
+const VERSION_HISTORY_LIMIT = 20;
 
-    // Add response interceptor for logging
-    this.client.interceptors.response.use(
-      (response) => {
-        const endTime = Date.now();
-        const startTime = (response.config as any).metadata?.startTime || endTime;
-        const duration = endTime - startTime;
-        
-        const method = response.config.method?.toUpperCase() || 'GET';
-        const fullUrl = `${response.config.baseURL}${response.config.url}`;
-        
-        // Enhanced logging with full details
-        logger.info('WxCC API Call Completed', {
-          type: 'wxcc_api_call_success',
-          method,
-          url: response.config.url,
-          fullUrl,
-          duration,
-          status: response.status,
-          operation: this.getOperationNameFromUrl(response.config.url || ''),
-          responseBody: response.data,
-          timestamp: new Date().toISOString()
-        });
-        
-        // Pretty logging for development
-        prettyLogger.apiCall({
-          operation: this.getOperationNameFromUrl(response.config.url || ''),
-          method,
-          url: fullUrl,
-          requestBody: response.config.data,
-          responseBody: response.data,
-          duration,
-          status: response.status
-        });
-        
-        // Also maintain backward compatibility with existing logApiCall
-        logApiCall(method, fullUrl, duration, response.status);
-        
-        return response;
-      },
-      (error) => {
-        const endTime = Date.now();
-        const startTime = error.config?.metadata?.startTime || endTime;
-        const duration = endTime - startTime;
-        
-        const method = error.config?.method?.toUpperCase() || 'GET';
-        const fullUrl = `${error.config?.baseURL || ''}${error.config?.url || ''}`;
-        
-        // Enhanced error logging
-        logger.error('WxCC API Call Failed', {
-          type: 'wxcc_api_call_error',
-          method,
-          url: error.config?.url,
-          fullUrl,
-          duration,
-          status: error.response?.status,
-          operation: this.getOperationNameFromUrl(error.config?.url || ''),
-          error: error.message,
-          requestBody: error.config?.data,
-          responseBody: error.response?.data,
-          responseHeaders: error.response?.headers,
-          timestamp: new Date().toISOString()
-        });
-        
-        // Pretty error logging
-        prettyLogger.error('WxCC API call failed', {
-          operation: this.getOperationNameFromUrl(error.config?.url || ''),
-          method,
-          url: fullUrl,
-          status: error.response?.status,
-          error: error.message,
-          duration
-        });
-        
-        // Also maintain backward compatibility
-        logApiCall(method, fullUrl, duration, error.response?.status);
-        
-        return Promise.reject(error);
-      }
-    );
-  }
+// Network errors raised before a request reached WxCC, so even writes can be resent
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+export class WxccApiClient {
+  private versionHistory = new Map<string, Map<number, WxccOverride[]>>();
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+
+  constructor(private readonly backend: WxccBackend = createWxccBackend()) {}
 
   /**
-   * Helper method to extract operation name from URL for logging
+   * Which backend serves WxCC calls, for the health check
    */
-  private getOperationNameFromUrl(url: string): string {
-    if (url.includes('/v2/overrides') && !url.includes('/overrides/')) return 'list_overrides';
-    if (url.includes('/overrides/') && url.split('/').length > 4) return 'get_override_by_id';
-    if (url.includes('/overrides/') && url.split('/').length === 4) return 'update_override_by_id';
-    return 'unknown_operation';
+  get backendType(): WxccBackendType {
+    return this.backend.type;
   }
 
   /**
@@ -142,22 +60,13 @@ export class WxccApiClient {
     try {
       logger.info('Fetching override containers', { operation: 'list_containers' });
       
-      // Use official WxCC API endpoint for List Overrides resources
-      const endpoint = `/organization/${config.wxcc.organizationId}/v2/overrides`;
-      const response: AxiosResponse<{ 
-        data?: WxccOverrideContainer[]; 
-        items?: WxccOverrideContainer[] 
-      }> = await this.client.get(endpoint);
-
-      // Debug logging: Log raw API response data for diagnosis
-      logger.info('WxCC API raw response received', { 
-        operation: 'list_containers',
-        rawResponseData: response.data,
-        statusCode: response.status,
-        headers: response.headers
-      });
+      const organizationId = getCurrentOrganization().id;
+      const containers = await this.retryOperation(
+        () => this.backend.listContainers(organizationId),
+        'list_containers',
+        true
+      );
 
-      const containers = response.data.data || response.data.items || [];
       logger.info('Successfully fetched containers', { 
         operation: 'list_containers',
         count: containers.length 
@@ -166,8 +75,7 @@ export class WxccApiClient {
       return containers;
     } catch (error) {
       logWxccApiError('list_containers', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to fetch override containers: ${errorMessage}`);
+      throw this.wxccError(error, `Failed to fetch override containers`);
     }
   }
 
@@ -185,11 +93,14 @@ export class WxccApiClient {
         containerId 
       });
 
-      // Use official WxCC API endpoint for Get specific Overrides resource by ID
-      const endpoint = `/organization/${config.wxcc.organizationId}/overrides/${containerId}`;
-      const response: AxiosResponse<WxccOverrideContainer> = await this.client.get(endpoint);
+      const organizationId = getCurrentOrganization().id;
+      const container = await this.retryOperation(
+        () => this.backend.getContainer(organizationId, containerId),
+        'get_container_by_id',
+        true
+      );
+      this.recordVersion(container);
 
-      const container = response.data;
       logger.info('Successfully fetched container details', {
         operation: 'get_container_by_id',
         containerId,
@@ -199,8 +110,132 @@ export class WxccApiClient {
       return container;
     } catch (error) {
       logWxccApiError('get_container_by_id', error, { containerId });
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to fetch container ${containerId}: ${errorMessage}`);
+      throw this.wxccError(error, `Failed to fetch container ${containerId}`);
+    }
+  }
+
+  /**
+   * Create a new override container
+   * 
+   * Official WxCC API Documentation:
+   * Endpoint: POST https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides
+   * Reference: WxCC Overrides API - Create a new Overrides resource
+   */
+  async createOverrideContainer(
+    containerData: CreateContainerRequest,
+    overrides: WxccOverride[] = []
+  ): Promise<WxccOverrideContainer> {
+    try {
+      logger.info('Creating override container', {
+        operation: 'create_container',
+        name: containerData.name,
+        timezone: containerData.timezone,
+        overrideCount: overrides.length
+      });
+
+      const organizationId = getCurrentOrganization().id;
+      const payload: NewWxccOverrideContainer = {
+        organizationId,
+        name: containerData.name,
+        description: containerData.description,
+        timezone: containerData.timezone,
+        overrides: overrides.map(override => ({
+          ...override,
+          startDateTime: toWxccFormat(override.startDateTime, containerData.timezone),
+          endDateTime: toWxccFormat(override.endDateTime, containerData.timezone)
+        }))
+      };
+
+      const container = await this.retryOperation(
+        () => this.backend.createContainer(organizationId, payload),
+        'create_container',
+        false
+      );
+
+      logger.info('Successfully created override container', {
+        operation: 'create_container',
+        containerId: container.id,
+        name: container.name
+      });
+
+      return container;
+    } catch (error) {
+      logWxccApiError('create_container', error, { containerData });
+      throw this.wxccError(error, `Failed to create override container '${containerData.name}'`);
+    }
+  }
+
+  /**
+   * Update a container's name, description and/or timezone
+   * 
+   * Uses the fetch-modify-PUT workflow so that all existing overrides are preserved.
+   */
+  async updateOverrideContainer(
+    containerId: string,
+    containerData: UpdateContainerRequest
+  ): Promise<WxccOverrideContainer> {
+    try {
+      logger.info('Updating override container', {
+        operation: 'update_container',
+        containerId,
+        updateData: containerData
+      });
+
+      const fullContainer = await this.getOverrideContainerById(containerId);
+
+      if (containerData.name !== undefined) {
+        fullContainer.name = containerData.name;
+      }
+      if (containerData.description !== undefined) {
+        fullContainer.description = containerData.description;
+      }
+      if (containerData.timezone !== undefined) {
+        fullContainer.timezone = containerData.timezone;
+      }
+
+      const updatedContainer = await this.putOverrideContainer(fullContainer, 'update_container');
+
+      logger.info('Successfully updated override container', {
+        operation: 'update_container',
+        containerId,
+        updatedFields: Object.keys(containerData)
+      });
+
+      return updatedContainer;
+    } catch (error) {
+      logWxccApiError('update_container', error, { containerId, containerData });
+      throw this.wxccError(error, `Failed to update container ${containerId}`);
+    }
+  }
+
+  /**
+   * Delete an override container
+   * 
+   * Official WxCC API Documentation:
+   * Endpoint: DELETE https://api.wxcc-eu2.cisco.com/organization/{org-id}/overrides/{id}
+   * Reference: WxCC Overrides API - Delete specific Overrides resource by ID
+   */
+  async deleteOverrideContainer(containerId: string): Promise<void> {
+    try {
+      logger.info('Deleting override container', {
+        operation: 'delete_container',
+        containerId
+      });
+
+      const organizationId = getCurrentOrganization().id;
+      await this.retryOperation(
+        () => this.backend.deleteContainer(organizationId, containerId),
+        'delete_container',
+        false
+      );
+
+      logger.info('Successfully deleted override container', {
+        operation: 'delete_container',
+        containerId
+      });
+    } catch (error) {
+      logWxccApiError('delete_container', error, { containerId });
+      throw this.wxccError(error, `Failed to delete container ${containerId}`);
     }
   }
 
@@ -216,24 +251,107 @@ export class WxccApiClient {
    * 2. Construct the complete override container object with all required fields
    * 3. Update only the relevant override inside the overrides array
    * 4. Send the complete container object as PUT request body
+   * 
+   * Optimistic concurrency: the write is based on `expectedVersion` (or, if not given,
+   * the version read in step 1). If the container has moved on, the change is re-applied
+   * to the latest container as long as the concurrent change did not touch the same
+   * override fields; otherwise a VersionConflictError with a field-level diff is thrown.
    */
   async updateOverride(
     containerId: string, 
     agentId: string, 
-    overrideData: Partial<WxccOverride>
+    overrideData: Partial<WxccOverride>,
+    expectedVersion?: number
   ): Promise<WxccOverride> {
     try {
       logger.info('Starting override update workflow', {
         operation: 'update_override',
         containerId,
         agentId,
-        updateData: overrideData
+        updateData: overrideData,
+        expectedVersion
+      });
+
+      const [responseOverride] = await this.applyOverrideUpdates(
+        containerId,
+        [{ agentId, overrideData }],
+        expectedVersion
+      );
+
+      logger.info('Successfully updated agent override', {
+        operation: 'update_override',
+        containerId,
+        agentId,
+        updatedFields: Object.keys(overrideData)
+      });
+
+      return responseOverride;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
+
+      logWxccApiError('update_override', error, { containerId, agentId, overrideData });
+      throw this.wxccError(error, `Failed to update agent ${agentId} in container ${containerId}`);
+    }
+  }
+
+  /**
+   * Update several overrides/agents within one container with a single PUT
+   * 
+   * Same workflow and optimistic concurrency rules as updateOverride; either every
+   * override in the batch is written or none is.
+   */
+  async updateOverrides(
+    containerId: string,
+    updates: OverrideUpdate[],
+    expectedVersion?: number
+  ): Promise<WxccOverride[]> {
+    const agentIds = updates.map(update => update.agentId);
+
+    try {
+      logger.info('Starting batch override update workflow', {
+        operation: 'update_overrides',
+        containerId,
+        agentIds,
+        expectedVersion
       });
 
+      const responseOverrides = await this.applyOverrideUpdates(containerId, updates, expectedVersion);
+
+      logger.info('Successfully updated agent overrides', {
+        operation: 'update_overrides',
+        containerId,
+        agentIds
+      });
+
+      return responseOverrides;
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw error;
+      }
+
+      logWxccApiError('update_overrides', error, { containerId, agentIds });
+      throw this.wxccError(error, `Failed to update agents ${agentIds.join(', ')} in container ${containerId}`);
+    }
+  }
+
+  /**
+   * Fetch-modify-PUT loop shared by single and batch override updates
+   */
+  private async applyOverrideUpdates(
+    containerId: string,
+    updates: OverrideUpdate[],
+    expectedVersion?: number
+  ): Promise<WxccOverride[]> {
+    let baseVersion = expectedVersion;
+
+    for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
       // Step 1: Fetch the full container details including all overrides
       logger.info('Fetching full container details for update', {
         operation: 'update_override_step1',
-        containerId
+        containerId,
+        attempt
       });
       
       const fullContainer = await this.getOverrideContainerById(containerId);
@@ -242,134 +360,494 @@ export class WxccApiClient {
         fullContainer.overrides = [];
       }
 
-      // Step 2: Find the specific override to update by name (agentId maps to override.name)
-      const overrideIndex = fullContainer.overrides.findIndex(override => override.name === agentId);
-      
-      if (overrideIndex === -1) {
-        throw new Error(`Override with name '${agentId}' not found in container ${containerId}`);
+      if (attempt === 1 && baseVersion === undefined) {
+        baseVersion = fullContainer.version;
       }
 
-      // Step 3: Update only the relevant override, preserving all other overrides
-      // Ensure date formats are in WxCC format before updating
-      const updatedOverride: WxccOverride = {
-        ...fullContainer.overrides[overrideIndex],
-        ...overrideData
-      };
-      
-      // Convert dates to WxCC format if they exist
-      if (updatedOverride.startDateTime) {
-        updatedOverride.startDateTime = toWxccFormat(updatedOverride.startDateTime);
+      if (fullContainer.version !== baseVersion) {
+        this.assertNoOverlappingChanges(fullContainer, updates, baseVersion);
+
+        logger.info('Container changed since base version, re-applying update to latest version', {
+          operation: 'update_override_rebase',
+          containerId,
+          agentIds: updates.map(update => update.agentId),
+          baseVersion,
+          currentVersion: fullContainer.version
+        });
       }
-      if (updatedOverride.endDateTime) {
-        updatedOverride.endDateTime = toWxccFormat(updatedOverride.endDateTime);
+
+      for (const { agentId, overrideData } of updates) {
+        // Step 2: Find the specific override to update by name (agentId maps to override.name)
+        const overrideIndex = fullContainer.overrides.findIndex(override => override.name === agentId);
+        
+        if (overrideIndex === -1) {
+          throw new NotFoundError(`Override with name '${agentId}' not found in container ${containerId}`, { containerId, agentId });
+        }
+
+        // Step 3: Update only the relevant override, preserving all other overrides
+        // Ensure date formats are in WxCC format before updating
+        const updatedOverride: WxccOverride = {
+          ...fullContainer.overrides[overrideIndex],
+          ...overrideData
+        };
+        
+        // Convert dates to WxCC format (wall-clock time in the container timezone) if they exist
+        if (updatedOverride.startDateTime) {
+          updatedOverride.startDateTime = toWxccFormat(updatedOverride.startDateTime, fullContainer.timezone);
+        }
+        if (updatedOverride.endDateTime) {
+          updatedOverride.endDateTime = toWxccFormat(updatedOverride.endDateTime, fullContainer.timezone);
+        }
+        
+        fullContainer.overrides[overrideIndex] = updatedOverride;
+
+        logger.info('Updated override with WxCC formatted dates', {
+          operation: 'update_override_step3',
+          agentId,
+          originalStartDateTime: overrideData.startDateTime,
+          originalEndDateTime: overrideData.endDateTime,
+          wxccStartDateTime: updatedOverride.startDateTime,
+          wxccEndDateTime: updatedOverride.endDateTime
+        });
+
+        prettyLogger.info('Date format conversion completed', {
+          agentId,
+          originalDates: {
+            start: overrideData.startDateTime,
+            end: overrideData.endDateTime
+          },
+          wxccDates: {
+            start: updatedOverride.startDateTime,
+            end: updatedOverride.endDateTime
+          }
+        });
       }
-      
-      fullContainer.overrides[overrideIndex] = updatedOverride;
 
-      logger.info('Updated override with WxCC formatted dates', {
-        operation: 'update_override_step3',
-        agentId,
-        originalStartDateTime: overrideData.startDateTime,
-        originalEndDateTime: overrideData.endDateTime,
-        wxccStartDateTime: updatedOverride.startDateTime,
-        wxccEndDateTime: updatedOverride.endDateTime
-      });
+      // Step 4 & 5: Send the complete container object as PUT request
+      let updatedContainer: WxccOverrideContainer;
+      try {
+        updatedContainer = await this.putOverrideContainer(fullContainer, 'update_override_step4', {
+          agentIds: updates.map(update => update.agentId)
+        });
+      } catch (error) {
+        // WxCC rejected the version we read: someone wrote between our GET and PUT
+        if (this.isVersionRejection(error) && attempt < MAX_VERSION_ATTEMPTS) {
+          logger.warn('WxCC rejected container version, re-reading container', {
+            operation: 'update_override',
+            containerId,
+            attempt,
+            version: fullContainer.version
+          });
+          continue;
+        }
+        throw error;
+      }
 
-      prettyLogger.info('Date format conversion completed', {
-        agentId,
-        originalDates: {
-          start: overrideData.startDateTime,
-          end: overrideData.endDateTime
-        },
-        wxccDates: {
-          start: updatedOverride.startDateTime,
-          end: updatedOverride.endDateTime
+      // Extract the updated overrides from the response
+      return updates.map(({ agentId }) => {
+        const responseOverride = updatedContainer.overrides?.find(override => override.name === agentId);
+        
+        if (!responseOverride) {
+          throw new UpstreamError(`Updated override '${agentId}' not found in response`);
         }
+
+        return responseOverride;
       });
+    }
 
-      // Step 4: Construct the complete override container object with all required fields
-      const completeContainerPayload: WxccOverrideContainer = {
-        id: fullContainer.id,
-        organizationId: config.wxcc.organizationId,
-        version: fullContainer.version || 1,
-        name: fullContainer.name,
-        description: fullContainer.description,
-        timezone: fullContainer.timezone || 'UTC',
-        createdTime: fullContainer.createdTime,
-        lastModifiedTime: toWxccFormat(new Date()),
-        overrides: fullContainer.overrides
-      };
+    throw new ConflictError(`Container ${containerId} kept changing after ${MAX_VERSION_ATTEMPTS} attempts`, { containerId });
+  }
+
+  /**
+   * Check that a concurrent change between `baseVersion` and the current container
+   * did not touch any of the override fields about to be written
+   */
+  private assertNoOverlappingChanges(
+    currentContainer: WxccOverrideContainer,
+    updates: OverrideUpdate[],
+    baseVersion: number | undefined
+  ): void {
+    const baseOverrides = baseVersion !== undefined
+      ? this.versionHistory.get(currentContainer.id)?.get(baseVersion)
+      : undefined;
+
+    const conflicts: FieldConflict[] = [];
+
+    for (const { agentId, overrideData } of updates) {
+      const touchedFields = Object.keys(overrideData).filter(field => field !== 'name') as (keyof WxccOverride)[];
+      const currentOverride = currentContainer.overrides?.find(override => override.name === agentId);
+
+      if (!baseOverrides) {
+        // Without the base snapshot we cannot prove the changes are disjoint
+        touchedFields.forEach(field => conflicts.push({
+          agentId,
+          field,
+          currentValue: currentOverride?.[field],
+          requestedValue: overrideData[field]
+        }));
+        continue;
+      }
+
+      const baseOverride = baseOverrides.find(override => override.name === agentId);
 
-      logger.info('Sending complete container update to WxCC API', {
-        operation: 'update_override_step4',
+      if (baseOverride && !currentOverride) {
+        conflicts.push({ agentId, field: 'name', baseValue: agentId, currentValue: undefined, requestedValue: agentId });
+        continue;
+      }
+
+      touchedFields
+        .filter(field => baseOverride?.[field] !== currentOverride?.[field])
+        .forEach(field => conflicts.push({
+          agentId,
+          field,
+          baseValue: baseOverride?.[field],
+          currentValue: currentOverride?.[field],
+          requestedValue: overrideData[field]
+        }));
+    }
+
+    if (conflicts.length > 0) {
+      throw new VersionConflictError(currentContainer.id, baseVersion, currentContainer.version, conflicts);
+    }
+  }
+
+  /**
+   * Remember the overrides seen at each container version, so a stale write can be
+   * checked against what actually changed since the writer's version
+   */
+  private recordVersion(container: WxccOverrideContainer): void {
+    if (container.version === undefined || !container.id) return;
+
+    let versions = this.versionHistory.get(container.id);
+    if (!versions) {
+      versions = new Map();
+      this.versionHistory.set(container.id, versions);
+    }
+
+    versions.set(container.version, (container.overrides || []).map(override => ({ ...override })));
+
+    // Keep only the most recent versions per container
+    while (versions.size > VERSION_HISTORY_LIMIT) {
+      const oldest = versions.keys().next().value as number;
+      versions.delete(oldest);
+    }
+  }
+
+  /**
+   * The error to throw for a failed WxCC call, of the same kind as `error` with `message` in front
+   * WxCC 404s become NotFoundError and 409s or 412s ConflictError; any other failure is an
+   * UpstreamError. Version conflicts and an open circuit breaker are passed on as they are.
+   */
+  private wxccError(error: unknown, message: string): Error {
+    if (error instanceof VersionConflictError || error instanceof CircuitOpenError) {
+      return error;
+    }
+
+    const fullMessage = `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    const upstreamStatus = axios.isAxiosError(error)
+      ? error.response?.status
+      : error instanceof UpstreamError ? error.upstreamStatus : undefined;
+
+    if (error instanceof NotFoundError || upstreamStatus === 404) {
+      return new NotFoundError(fullMessage, error instanceof NotFoundError ? error.details : { upstreamStatus });
+    }
+    if (error instanceof ConflictError || upstreamStatus === 409 || upstreamStatus === 412) {
+      return new ConflictError(fullMessage, error instanceof ConflictError ? error.details : { upstreamStatus });
+    }
+    return new UpstreamError(fullMessage, upstreamStatus);
+  }
+
+  /**
+   * WxCC answers a PUT with a stale version with 409 Conflict or 412 Precondition Failed
+   */
+  private isVersionRejection(error: unknown): boolean {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    return status === 409 || status === 412;
+  }
+
+  /**
+   * Add a new override/agent to a container
+   * 
+   * Uses the same fetch-modify-PUT workflow as updateOverride, since the WxCC API
+   * has no endpoint for individual overrides:
+   * 1. Fetch the full container details including all overrides
+   * 2. Reject the request if an override with the same name already exists
+   * 3. Append the new override to the overrides array
+   * 4. Send the complete container object as PUT request body
+   */
+  async createOverride(containerId: string, overrideData: WxccOverride): Promise<WxccOverride> {
+    const agentId = overrideData.name;
+
+    try {
+      logger.info('Starting override create workflow', {
+        operation: 'create_override',
         containerId,
         agentId,
-        overrideCount: completeContainerPayload.overrides?.length || 0,
-        payloadSize: JSON.stringify(completeContainerPayload).length
+        overrideData
       });
 
-      // Step 5: Send the complete container object as PUT request
-      const endpoint = `/organization/${config.wxcc.organizationId}/overrides/${containerId}`;
-      const response: AxiosResponse<WxccOverrideContainer> = await this.client.put(endpoint, completeContainerPayload);
+      const fullContainer = await this.getOverrideContainerById(containerId);
+      
+      if (!fullContainer.overrides) {
+        fullContainer.overrides = [];
+      }
+
+      if (fullContainer.overrides.some(override => override.name === agentId)) {
+        throw new ConflictError(`Override with name '${agentId}' already exists in container ${containerId}`, { containerId, agentId });
+      }
+
+      const newOverride: WxccOverride = {
+        name: agentId,
+        workingHours: overrideData.workingHours,
+        startDateTime: toWxccFormat(overrideData.startDateTime, fullContainer.timezone),
+        endDateTime: toWxccFormat(overrideData.endDateTime, fullContainer.timezone)
+      };
 
-      // Extract the updated override from the response
-      const responseOverride = response.data.overrides?.find(override => override.name === agentId);
+      fullContainer.overrides.push(newOverride);
+
+      const updatedContainer = await this.putOverrideContainer(fullContainer, 'create_override', { agentId });
+
+      const responseOverride = updatedContainer.overrides?.find(override => override.name === agentId);
       
       if (!responseOverride) {
-        throw new Error(`Updated override '${agentId}' not found in response`);
+        throw new UpstreamError(`Created override '${agentId}' not found in response`);
       }
 
-      logger.info('Successfully updated agent override', {
-        operation: 'update_override',
+      logger.info('Successfully created agent override', {
+        operation: 'create_override',
         containerId,
-        agentId,
-        updatedFields: Object.keys(overrideData)
+        agentId
       });
 
       return responseOverride;
     } catch (error) {
-      logWxccApiError('update_override', error, { containerId, agentId, overrideData });
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to update agent ${agentId} in container ${containerId}: ${errorMessage}`);
+      logWxccApiError('create_override', error, { containerId, agentId, overrideData });
+      throw this.wxccError(error, `Failed to create agent ${agentId} in container ${containerId}`);
     }
   }
 
   /**
-   * Retry mechanism for failed API calls
+   * Remove an override/agent from a container
+   * 
+   * Uses the same fetch-modify-PUT workflow as updateOverride, removing the
+   * override from the overrides array and preserving all other overrides.
+   */
+  async deleteOverride(containerId: string, agentId: string): Promise<void> {
+    try {
+      logger.info('Starting override delete workflow', {
+        operation: 'delete_override',
+        containerId,
+        agentId
+      });
+
+      const fullContainer = await this.getOverrideContainerById(containerId);
+      const overrides = fullContainer.overrides || [];
+      const overrideIndex = overrides.findIndex(override => override.name === agentId);
+      
+      if (overrideIndex === -1) {
+        throw new NotFoundError(`Override with name '${agentId}' not found in container ${containerId}`, { containerId, agentId });
+      }
+
+      fullContainer.overrides = overrides.filter((_, index) => index !== overrideIndex);
+
+      await this.putOverrideContainer(fullContainer, 'delete_override', { agentId });
+
+      logger.info('Successfully deleted agent override', {
+        operation: 'delete_override',
+        containerId,
+        agentId,
+        remainingOverrides: fullContainer.overrides.length
+      });
+    } catch (error) {
+      logWxccApiError('delete_override', error, { containerId, agentId });
+      throw this.wxccError(error, `Failed to delete agent ${agentId} from container ${containerId}`);
+    }
+  }
+
+  /**
+   * Send a complete override container object back to WxCC
+   * 
+   * The WxCC PUT contract requires the full container, not partial data, so every
+   * write path builds the payload here with all required fields.
+   */
+  private async putOverrideContainer(
+    fullContainer: WxccOverrideContainer,
+    operation: string,
+    context: Record<string, unknown> = {}
+  ): Promise<WxccOverrideContainer> {
+    const organizationId = getCurrentOrganization().id;
+    const completeContainerPayload: WxccOverrideContainer = {
+      id: fullContainer.id,
+      organizationId,
+      version: fullContainer.version || 1,
+      name: fullContainer.name,
+      description: fullContainer.description,
+      timezone: fullContainer.timezone || getCurrentOrganization().timezone,
+      createdTime: fullContainer.createdTime,
+      lastModifiedTime: toWxccFormat(new Date(), fullContainer.timezone),
+      overrides: fullContainer.overrides
+    };
+
+    logger.info('Sending complete container update to WxCC API', {
+      operation,
+      containerId: fullContainer.id,
+      ...context,
+      overrideCount: completeContainerPayload.overrides?.length || 0,
+      payloadSize: JSON.stringify(completeContainerPayload).length
+    });
+
+    const updatedContainer = await this.retryOperation(
+      () => this.backend.putContainer(organizationId, completeContainerPayload),
+      operation,
+      false
+    );
+    this.recordVersion(updatedContainer);
+
+    return updatedContainer;
+  }
+
+  /**
+   * Current state of the circuit breaker guarding an organization's WxCC calls
+   * Defaults to the organization of the current request
+   */
+  getCircuitBreakerStatus(organizationId = getCurrentOrganization().id): CircuitBreakerStatus {
+    return this.getCircuitBreaker(organizationId).getStatus();
+  }
+
+  /**
+   * Circuit breaker states of every organization that has called WxCC, keyed by organization id
+   */
+  getCircuitBreakerStatuses(): Record<string, CircuitBreakerStatus> {
+    return Object.fromEntries(
+      Array.from(this.circuitBreakers.entries()).map(([organizationId, breaker]) => [organizationId, breaker.getStatus()])
+    );
+  }
+
+  /**
+   * Each organization has its own circuit breaker, so one unreachable region or
+   * tenant does not block calls for the others
+   */
+  private getCircuitBreaker(organizationId: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(organizationId);
+    if (!breaker) {
+      breaker = new CircuitBreaker(config.api.circuitBreakerThreshold, config.api.circuitBreakerResetTimeout);
+      this.circuitBreakers.set(organizationId, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Send one WxCC request through the circuit breaker, retrying transient failures
+   * 
+   * - 429 responses are retried for every request, after `Retry-After` when given
+   * - Idempotent requests (GETs) are also retried on 5xx responses, timeouts and other network errors
+   * - Writes are otherwise only retried when the connection was never made, since
+   *   WxCC may already have applied a write whose response was lost
+   * 
+   * Waits use jittered exponential backoff. 5xx responses and network errors count
+   * towards opening the circuit; while it is open, requests fail with CircuitOpenError.
+   * 
+   * A 401 is retried once with a refreshed access token, without using up an attempt.
+   * The circuit breaker and tokens are those of the current request's organization.
    */
   private async retryOperation<T>(
     operation: () => Promise<T>,
     operationName: string,
-    maxRetries = config.api.retryAttempts
+    idempotent: boolean,
+    maxAttempts = config.api.retryAttempts
   ): Promise<T> {
-    let lastError: Error = new Error('No attempts made');
+    const circuitBreaker = this.getCircuitBreaker(getCurrentOrganization().id);
+    let tokenRefreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!circuitBreaker.allowRequest()) {
+        logger.warn('WxCC API circuit breaker is open, request refused', {
+          operation: operationName,
+          circuitBreaker: circuitBreaker.getStatus()
+        });
+        throw new CircuitOpenError(circuitBreaker.retryAt);
+      }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        return await operation();
+        const result = await operation();
+        circuitBreaker.recordSuccess();
+        return result;
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+        if (status !== undefined && status < 500) {
+          // WxCC answered, so it is reachable even if it refused this request
+          circuitBreaker.recordSuccess();
+        } else {
+          circuitBreaker.recordFailure();
+        }
+
+        if (status === 401 && !tokenRefreshed && axios.isAxiosError(error)) {
+          const rejectedToken = String(error.config?.headers?.Authorization || '').replace(/^Bearer /, '');
+          if (await tokenService.handleUnauthorized(rejectedToken)) {
+            logger.warn('WxCC rejected the access token, retrying with a refreshed token', {
+              operation: operationName
+            });
+            tokenRefreshed = true;
+            attempt--;
+            continue;
+          }
+        }
+
+        const waitMs = attempt < maxAttempts ? this.getRetryDelay(error, idempotent, attempt) : undefined;
         const errorMessage = error instanceof Error ? error.message : String(error);
+
+        if (waitMs === undefined) {
+          if (attempt > 1) {
+            logger.error('API operation failed after retries', {
+              operation: operationName,
+              attempts: attempt,
+              status,
+              finalError: errorMessage
+            });
+          }
+          throw error;
+        }
+
         logger.warn('API operation failed, retrying', {
           operation: operationName,
           attempt,
-          maxRetries,
+          maxAttempts,
+          status,
+          delayMs: waitMs,
           error: errorMessage
         });
 
-        if (attempt < maxRetries) {
-          await this.delay(config.api.retryDelay * attempt); // Exponential backoff
-        }
+        await this.delay(waitMs);
       }
     }
+  }
 
-    logger.error('API operation failed after all retries', {
-      operation: operationName,
-      maxRetries,
-      finalError: lastError.message
-    });
+  /**
+   * How long to wait before retrying a failed request, or undefined if it must not be retried
+   */
+  private getRetryDelay(error: unknown, idempotent: boolean, attempt: number): number | undefined {
+    if (!axios.isAxiosError(error)) return undefined;
+
+    const status = error.response?.status;
+    const backoff = backoffDelay(attempt, config.api.retryDelay, config.api.retryMaxDelay);
+
+    if (status === 429) {
+      const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+      if (retryAfter === undefined) return backoff;
+      // Give up rather than hold the caller's request open past the longest allowed wait
+      return retryAfter <= config.api.retryMaxDelay ? retryAfter : undefined;
+    }
+
+    if (status === undefined && CONNECTION_ERROR_CODES.includes(error.code || '')) {
+      return backoff;
+    }
+
+    if (idempotent && (status === undefined || status >= 500)) {
+      return backoff;
+    }
 
-    throw lastError;
+    return undefined;
   }
 
   private delay(ms: number): Promise<void> {
@@ -377,4 +855,5 @@ export class WxccApiClient {
   }
 }
 
+// Export singleton instance, backed by the WXCC_BACKEND selected at startup
 export const wxccApiClient = new WxccApiClient();
\ No newline at end of file
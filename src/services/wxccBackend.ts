@@ -0,0 +1,35 @@
+import { WxccOverrideContainer, NewWxccOverrideContainer, WxccBackendType } from '../types';
+import { config } from '../config';
+import { HttpWxccBackend } from './httpWxccBackend';
+import { WxccSimulator } from './wxccSimulator';
+
+/**
+ * Storage of override containers behind WxccApiClient
+ *
+ * A backend only reads and writes whole containers of one organization. The workflows
+ * on top (fetch-modify-PUT, optimistic concurrency, retries, the circuit breaker) stay
+ * in WxccApiClient, so they behave the same against either backend. Failures are
+ * axios errors carrying the WxCC status code.
+ */
+export interface WxccBackend {
+  readonly type: WxccBackendType;
+
+  listContainers(organizationId: string): Promise<WxccOverrideContainer[]>;
+
+  getContainer(organizationId: string, containerId: string): Promise<WxccOverrideContainer>;
+
+  createContainer(organizationId: string, container: NewWxccOverrideContainer): Promise<WxccOverrideContainer>;
+
+  /**
+   * Replace a container; WxCC requires the complete container at its current version
+   */
+  putContainer(organizationId: string, container: WxccOverrideContainer): Promise<WxccOverrideContainer>;
+
+  deleteContainer(organizationId: string, containerId: string): Promise<void>;
+}
+
+/**
+ * Backend selected through WXCC_BACKEND
+ */
+export const createWxccBackend = (type: WxccBackendType = config.wxcc.backend): WxccBackend =>
+  type === 'simulator' ? new WxccSimulator() : new HttpWxccBackend();
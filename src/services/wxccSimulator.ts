@@ -0,0 +1,208 @@
+import { randomUUID } from 'crypto';
+import { AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { WxccOverrideContainer, NewWxccOverrideContainer, WxccOverride } from '../types';
+import { WxccBackend } from './wxccBackend';
+import { logger } from '../utils/logger';
+import { createMockContainers } from '../utils/mockData';
+import { toWxccFormat, isWxccFormat, isValidTimezone, DEFAULT_TIMEZONE } from '../utils/dateFormat';
+
+const STATUS_TEXT: Record<number, string> = {
+  400: 'Bad Request',
+  404: 'Not Found',
+  409: 'Conflict'
+};
+
+/**
+ * In-process stand-in for the WxCC Overrides API, selected with WXCC_BACKEND=simulator
+ *
+ * Containers are kept in memory per organization and seeded with mock data on first
+ * use. Writes follow the WxCC contract: a PUT must carry the complete container at its
+ * current version, is rejected with 409 when the version is stale, and bumps the version.
+ * Nothing survives a restart.
+ */
+export class WxccSimulator implements WxccBackend {
+  readonly type = 'simulator';
+  private organizations = new Map<string, Map<string, WxccOverrideContainer>>();
+
+  constructor(private readonly seed: (organizationId: string) => WxccOverrideContainer[] = createMockContainers) {}
+
+  async listContainers(organizationId: string): Promise<WxccOverrideContainer[]> {
+    this.logCall('GET', organizationId);
+
+    // Like WxCC, the list carries no overrides; they come with the container details
+    return Array.from(this.getContainers(organizationId).values()).map(({ overrides: _overrides, ...container }) => ({ ...container }));
+  }
+
+  async getContainer(organizationId: string, containerId: string): Promise<WxccOverrideContainer> {
+    this.logCall('GET', organizationId, containerId);
+    return this.clone(this.findContainer(organizationId, containerId, 'get'));
+  }
+
+  async createContainer(organizationId: string, container: NewWxccOverrideContainer): Promise<WxccOverrideContainer> {
+    this.logCall('POST', organizationId);
+    this.validate(organizationId, container, 'post');
+
+    const timezone = container.timezone || DEFAULT_TIMEZONE;
+    const now = toWxccFormat(new Date(), timezone);
+    const created: WxccOverrideContainer = this.clone({
+      ...container,
+      id: randomUUID(),
+      organizationId,
+      version: 1,
+      timezone,
+      createdTime: now,
+      lastModifiedTime: now,
+      overrides: container.overrides || []
+    });
+
+    this.getContainers(organizationId).set(created.id, created);
+    return this.clone(created);
+  }
+
+  async putContainer(organizationId: string, container: WxccOverrideContainer): Promise<WxccOverrideContainer> {
+    this.logCall('PUT', organizationId, container.id);
+
+    const existing = this.findContainer(organizationId, container.id, 'put');
+    this.validate(organizationId, container, 'put', container.id);
+
+    const missing = (['version', 'createdTime', 'overrides'] as const).filter(field => container[field] === undefined);
+    if (missing.length > 0) {
+      this.reject(400, 'put', organizationId, container.id, `The complete container is required, missing: ${missing.join(', ')}`);
+    }
+
+    if (container.version !== existing.version) {
+      this.reject(409, 'put', organizationId, container.id,
+        `Version ${container.version} is stale, the container is at version ${existing.version}`);
+    }
+
+    const updated: WxccOverrideContainer = {
+      ...this.clone(container),
+      organizationId,
+      version: (existing.version || 0) + 1,
+      createdTime: existing.createdTime,
+      lastModifiedTime: toWxccFormat(new Date(), container.timezone || DEFAULT_TIMEZONE)
+    };
+
+    this.getContainers(organizationId).set(updated.id, updated);
+    return this.clone(updated);
+  }
+
+  async deleteContainer(organizationId: string, containerId: string): Promise<void> {
+    this.logCall('DELETE', organizationId, containerId);
+    this.findContainer(organizationId, containerId, 'delete');
+    this.getContainers(organizationId).delete(containerId);
+  }
+
+  private getContainers(organizationId: string): Map<string, WxccOverrideContainer> {
+    let containers = this.organizations.get(organizationId);
+    if (!containers) {
+      containers = new Map(this.seed(organizationId).map(container => [container.id, container]));
+      this.organizations.set(organizationId, containers);
+    }
+    return containers;
+  }
+
+  private findContainer(organizationId: string, containerId: string, method: string): WxccOverrideContainer {
+    const container = this.getContainers(organizationId).get(containerId);
+    if (!container) {
+      this.reject(404, method, organizationId, containerId, `Override container ${containerId} not found`);
+    }
+    return container;
+  }
+
+  /**
+   * Check a container body against what WxCC accepts
+   */
+  private validate(
+    organizationId: string,
+    container: NewWxccOverrideContainer,
+    method: string,
+    containerId?: string
+  ): void {
+    const problems: string[] = [];
+
+    if (container.organizationId !== organizationId) {
+      problems.push('organizationId must match the organization in the path');
+    }
+    if (typeof container.name !== 'string' || !container.name.trim()) {
+      problems.push('name is required');
+    }
+    if (container.timezone !== undefined && !isValidTimezone(container.timezone)) {
+      problems.push(`timezone ${container.timezone} is not a valid IANA timezone`);
+    }
+    if (container.overrides !== undefined && !Array.isArray(container.overrides)) {
+      problems.push('overrides must be an array');
+    }
+
+    const names = new Set<string>();
+    (Array.isArray(container.overrides) ? container.overrides : []).forEach((override: WxccOverride, index) => {
+      const prefix = `overrides[${index}]`;
+      if (typeof override.name !== 'string' || !override.name) {
+        problems.push(`${prefix}.name is required`);
+      } else if (names.has(override.name)) {
+        problems.push(`${prefix}.name ${override.name} is used more than once`);
+      }
+      names.add(override.name);
+
+      if (typeof override.workingHours !== 'boolean') {
+        problems.push(`${prefix}.workingHours must be a boolean`);
+      }
+      if (!isWxccFormat(override.startDateTime) || !isWxccFormat(override.endDateTime)) {
+        problems.push(`${prefix} dates must be in yyyy-MM-ddTHH:mm format`);
+      } else if (override.endDateTime <= override.startDateTime) {
+        problems.push(`${prefix}.endDateTime must be after startDateTime`);
+      }
+    });
+
+    if (problems.length > 0) {
+      this.reject(400, method, organizationId, containerId, problems.join('; '));
+    }
+  }
+
+  /**
+   * Fail the way axios does for a WxCC error response, so retries, version
+   * conflict handling and error logging treat simulated and real failures alike
+   */
+  private reject(status: number, method: string, organizationId: string, containerId: string | undefined, message: string): never {
+    const url = `/organization/${organizationId}/overrides${containerId ? `/${containerId}` : ''}`;
+    const requestConfig = { method, url, headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+    logger.warn('WxCC simulator rejected request', {
+      operation: 'wxcc_simulator',
+      method: method.toUpperCase(),
+      url,
+      status,
+      message
+    });
+
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      AxiosError.ERR_BAD_REQUEST,
+      requestConfig,
+      undefined,
+      {
+        status,
+        statusText: STATUS_TEXT[status] || '',
+        headers: {},
+        config: requestConfig,
+        data: { message }
+      }
+    );
+  }
+
+  private logCall(method: string, organizationId: string, containerId?: string): void {
+    logger.debug('WxCC simulator call', {
+      operation: 'wxcc_simulator',
+      method,
+      organizationId,
+      containerId
+    });
+  }
+
+  private clone<T extends NewWxccOverrideContainer>(container: T): T {
+    return {
+      ...container,
+      ...(container.overrides && { overrides: container.overrides.map(override => ({ ...override })) })
+    };
+  }
+}
@@ -4,6 +4,8 @@ export interface OverrideContainer {
   id: string;
   name: string;
   description?: string;
+  timezone?: string;
+  version?: number;
   createdAt: string;
   updatedAt: string;
   agents: Agent[];
@@ -14,9 +16,13 @@ export interface Agent {
   containerId: string;
   containerName: string;
   workingHours: boolean;
-  startDateTime: string; // ISO 8601 format
-  endDateTime: string;   // ISO 8601 format
+  startDateTime: string; // wall-clock time in the container timezone, as stored by WxCC
+  endDateTime: string;   // wall-clock time in the container timezone, as stored by WxCC
+  startDateTimeUtc?: string; // ISO 8601 UTC instant of startDateTime
+  endDateTimeUtc?: string;   // ISO 8601 UTC instant of endDateTime
+  timezone?: string; // IANA timezone of the container
   status: AgentStatus;
+  containerVersion?: number; // container version after a write, for If-Match on the next write
 }
 
 export enum AgentStatus {
@@ -39,6 +45,9 @@ export interface WxccOverrideContainer {
   overrides?: WxccOverride[];
 }
 
+// Body of a container create; WxCC assigns the id, version and timestamps
+export type NewWxccOverrideContainer = Omit<WxccOverrideContainer, 'id' | 'version' | 'createdTime' | 'lastModifiedTime'>;
+
 export interface WxccOverride {
   name: string; // This becomes our agentId
   workingHours: boolean;
@@ -46,11 +55,19 @@ export interface WxccOverride {
   endDateTime: string;
 }
 
+// A change to one override within a container write
+export interface OverrideUpdate {
+  agentId: string;
+  overrideData: Partial<WxccOverride>;
+}
+
 // API Response types for frontend
 export interface ContainerResponse {
   id: string;
   name: string;
   description?: string;
+  timezone?: string;
+  version?: number;
   agents: AgentResponse[];
   activeAgents: AgentResponse[];
   totalAgents: number;
@@ -64,6 +81,9 @@ export interface AgentResponse {
   workingHours: boolean;
   startDateTime: string;
   endDateTime: string;
+  startDateTimeUtc?: string;
+  endDateTimeUtc?: string;
+  timezone?: string;
   status: AgentStatus;
   isCurrentlyActive: boolean;
 }
@@ -74,31 +94,220 @@ export interface ScheduleValidationError {
   message: string;
   agentId?: string;
   conflictingAgentId?: string;
+  conflictingContainerId?: string; // set when the clash is in another container
+  overlapStart?: string;   // ISO 8601 UTC start of the overlapping or rule-violating window
+  overlapEnd?: string;     // ISO 8601 UTC end of that window
+  overlapMinutes?: number; // length of that window
 }
 
+/**
+ * Which schedules an update is checked against for overlaps
+ * - container: other working-hours overrides in the same container
+ * - cross-container: additionally, overrides mapped to the same agent in every other container
+ */
+export type ScheduleConflictPolicy = 'container' | 'cross-container';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ScheduleValidationError[];
 }
 
-// Update request types
-export interface UpdateAgentRequest {
-  workingHours: boolean;
-  startDateTime: string;
-  endDateTime: string;
+// Optimistic concurrency types
+export interface FieldConflict {
+  agentId: string;
+  field: string;
+  baseValue?: unknown;      // value at the version the client last saw, if still known
+  currentValue?: unknown;   // value currently stored in WxCC
+  requestedValue?: unknown; // value the client tried to write
+}
+
+// Request bodies and queries, derived from the schemas they are validated against
+export type {
+  UpdateAgentRequest,
+  CreateAgentRequest,
+  BulkUpdateItem,
+  BulkUpdateRequest,
+  CreateContainerRequest,
+  UpdateContainerRequest,
+  CloneContainerRequest,
+  ContainerPermissionRequest,
+  CreateOrganizationRequest,
+  UpdateOrganizationRequest,
+  MappingRequest,
+  WorkingHoursToggleRequest,
+  RecurringScheduleRequest,
+  CoverageRulesRequest,
+  GenerateOverridesQuery,
+  CoverageQuery
+} from '../schemas';
+
+// A request field that failed schema validation
+export interface RequestFieldError {
+  location: 'params' | 'query' | 'body';
+  field: string; // path within the location, e.g. updates[0].startDateTime
+  message: string;
+}
+
+// Bulk schedule update types
+export interface BulkUpdateItemResult {
+  containerId: string;
+  agentId: string;
+  success: boolean;
+  agent?: Agent;
+  errors?: ScheduleValidationError[];
+}
+
+export interface BulkUpdateResult {
+  applied: boolean;
+  results: BulkUpdateItemResult[];
+  successCount: number;
+  failureCount: number;
+}
+
+// Cached reads report whether WxCC had to be called
+export type CacheStatus = 'hit' | 'miss';
+
+export interface CachedResult<T> {
+  data: T;
+  cache: CacheStatus;
+}
+
+// A container left out of a list because its details could not be fetched
+export interface ContainerLoadFailure {
+  containerId: string;
+  error: string;
+}
+
+export interface ContainerListResult<T> extends CachedResult<T> {
+  failures: ContainerLoadFailure[];
+}
+
+// WxCC client circuit breaker, reported on /api/health
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt?: string; // ISO 8601, while open or half-open
+  retryAt?: string;  // ISO 8601, when an open circuit lets a trial request through
 }
 
+// Where WxCC calls go: the real Overrides API, or an in-process simulator for offline use
+export type WxccBackendType = 'http' | 'simulator';
+
 // API configuration
 export interface WxccApiConfig {
+  backend: WxccBackendType;
   baseUrl: string;
   accessToken: string;
   organizationId: string;
   timeout: number;
+  // OAuth2 refresh-token grant; without a refresh token the access token is used as-is
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl?: string;
+}
+
+// API authentication; each role may do everything the roles before it may
+export type Role = 'viewer' | 'scheduler' | 'admin';
+
+export const ROLES: readonly Role[] = ['viewer', 'scheduler', 'admin'];
+
+export type AuthMethod = 'api_key' | 'jwt';
+
+// Who a request was made by, recorded as the actor of its changes
+export interface AuthIdentity {
+  subject: string;  // API key name, or the JWT `sub` claim
+  role: Role;
+  groups: string[]; // JWT `groups` claim; API keys have none
+  method: AuthMethod;
+}
+
+// Per-container access control, on top of roles. A container without entries is open to
+// every role; once it has entries, only the users and groups listed may read or write it.
+// Admins are never restricted.
+export type ContainerAccess = 'read' | 'write';
+
+export type PrincipalType = 'user' | 'group';
+
+export interface ContainerPermission {
+  id: number;
+  organizationId: string;
+  containerId: string;
+  principalType: PrincipalType;
+  principal: string; // user (API key name or JWT sub) or group name
+  access: ContainerAccess;
+  createdAt: string;
+}
+
+export interface ApiKeyConfig {
+  name: string;
+  role: Role;
+  key: string;
+}
+
+export interface AuthConfig {
+  enabled: boolean;
+  apiKeys: ApiKeyConfig[];
+  // HS256 secret of locally verified JWTs; JWTs are rejected without one
+  jwtSecret: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+}
+
+// A WxCC organization (tenant) registered in SQLite, addressed as /api/orgs/:orgId
+export interface Organization {
+  id: string;       // WxCC organization id, used in WxCC endpoint paths
+  name: string;
+  baseUrl: string;  // WxCC API base URL of the org's region
+  timezone: string; // IANA timezone used for containers that don't set one
+  accessToken?: string;
+  refreshToken?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Organizations as returned by the API; credentials are reported, never returned
+export interface OrganizationResponse {
+  id: string;
+  name: string;
+  baseUrl: string;
+  timezone: string;
+  tokenUrl?: string;
+  hasAccessToken: boolean;
+  hasRefreshToken: boolean;
+  hasClientCredentials: boolean;
+  source: 'database' | 'environment';
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// WxCC OAuth2 tokens, persisted in SQLite so rotated refresh tokens survive restarts
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string;             // ISO 8601; unknown for a static access token
+  refreshTokenExpiresAt?: string; // ISO 8601
+  updatedAt?: string;
+}
+
+// Numbered schema migrations of the SQLite store; applied ones are recorded in schema_migrations
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt?: string; // ISO 8601, UTC
 }
 
 // Mapping types for SQLite persistent storage
 export interface AgentMapping {
   id: number;
+  organizationId: string;
   overrideName: string; // The 'name' from WxCC API override
   agentName: string; // User-friendly name
   workingHoursActive: boolean;
@@ -106,16 +315,6 @@ export interface AgentMapping {
   updatedAt: string;
 }
 
-export interface MappingRequest {
-  overrideName: string;
-  agentName: string;
-}
-
-export interface WorkingHoursToggleRequest {
-  overrideName: string;
-  workingHoursActive: boolean;
-}
-
 export interface OverrideMappingResponse {
   overrideName: string;
   agentName: string | null; // null if unmapped
@@ -126,4 +325,141 @@ export interface OverrideMappingResponse {
   endDateTime?: string;
   containerId?: string;
   containerName?: string;
-}
\ No newline at end of file
+}
+
+// Audit log of schedule and mapping changes, stored in SQLite and queried through GET /api/audit
+export type AuditAction =
+  | 'update_agent_schedule'
+  | 'restore_agent_schedule'
+  | 'create_agent_schedule'
+  | 'delete_agent_schedule'
+  | 'bulk_update_agent_schedule'
+  | 'rollback_agent_schedule'
+  | 'upsert_mapping'
+  | 'update_working_hours';
+
+export type AuditEntityType = 'override' | 'mapping';
+
+export type AuditOutcome = 'success' | 'failure';
+
+export interface AuditEntry {
+  id: number;
+  timestamp: string; // ISO 8601, UTC
+  organizationId: string;
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  overrideName: string;
+  containerId?: string;
+  before: unknown; // entity state before the change; null if it did not exist
+  after: unknown;  // entity state after the change, or the requested state if it failed
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+// What a service reports; organization, actor and timestamp are filled in from the request
+export type AuditRecord = Omit<AuditEntry, 'id' | 'timestamp' | 'organizationId' | 'actor'>;
+
+export interface AuditLogQuery {
+  overrideName?: string;
+  containerId?: string;
+  actor?: string;
+  from?: string; // ISO 8601, inclusive
+  to?: string;   // ISO 8601, exclusive
+  limit: number;
+  offset: number;
+}
+
+// Version history of an agent override's schedule, one version per change made through the API
+// 'initial' is the schedule found in WxCC before the first recorded change, 'delete' the schedule
+// that was deleted and 'rollback' a schedule put back by an atomic bulk update that failed
+export type OverrideVersionChange = 'initial' | 'create' | 'update' | 'restore' | 'delete' | 'rollback';
+
+export interface OverrideVersion {
+  id: number;
+  organizationId: string;
+  containerId: string;
+  overrideName: string;
+  version: number;           // 1, 2, ... per override in a container
+  workingHours: boolean;
+  startDateTime: string;     // wall-clock time in the container timezone
+  endDateTime: string;
+  startDateTimeUtc?: string; // ISO 8601 instants, used when the version is restored
+  endDateTimeUtc?: string;
+  timezone?: string;
+  containerVersion?: number; // WxCC container version after the change
+  changeType: OverrideVersionChange;
+  restoredFrom?: number;     // version this one restored, for 'restore' changes
+  actor: string;
+  createdAt: string;         // ISO 8601, UTC
+}
+
+// Recurring schedule templates stored in SQLite
+export interface RecurringSchedule {
+  id: number;
+  organizationId: string;
+  containerId: string;
+  overrideName: string;   // occurrences are named "<overrideName> <yyyy-MM-dd>"
+  daysOfWeek: number[];   // 0 = Sunday ... 6 = Saturday
+  startTime: string;      // HH:mm
+  endTime: string;        // HH:mm, earlier than startTime for overnight shifts
+  workingHours: boolean;
+  validFrom?: string;     // yyyy-MM-dd, inclusive
+  validUntil?: string;    // yyyy-MM-dd, inclusive
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecurrenceOccurrence {
+  agentId: string;
+  startDateTime: string;
+  endDateTime: string;
+}
+
+export interface RecurrenceGenerationResult {
+  scheduleId: number;
+  containerId: string;
+  horizonStart: string;
+  horizonEnd: string;
+  dryRun: boolean;
+  created: RecurrenceOccurrence[];
+  existing: RecurrenceOccurrence[];
+  conflicts: Array<RecurrenceOccurrence & { errors: ScheduleValidationError[] }>;
+}
+
+// Per-container coverage rules stored in SQLite
+export interface CoverageWindow {
+  daysOfWeek: number[]; // 0 = Sunday ... 6 = Saturday, in the container timezone
+  startTime: string;    // HH:mm
+  endTime: string;      // HH:mm, earlier than startTime for windows past midnight
+}
+
+export interface CoverageRules {
+  containerId: string;
+  maxConcurrent: number;            // most working-hours agents allowed at the same time
+  minCoverage: number;              // fewest working-hours agents a change may leave at any time
+  allowedWindows: CoverageWindow[]; // working-hours schedules must fall inside these; empty = any time
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CoverageSegment {
+  start: string; // ISO 8601 UTC
+  end: string;   // ISO 8601 UTC
+  minutes: number;
+  agentIds: string[]; // working-hours agents for the whole segment
+}
+
+export interface CoverageAnalysis {
+  containerId: string;
+  containerName: string;
+  timezone: string;
+  from: string;
+  to: string;
+  covered: CoverageSegment[];      // at least one working-hours agent
+  gaps: CoverageSegment[];         // nobody with workingHours: true
+  doubleBooked: CoverageSegment[]; // two or more working-hours agents
+  coveredMinutes: number;
+  gapMinutes: number;
+  doubleBookedMinutes: number;
+}
@@ -0,0 +1,83 @@
+import { CircuitState, CircuitBreakerStatus } from '../types';
+
+/**
+ * Consecutive-failure circuit breaker
+ *
+ * - closed: requests flow; `failureThreshold` failures in a row open the circuit
+ * - open: requests are refused until `resetTimeoutMs` has passed
+ * - half-open: a single trial request is let through; success closes the circuit,
+ *   failure opens it again
+ */
+export class CircuitBreaker {
+  private currentState: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.currentState === 'open' && this.now() - (this.openedAt ?? 0) >= this.resetTimeoutMs) {
+      this.currentState = 'half-open';
+      this.trialInFlight = false;
+    }
+    return this.currentState;
+  }
+
+  /**
+   * Whether a request may be sent now; in half-open state only the first caller gets through
+   */
+  allowRequest(): boolean {
+    switch (this.state) {
+      case 'closed':
+        return true;
+      case 'half-open':
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  recordSuccess(): void {
+    this.currentState = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+
+    if (this.currentState === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.currentState = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  /**
+   * When an open circuit will next let a trial request through
+   */
+  get retryAt(): Date | undefined {
+    return this.state === 'open' && this.openedAt !== undefined
+      ? new Date(this.openedAt + this.resetTimeoutMs)
+      : undefined;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.state;
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      ...(this.openedAt !== undefined && state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString() }),
+      ...(this.retryAt && { retryAt: this.retryAt.toISOString() })
+    };
+  }
+}
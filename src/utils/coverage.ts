@@ -0,0 +1,109 @@
+import { CoverageRules, CoverageWindow } from '../types';
+import { toWxccFormat, parseInTimezone, DEFAULT_TIMEZONE } from './dateFormat';
+
+/**
+ * Timeline utilities for coverage rules and coverage analysis
+ *
+ * All intervals are half-open [start, end) instants, so a shift ending at 10:00
+ * and another starting at 10:00 never count as concurrent.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rules applied to containers without stored coverage rules: the original
+ * "no two working-hours overrides may overlap" behaviour
+ */
+export const DEFAULT_COVERAGE_RULES: Omit<CoverageRules, 'containerId'> = {
+  maxConcurrent: 1,
+  minCoverage: 0,
+  allowedWindows: []
+};
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface LabelledInterval extends TimeInterval {
+  id: string;
+}
+
+export interface TimelineSegment extends TimeInterval {
+  ids: string[]; // intervals active for the whole segment
+}
+
+/**
+ * Split [from, to) into consecutive segments, each listing the intervals active throughout it
+ * Neighbouring segments with the same active intervals are merged
+ */
+export const buildTimeline = (intervals: LabelledInterval[], from: Date, to: Date): TimelineSegment[] => {
+  const relevant = intervals.filter(interval =>
+    interval.start < interval.end && interval.start < to && interval.end > from
+  );
+
+  const boundaries = new Set<number>([from.getTime(), to.getTime()]);
+  for (const interval of relevant) {
+    boundaries.add(Math.max(interval.start.getTime(), from.getTime()));
+    boundaries.add(Math.min(interval.end.getTime(), to.getTime()));
+  }
+
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+  const segments: TimelineSegment[] = [];
+
+  for (let index = 0; index < points.length - 1; index++) {
+    const start = points[index];
+    const end = points[index + 1];
+    const ids = relevant
+      .filter(interval => interval.start.getTime() <= start && interval.end.getTime() >= end)
+      .map(interval => interval.id)
+      .sort();
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.end.getTime() === start && previous.ids.join('\n') === ids.join('\n')) {
+      previous.end = new Date(end);
+    } else {
+      segments.push({ start: new Date(start), end: new Date(end), ids });
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Concrete occurrences of weekly windows that overlap [from, to)
+ * Days and times are wall-clock values in the given timezone
+ */
+export const expandWeeklyWindows = (
+  windows: CoverageWindow[],
+  from: Date,
+  to: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): TimeInterval[] => {
+  const occurrences: TimeInterval[] = [];
+
+  // Start a day early so a window running past midnight from the previous day is included
+  const firstDay = Date.parse(`${toWxccFormat(from, timezone).slice(0, 10)}T00:00:00Z`) - DAY_MS;
+  const lastDay = Date.parse(`${toWxccFormat(to, timezone).slice(0, 10)}T00:00:00Z`);
+
+  for (let day = firstDay; day <= lastDay; day += DAY_MS) {
+    const date = new Date(day);
+    const dateKey = date.toISOString().slice(0, 10);
+    const nextDateKey = new Date(day + DAY_MS).toISOString().slice(0, 10);
+
+    for (const window of windows) {
+      if (!window.daysOfWeek.includes(date.getUTCDay())) continue;
+
+      const start = parseInTimezone(`${dateKey}T${window.startTime}`, timezone);
+      const end = window.endTime > window.startTime
+        ? parseInTimezone(`${dateKey}T${window.endTime}`, timezone)
+        : parseInTimezone(`${nextDateKey}T${window.endTime}`, timezone);
+
+      if (end > from && start < to) {
+        occurrences.push({ start, end });
+      }
+    }
+  }
+
+  return occurrences;
+};
@@ -1,49 +1,164 @@
-import { format, parseISO, isValid } from 'date-fns';
+import { parseISO, isValid } from 'date-fns';
 
 /**
  * Date formatting utilities for WxCC API integration
  * 
  * WxCC API expects date format: yyyy-MM-dd'T'HH:mm (no seconds or milliseconds)
  * This utility ensures all dates sent to WxCC API conform to this format
+ * 
+ * WxCC dates carry no offset: they are wall-clock times in the container's IANA
+ * timezone (WxccOverrideContainer.timezone). All conversions take that timezone
+ * explicitly and never depend on the timezone of the server process.
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+// Matches a trailing Z or +hh:mm / -hhmm / +hh offset on an ISO date-time string
+const EXPLICIT_OFFSET_REGEX = /T.*(Z|[+-]\d{2}(:?\d{2})?)$/i;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall-clock components of an instant in the given timezone
+ */
+const getWallClock = (date: Date, timezone: string): WallClock => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+};
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
  */
+const getTimezoneOffsetMs = (date: Date, timezone: string): number => {
+  const wall = getWallClock(date, timezone);
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return wallAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert wall-clock components in a timezone to the instant they denote
+ * Times skipped by a DST change resolve to the instant after the gap
+ */
+const wallClockToDate = (wall: WallClock, timezone: string): Date => {
+  const wallAsUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  const firstGuess = wallAsUtc - getTimezoneOffsetMs(new Date(wallAsUtc), timezone);
+  const offset = getTimezoneOffsetMs(new Date(firstGuess), timezone);
+  return new Date(wallAsUtc - offset);
+};
+
+/**
+ * Parse a date input into an instant
+ * 
+ * Strings with an explicit offset (Z, +01:00) denote that instant. Strings without
+ * one, such as WxCC's yyyy-MM-dd'T'HH:mm, are wall-clock times in `timezone`.
+ * @param dateInput - ISO string, WxCC string or Date object
+ * @param timezone - IANA timezone for strings without an offset
+ * @returns The instant, or an invalid Date if the input cannot be parsed
+ */
+export const parseInTimezone = (dateInput: string | Date, timezone: string = DEFAULT_TIMEZONE): Date => {
+  if (dateInput instanceof Date) {
+    return dateInput;
+  }
+
+  const parsed = parseISO(dateInput);
+
+  if (isValid(parsed) && !EXPLICIT_OFFSET_REGEX.test(dateInput)) {
+    // Read the wall-clock components as UTC so the server timezone plays no part
+    const wallClock = parseISO(dateInput.includes('T') ? `${dateInput}Z` : `${dateInput}T00:00Z`);
+    return wallClockToDate({
+      year: wallClock.getUTCFullYear(),
+      month: wallClock.getUTCMonth() + 1,
+      day: wallClock.getUTCDate(),
+      hour: wallClock.getUTCHours(),
+      minute: wallClock.getUTCMinutes(),
+      second: wallClock.getUTCSeconds()
+    }, timezone);
+  }
+
+  // If parseISO fails, try new Date()
+  return isValid(parsed) ? parsed : new Date(dateInput);
+};
+
+/**
+ * Format an instant as wall-clock time in a timezone: yyyy-MM-dd'T'HH:mm
+ */
+const formatWallClock = (date: Date, timezone: string): string => {
+  const wall = getWallClock(date, timezone);
+  return `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}T${pad(wall.hour)}:${pad(wall.minute)}`;
+};
 
 /**
  * Convert ISO string or Date to WxCC format: yyyy-MM-dd'T'HH:mm
  * @param dateInput - ISO string, Date object, or date-like string
- * @returns Formatted date string for WxCC API
+ * @param timezone - IANA timezone of the container the date is written to
+ * @returns Formatted date string for WxCC API, as wall-clock time in `timezone`
  */
-export const toWxccFormat = (dateInput: string | Date): string => {
-  let date: Date;
-  
-  if (typeof dateInput === 'string') {
-    // Handle ISO strings and other string formats
-    date = parseISO(dateInput);
-    
-    // If parseISO fails, try new Date()
-    if (!isValid(date)) {
-      date = new Date(dateInput);
-    }
-  } else {
-    date = dateInput;
-  }
+export const toWxccFormat = (dateInput: string | Date, timezone: string = DEFAULT_TIMEZONE): string => {
+  const date = parseInTimezone(dateInput, timezone);
   
   if (!isValid(date)) {
     throw new Error(`Invalid date input: ${dateInput}`);
   }
   
   // Format to WxCC expected format: yyyy-MM-dd'T'HH:mm
-  return format(date, "yyyy-MM-dd'T'HH:mm");
+  return formatWallClock(date, timezone);
+};
+
+/**
+ * Convert a WxCC date (wall-clock time in the container timezone) to a UTC ISO string
+ * @param wxccDate - WxCC or ISO date string
+ * @param timezone - IANA timezone of the container the date was read from
+ * @returns ISO 8601 UTC instant, e.g. 2024-01-15T09:30:00.000Z
+ */
+export const wxccToUtcIso = (wxccDate: string, timezone: string = DEFAULT_TIMEZONE): string => {
+  const date = parseInTimezone(wxccDate, timezone);
+
+  if (!isValid(date)) {
+    throw new Error(`Invalid date input: ${wxccDate}`);
+  }
+
+  return date.toISOString();
 };
 
 /**
  * Convert ISO string to WxCC format safely with error handling
  * @param isoString - ISO date string
  * @param fallback - Optional fallback value if conversion fails
+ * @param timezone - IANA timezone of the container the date is written to
  * @returns WxCC formatted date or fallback
  */
-export const safeToWxccFormat = (isoString: string, fallback?: string): string => {
+export const safeToWxccFormat = (isoString: string, fallback?: string, timezone: string = DEFAULT_TIMEZONE): string => {
   try {
-    return toWxccFormat(isoString);
+    return toWxccFormat(isoString, timezone);
   } catch (error) {
     if (fallback !== undefined) {
       return fallback;
@@ -56,17 +171,19 @@ export const safeToWxccFormat = (isoString: string, fallback?: string): string =
  * Batch convert an object's date fields to WxCC format
  * @param obj - Object containing date fields
  * @param dateFields - Array of field names that contain dates
+ * @param timezone - IANA timezone of the container the dates are written to
  * @returns New object with date fields converted to WxCC format
  */
 export const convertObjectDatesToWxcc = <T extends Record<string, any>>(
   obj: T, 
-  dateFields: (keyof T)[]
+  dateFields: (keyof T)[],
+  timezone: string = DEFAULT_TIMEZONE
 ): T => {
   const converted = { ...obj };
   
   dateFields.forEach(field => {
     if (converted[field]) {
-      converted[field] = toWxccFormat(converted[field] as string) as T[keyof T];
+      converted[field] = toWxccFormat(converted[field] as string, timezone) as T[keyof T];
     }
   });
   
@@ -82,4 +199,20 @@ export const isWxccFormat = (dateString: string): boolean => {
   // WxCC format regex: yyyy-MM-dd'T'HH:mm
   const wxccFormatRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
   return wxccFormatRegex.test(dateString);
+};
+
+/**
+ * Validate that a string is a known IANA timezone name
+ * @param timezone - Timezone name, e.g. Europe/London
+ * @returns True if the runtime recognises the timezone
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+  if (!timezone) return false;
+
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
 };
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { ContainerAccess, FieldConflict, RequestFieldError, ScheduleValidationError } from '../types';
+
+/**
+ * Base of the errors the API reports to clients
+ *
+ * Each kind carries the HTTP status and problem type it is reported with, and any
+ * structured details; errorHandler turns them into RFC 7807 problem responses. Errors
+ * of any other class are reported as 500 Internal server error.
+ */
+export abstract class DomainError extends Error {
+  abstract readonly status: number;
+  abstract readonly title: string;
+  abstract readonly type: string; // problem type slug, e.g. "not-found"
+  readonly details: Record<string, unknown>;
+
+  constructor(message: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.details = details;
+  }
+}
+
+/**
+ * Raised when a request or the change it asks for is not valid
+ */
+export class ValidationError extends DomainError {
+  readonly status: number = 400;
+  readonly title: string = 'Validation error';
+  readonly type: string = 'validation-error';
+}
+
+/**
+ * Raised when a request's path parameters, query string or body do not match their schema,
+ * carrying every field that failed
+ */
+export class RequestValidationError extends ValidationError {
+  readonly errors: RequestFieldError[];
+
+  constructor(errors: RequestFieldError[]) {
+    super(`Invalid request: ${errors.map(e => e.message).join(', ')}`, { errors });
+    this.errors = errors;
+  }
+}
+
+/**
+ * Raised when a schedule fails validation, carrying every individual error
+ * The message keeps the "Validation failed: ..." form shown to users
+ */
+export class ScheduleValidationFailedError extends ValidationError {
+  readonly errors: ScheduleValidationError[];
+
+  constructor(errors: ScheduleValidationError[]) {
+    super(`Validation failed: ${errors.map(e => e.message).join(', ')}`, { errors });
+    this.errors = errors;
+  }
+}
+
+/**
+ * Raised when a container, override, mapping or other resource does not exist
+ */
+export class NotFoundError extends DomainError {
+  readonly status: number = 404;
+  readonly title: string = 'Resource not found';
+  readonly type: string = 'not-found';
+}
+
+/**
+ * Raised when a change clashes with the current state, such as creating something that exists
+ */
+export class ConflictError extends DomainError {
+  readonly status: number = 409;
+  readonly title: string = 'Conflict';
+  readonly type: string = 'conflict';
+}
+
+/**
+ * Raised when turning on an override's working hours would clash with other schedules
+ * The message keeps the "Validation failed: ..." form shown to users
+ */
+export class ScheduleConflictError extends ConflictError {
+  readonly title: string = 'Schedule conflict';
+  readonly type: string = 'schedule-conflict';
+  readonly errors: ScheduleValidationError[];
+
+  constructor(errors: ScheduleValidationError[]) {
+    super(`Validation failed: ${errors.map(e => e.message).join(', ')}`, { errors });
+    this.errors = errors;
+  }
+}
+
+/**
+ * Raised when a write is based on a stale container version and the
+ * concurrent change touched the same override fields as the write
+ */
+export class VersionConflictError extends ConflictError {
+  readonly title: string = 'Version conflict';
+  readonly type: string = 'version-conflict';
+  readonly containerId: string;
+  readonly expectedVersion?: number;
+  readonly currentVersion?: number;
+  readonly conflicts: FieldConflict[];
+
+  constructor(
+    containerId: string,
+    expectedVersion: number | undefined,
+    currentVersion: number | undefined,
+    conflicts: FieldConflict[]
+  ) {
+    super(
+      `Container ${containerId} was modified (expected version ${expectedVersion}, current version ${currentVersion}); ` +
+      `conflicting fields: ${conflicts.map(c => `${c.agentId}.${c.field}`).join(', ')}`,
+      { containerId, expectedVersion, currentVersion, conflicts }
+    );
+    this.containerId = containerId;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Raised when WxCC, or the token endpoint in front of it, fails a call
+ * `upstreamStatus` is the status WxCC answered with, if it answered at all
+ */
+export class UpstreamError extends DomainError {
+  readonly status: number = 502;
+  readonly title: string = 'Upstream service error';
+  readonly type: string = 'upstream-error';
+  readonly upstreamStatus?: number;
+
+  constructor(message: string, upstreamStatus?: number) {
+    super(message, { upstreamStatus });
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/**
+ * Raised without calling WxCC while the client's circuit breaker is open
+ */
+export class CircuitOpenError extends UpstreamError {
+  readonly status: number = 503;
+  readonly title: string = 'Upstream service unavailable';
+  readonly type: string = 'circuit-open';
+  readonly retryAt?: Date;
+
+  constructor(retryAt?: Date) {
+    super(`WxCC API circuit breaker is open${retryAt ? `; retry after ${retryAt.toISOString()}` : ''}`);
+    this.details.retryAt = retryAt?.toISOString();
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Raised when a request carries no credentials, or credentials that cannot be verified
+ */
+export class AuthenticationError extends DomainError {
+  readonly status: number = 401;
+  readonly title: string = 'Unauthorized';
+  readonly type: string = 'unauthorized';
+}
+
+/**
+ * Raised when the caller is authenticated but not allowed to do what it asks
+ */
+export class ForbiddenError extends DomainError {
+  readonly status: number = 403;
+  readonly title: string = 'Forbidden';
+  readonly type: string = 'forbidden';
+}
+
+/**
+ * Raised when the caller's container permissions do not allow the access a request needs
+ */
+export class ContainerAccessDeniedError extends ForbiddenError {
+  readonly containerId: string;
+  readonly access: ContainerAccess;
+
+  constructor(containerId: string, access: ContainerAccess) {
+    super(`Access denied: ${access} access to container ${containerId} is required`, { containerId, access });
+    this.containerId = containerId;
+    this.access = access;
+  }
+}
+
+/**
+ * Raised when a client has used up its rate limit budget for the current window
+ */
+export class RateLimitError extends DomainError {
+  readonly status: number = 429;
+  readonly title: string = 'Too many requests';
+  readonly type: string = 'rate-limited';
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, { retryAfterSeconds });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthenticationError } from './errors';
+
+// Allowed clock difference between the token issuer and this server
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+  now?: Date;
+}
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  try {
+    const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    if (decoded === null || typeof decoded !== 'object' || Array.isArray(decoded)) {
+      throw new Error('not a JSON object');
+    }
+    return decoded;
+  } catch {
+    throw new AuthenticationError('Invalid token: malformed');
+  }
+};
+
+/**
+ * Verify an HS256-signed JWT and return its claims
+ * Only HS256 is accepted, whatever the header asks for, so a token cannot opt out of
+ * the signature check with `alg: none`. Throws AuthenticationError if the token is
+ * malformed, wrongly signed, without an `exp` claim, expired, not yet valid, or for
+ * another issuer or audience.
+ */
+export const verifyJwt = (token: string, options: JwtVerifyOptions): JwtClaims => {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthenticationError('Invalid token: malformed');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const header = decodeSegment(encodedHeader);
+  if (header.alg !== 'HS256') {
+    throw new AuthenticationError('Invalid token: only HS256 is supported');
+  }
+
+  const expected = createHmac('sha256', options.secret).update(`${encodedHeader}.${encodedPayload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthenticationError('Invalid token: bad signature');
+  }
+
+  const claims: JwtClaims = decodeSegment(encodedPayload);
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+
+  // A token that never expires would stay valid for good once leaked
+  if (typeof claims.exp !== 'number') {
+    throw new AuthenticationError('Invalid token: missing exp');
+  }
+  if (now > claims.exp + CLOCK_TOLERANCE_SECONDS) {
+    throw new AuthenticationError('Invalid token: expired');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - CLOCK_TOLERANCE_SECONDS) {
+    throw new AuthenticationError('Invalid token: not yet valid');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new AuthenticationError('Invalid token: unexpected issuer');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new AuthenticationError('Invalid token: unexpected audience');
+    }
+  }
+
+  return claims;
+};
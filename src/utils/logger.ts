@@ -1,10 +1,22 @@
 import winston from 'winston';
 import { config } from '../config';
+import { getCurrentIdentity } from './requestContext';
+
+// Tag every line logged while handling an authenticated request with its caller
+const identityFormat = winston.format(info => {
+  const identity = getCurrentIdentity();
+  if (identity) {
+    info.actor = identity.subject;
+    info.role = identity.role;
+  }
+  return info;
+});
 
 // Create winston logger with structured JSON format
 const logger = winston.createLogger({
   level: config.logging.level,
   format: winston.format.combine(
+    identityFormat(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -0,0 +1,156 @@
+import { MigrationStatus } from '../types';
+import { AsyncDatabase } from './asyncDatabase';
+import { logger } from './logger';
+
+/**
+ * One step of the database schema
+ * Migrations are applied in ascending version order. Once released, a migration is never
+ * changed or renumbered; later schema changes are new migrations.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: AsyncDatabase): Promise<void>;
+  down(db: AsyncDatabase): Promise<void>;
+}
+
+const CREATE_SCHEMA_MIGRATIONS_SQL = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  )
+`;
+
+/**
+ * Applies and reverts migrations, recording the applied versions in schema_migrations
+ *
+ * Each migration runs in its own transaction together with its schema_migrations row, so a
+ * failing migration leaves the database at the version before it.
+ */
+export class Migrator {
+  private readonly migrations: Migration[];
+
+  constructor(private readonly db: AsyncDatabase, migrations: Migration[]) {
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version);
+
+    const versions = this.migrations.map(migration => migration.version);
+    const duplicate = versions.find((version, index) => versions.indexOf(version) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Migration version ${duplicate} is used more than once`);
+    }
+  }
+
+  /**
+   * Every known migration, and whether and when it was applied
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.getAppliedVersions();
+
+    return this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied: applied.has(migration.version),
+      appliedAt: applied.get(migration.version)
+    }));
+  }
+
+  /**
+   * Apply pending migrations up to and including `target`, or all of them
+   * Returns the migrations that were applied
+   */
+  async up(target?: number): Promise<Migration[]> {
+    const applied = await this.getAppliedVersions();
+    this.assertKnown(applied);
+
+    const pending = this.migrations.filter(migration =>
+      !applied.has(migration.version) && (target === undefined || migration.version <= target)
+    );
+
+    for (const migration of pending) {
+      await this.run(migration, 'up');
+    }
+
+    return pending;
+  }
+
+  /**
+   * Revert applied migrations above `target`, or only the latest one
+   * Returns the migrations that were reverted, latest first
+   */
+  async down(target?: number): Promise<Migration[]> {
+    const applied = await this.getAppliedVersions();
+    this.assertKnown(applied);
+
+    const appliedMigrations = this.migrations.filter(migration => applied.has(migration.version)).reverse();
+    const reverting = target === undefined
+      ? appliedMigrations.slice(0, 1)
+      : appliedMigrations.filter(migration => migration.version > target);
+
+    for (const migration of reverting) {
+      await this.run(migration, 'down');
+    }
+
+    return reverting;
+  }
+
+  private async run(migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    logger.info(`${direction === 'up' ? 'Applying' : 'Reverting'} database migration`, {
+      operation: 'migrate',
+      direction,
+      version: migration.version,
+      name: migration.name
+    });
+
+    await this.db.exec('BEGIN');
+    try {
+      if (direction === 'up') {
+        await migration.up(this.db);
+        await this.db.run(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      } else {
+        await migration.down(this.db);
+        await this.db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      }
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Database migration failed', {
+        operation: 'migrate',
+        direction,
+        version: migration.version,
+        name: migration.name,
+        error: errorMessage
+      });
+      throw error;
+    }
+  }
+
+  // Applied versions and when they were applied
+  private async getAppliedVersions(): Promise<Map<number, string>> {
+    await this.db.exec(CREATE_SCHEMA_MIGRATIONS_SQL);
+
+    const rows = await this.db.all<{ version: number; appliedAt: string }>(
+      'SELECT version, applied_at as appliedAt FROM schema_migrations'
+    );
+    return new Map(rows.map(row => [row.version, row.appliedAt]));
+  }
+
+  // A database migrated by a newer build may not match what this build expects
+  private assertKnown(applied: Map<number, string>): void {
+    const unknown = [...applied.keys()].filter(version =>
+      !this.migrations.some(migration => migration.version === version)
+    );
+
+    if (unknown.length > 0) {
+      throw new Error(
+        `Database has migrations this build does not know (${unknown.sort((a, b) => a - b).join(', ')}); ` +
+        'revert them with the build that applied them'
+      );
+    }
+  }
+}
@@ -1,135 +1,71 @@
-// Mock data for development and demo purposes
-import { ContainerResponse, AgentResponse, AgentStatus } from '../types';
+// Mock data for development and demo purposes, served by the WxCC simulator
+import { WxccOverrideContainer, WxccOverride } from '../types';
+import { toWxccFormat, DEFAULT_TIMEZONE } from './dateFormat';
 
-export const mockContainers: ContainerResponse[] = [
-  {
-    id: 'container-1',
-    name: 'Sales Team Override',
-    description: 'Override container for sales team agents during peak hours',
-    agents: [
-      {
-        agentId: 'john.doe',
-        containerId: 'container-1',
-        containerName: 'Sales Team Override',
-        workingHours: true,
-        startDateTime: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-        endDateTime: new Date(Date.now() + 7200000).toISOString(), // 2 hours from now
-        status: AgentStatus.ACTIVE,
-        isCurrentlyActive: true
-      },
-      {
-        agentId: 'jane.smith',
-        containerId: 'container-1',
-        containerName: 'Sales Team Override',
-        workingHours: true,
-        startDateTime: new Date(Date.now() + 3600000).toISOString(), // 1 hour from now
-        endDateTime: new Date(Date.now() + 10800000).toISOString(), // 3 hours from now
-        status: AgentStatus.SCHEDULED,
-        isCurrentlyActive: false
-      },
-      {
-        agentId: 'mike.johnson',
-        containerId: 'container-1',
-        containerName: 'Sales Team Override',
-        workingHours: false,
-        startDateTime: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
-        endDateTime: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-        status: AgentStatus.EXPIRED,
-        isCurrentlyActive: false
-      },
-      {
-        agentId: 'sarah.williams',
-        containerId: 'container-1',
-        containerName: 'Sales Team Override',
-        workingHours: false,
-        startDateTime: new Date(Date.now() + 86400000).toISOString(), // Tomorrow
-        endDateTime: new Date(Date.now() + 90000000).toISOString(), // Tomorrow + 1 hour
-        status: AgentStatus.INACTIVE,
-        isCurrentlyActive: false
-      }
-    ],
-    activeAgents: [],
-    totalAgents: 4,
-    activeCount: 1
-  },
-  {
-    id: 'container-2',
-    name: 'Support Team Override',
-    description: 'Emergency support override container for critical incidents',
-    agents: [
-      {
-        agentId: 'alex.brown',
-        containerId: 'container-2',
-        containerName: 'Support Team Override',
-        workingHours: true,
-        startDateTime: new Date(Date.now() - 1800000).toISOString(), // 30 min ago
-        endDateTime: new Date(Date.now() + 5400000).toISOString(), // 1.5 hours from now
-        status: AgentStatus.ACTIVE,
-        isCurrentlyActive: true
-      },
-      {
-        agentId: 'lisa.davis',
-        containerId: 'container-2',
-        containerName: 'Support Team Override',
-        workingHours: true,
-        startDateTime: new Date(Date.now() - 900000).toISOString(), // 15 min ago
-        endDateTime: new Date(Date.now() + 3600000).toISOString(), // 1 hour from now
-        status: AgentStatus.ACTIVE,
-        isCurrentlyActive: true
-      },
-      {
-        agentId: 'david.wilson',
-        containerId: 'container-2',
-        containerName: 'Support Team Override',
-        workingHours: true,
-        startDateTime: new Date(Date.now() + 1800000).toISOString(), // 30 min from now
-        endDateTime: new Date(Date.now() + 7200000).toISOString(), // 2 hours from now
-        status: AgentStatus.SCHEDULED,
-        isCurrentlyActive: false
-      }
-    ],
-    activeAgents: [],
-    totalAgents: 3,
-    activeCount: 2
-  },
-  {
-    id: 'container-3',
-    name: 'Customer Success Team',
-    description: 'Premium customer success team override',
-    agents: [
-      {
-        agentId: 'emma.garcia',
-        containerId: 'container-3',
-        containerName: 'Customer Success Team',
-        workingHours: false,
-        startDateTime: new Date(Date.now() + 3600000).toISOString(), // 1 hour from now
-        endDateTime: new Date(Date.now() + 14400000).toISOString(), // 4 hours from now
-        status: AgentStatus.INACTIVE,
-        isCurrentlyActive: false
-      },
-      {
-        agentId: 'robert.martinez',
-        containerId: 'container-3',
-        containerName: 'Customer Success Team',
-        workingHours: true,
-        startDateTime: new Date(Date.now() + 7200000).toISOString(), // 2 hours from now
-        endDateTime: new Date(Date.now() + 18000000).toISOString(), // 5 hours from now
-        status: AgentStatus.SCHEDULED,
-        isCurrentlyActive: false
-      }
-    ],
-    activeAgents: [],
-    totalAgents: 2,
-    activeCount: 0
-  }
-];
+const HOUR = 3600000;
 
-// Update active agents arrays
-mockContainers.forEach(container => {
-  container.activeAgents = container.agents.filter(agent => agent.isCurrentlyActive);
-  container.activeCount = container.activeAgents.length;
+/**
+ * Override scheduled relative to `now`, with WxCC wall-clock dates in UTC
+ */
+const override = (name: string, workingHours: boolean, startOffset: number, endOffset: number, now: number): WxccOverride => ({
+  name,
+  workingHours,
+  startDateTime: toWxccFormat(new Date(now + startOffset), DEFAULT_TIMEZONE),
+  endDateTime: toWxccFormat(new Date(now + endOffset), DEFAULT_TIMEZONE)
 });
 
-export const mockActiveAgents: AgentResponse[] = [
-  ...mockContainers.flatMap(container => container.activeAgents)
-];
\ No newline at end of file
+/**
+ * Sample override containers for an organization, as WxCC returns them
+ * Agents are active, scheduled, expired and off at the time of the call.
+ */
+export const createMockContainers = (organizationId: string, now: number = Date.now()): WxccOverrideContainer[] => {
+  const timestamp = toWxccFormat(new Date(now), DEFAULT_TIMEZONE);
+
+  return [
+    {
+      id: 'container-1',
+      organizationId,
+      version: 1,
+      name: 'Sales Team Override',
+      description: 'Override container for sales team agents during peak hours',
+      timezone: DEFAULT_TIMEZONE,
+      createdTime: timestamp,
+      lastModifiedTime: timestamp,
+      overrides: [
+        override('john.doe', true, -HOUR, 2 * HOUR, now),         // active
+        override('jane.smith', true, HOUR, 3 * HOUR, now),        // scheduled
+        override('mike.johnson', false, -2 * HOUR, -HOUR, now),   // expired
+        override('sarah.williams', false, 24 * HOUR, 25 * HOUR, now) // tomorrow, off
+      ]
+    },
+    {
+      id: 'container-2',
+      organizationId,
+      version: 1,
+      name: 'Support Team Override',
+      description: 'Emergency support override container for critical incidents',
+      timezone: DEFAULT_TIMEZONE,
+      createdTime: timestamp,
+      lastModifiedTime: timestamp,
+      overrides: [
+        override('alex.brown', true, -0.5 * HOUR, 1.5 * HOUR, now), // active
+        override('lisa.davis', true, -0.25 * HOUR, HOUR, now),      // active
+        override('david.wilson', true, 0.5 * HOUR, 2 * HOUR, now)   // scheduled
+      ]
+    },
+    {
+      id: 'container-3',
+      organizationId,
+      version: 1,
+      name: 'Customer Success Team',
+      description: 'Premium customer success team override',
+      timezone: DEFAULT_TIMEZONE,
+      createdTime: timestamp,
+      lastModifiedTime: timestamp,
+      overrides: [
+        override('emma.garcia', false, HOUR, 4 * HOUR, now),      // off
+        override('robert.martinez', true, 2 * HOUR, 5 * HOUR, now) // scheduled
+      ]
+    }
+  ];
+};
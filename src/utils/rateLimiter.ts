@@ -0,0 +1,91 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // time until the current window ends
+}
+
+/**
+ * Fixed-window request counter per client key
+ *
+ * Each key may make `max` requests per window; the window starts with the key's first
+ * request. A max of 0 or less disables limiting: every request is allowed.
+ */
+export class RateLimiter {
+  private windows = new Map<string, { count: number; resetAt: number }>();
+  private nextSweepAt = 0;
+
+  constructor(
+    private readonly windowMs: number,
+    private readonly max: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get enabled(): boolean {
+    return this.max > 0 && this.windowMs > 0;
+  }
+
+  /**
+   * Count a request of `key` and tell whether it is within the limit
+   */
+  consume(key: string): RateLimitResult {
+    const now = this.now();
+    if (!this.enabled) {
+      return { allowed: true, limit: this.max, remaining: this.max, resetMs: 0 };
+    }
+
+    this.sweep(now);
+
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= this.max,
+      limit: this.max,
+      remaining: Math.max(0, this.max - window.count),
+      resetMs: window.resetAt - now
+    };
+  }
+
+  /**
+   * Tell whether `key` may make another request, without counting one
+   */
+  peek(key: string): RateLimitResult {
+    const now = this.now();
+    const window = this.windows.get(key);
+    if (!this.enabled || !window || window.resetAt <= now) {
+      return { allowed: true, limit: this.max, remaining: this.max, resetMs: 0 };
+    }
+
+    return {
+      allowed: window.count < this.max,
+      limit: this.max,
+      remaining: Math.max(0, this.max - window.count),
+      resetMs: window.resetAt - now
+    };
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  get size(): number {
+    return this.windows.size;
+  }
+
+  // Drop ended windows once per window, so clients that went away do not pile up
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) return;
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+    this.nextSweepAt = now + this.windowMs;
+  }
+}
@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuthIdentity, Organization } from '../types';
+import { config } from '../config';
+
+export interface RequestContext {
+  organization: Organization;
+  identity?: AuthIdentity; // set once the request is authenticated, and recorded as its actor
+}
+
+// Actor of changes made without a known identity
+export const ANONYMOUS_ACTOR = 'anonymous';
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn`, and everything it awaits, with the given request context
+ */
+export const runWithContext = <T>(context: RequestContext, fn: () => T): T => storage.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * The organization configured through the WXCC_* environment variables
+ * Built on every call, so it always reflects the current configuration.
+ */
+export const getDefaultOrganization = (): Organization => ({
+  id: config.wxcc.organizationId,
+  name: 'Default organization',
+  baseUrl: config.wxcc.baseUrl,
+  timezone: 'UTC',
+  accessToken: config.wxcc.accessToken || undefined,
+  refreshToken: config.wxcc.refreshToken || undefined,
+  clientId: config.wxcc.clientId || undefined,
+  clientSecret: config.wxcc.clientSecret || undefined,
+  tokenUrl: config.wxcc.tokenUrl
+});
+
+/**
+ * The organization the current request is scoped to
+ * Outside an org-scoped route (legacy /api/overrides routes, startup, tests) this is the
+ * default organization from the environment.
+ */
+export const getCurrentOrganization = (): Organization =>
+  storage.getStore()?.organization ?? getDefaultOrganization();
+
+/**
+ * The authenticated caller of the current request, if any
+ */
+export const getCurrentIdentity = (): AuthIdentity | undefined => storage.getStore()?.identity;
+
+/**
+ * Who the current request is made by, for the audit log
+ */
+export const getCurrentActor = (): string => storage.getStore()?.identity?.subject ?? ANONYMOUS_ACTOR;
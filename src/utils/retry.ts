@@ -0,0 +1,33 @@
+/**
+ * Helpers for retrying failed WxCC calls
+ */
+
+/**
+ * Exponential backoff with jitter: a random delay between half and all of
+ * `baseMs * 2^(attempt - 1)`, capped at `maxMs`, so retrying clients spread out
+ */
+export const backoffDelay = (
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+/**
+ * Milliseconds to wait according to a Retry-After header, given either as
+ * delay-seconds or as an HTTP date; undefined if the header is missing or invalid
+ */
+export const parseRetryAfter = (value: unknown, now: number = Date.now()): number | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};